@@ -8,6 +8,9 @@ import type {
   OutreachResponse,
   AccountFilters,
   Category,
+  CategorizationHistoryEntry,
+  GithubProfile,
+  TweetSource,
 } from '../types';
 
 const api = axios.create({
@@ -27,6 +30,7 @@ export async function getAccounts(
   params.set('page', String(page));
   params.set('limit', String(limit));
 
+  if (filters.q) params.set('q', filters.q);
   if (filters.category) params.set('category', filters.category);
   if (filters.minConfidence !== undefined) params.set('minConfidence', String(filters.minConfidence));
   if (filters.hasGithub !== undefined) params.set('hasGithub', String(filters.hasGithub));
@@ -42,6 +46,21 @@ export async function getAccount(id: string): Promise<{ account: Account; tweets
   return response.data;
 }
 
+export async function getAccountTweets(id: string, source?: TweetSource): Promise<Tweet[]> {
+  const response = await api.get<{ data: Tweet[] }>(`/accounts/${id}/tweets`, { params: { source } });
+  return response.data.data;
+}
+
+export async function getAccountHistory(id: string): Promise<CategorizationHistoryEntry[]> {
+  const response = await api.get<{ data: CategorizationHistoryEntry[] }>(`/accounts/${id}/history`);
+  return response.data.data;
+}
+
+export async function getAccountGithub(id: string): Promise<GithubProfile | null> {
+  const response = await api.get<{ data: GithubProfile | null }>(`/accounts/${id}/github`);
+  return response.data.data;
+}
+
 export async function updateAccountCategory(
   id: string,
   category: Category,
@@ -1,4 +1,10 @@
-import type { Tweet } from '../types';
+import type { Tweet, TweetSource } from '../types';
+
+const SOURCE_LABELS: Record<TweetSource, string> = {
+  keyword_search: 'Keyword search',
+  user_x402_search: 'x402 search',
+  timeline: 'Timeline',
+};
 
 interface TweetCardProps {
   tweet: Tweet;
@@ -57,8 +63,24 @@ export default function TweetCard({ tweet }: TweetCardProps) {
             </svg>
             <span className="font-medium">{tweet.quotes.toLocaleString()}</span>
           </span>
+          {tweet.views !== null && tweet.views !== undefined && (
+            <span className="flex items-center gap-1.5 text-slate-500">
+              <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+              </svg>
+              <span className="font-medium">{tweet.views.toLocaleString()}</span>
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {(tweet.sources || []).map((source) => (
+            <span key={source} className="px-2 py-0.5 bg-slate-100 text-slate-500 text-xs font-medium rounded-md">
+              {SOURCE_LABELS[source]}
+            </span>
+          ))}
+          <span className="text-sm text-slate-400">{formatDate(tweet.created_at)}</span>
         </div>
-        <span className="text-sm text-slate-400">{formatDate(tweet.created_at)}</span>
       </div>
 
       {(tweet.has_code || tweet.has_github) && (
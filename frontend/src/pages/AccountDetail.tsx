@@ -1,14 +1,24 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { getAccount } from '../api/client';
-import type { Account, Tweet } from '../types';
+import { getAccount, getAccountGithub, getAccountHistory, getAccountTweets } from '../api/client';
+import type { Account, Tweet, TweetSource, CategorizationHistoryEntry, GithubProfile } from '../types';
 import CategoryBadge from '../components/CategoryBadge';
 import TweetCard from '../components/TweetCard';
 
+const TWEET_SOURCE_TABS: Array<{ value: TweetSource | null; label: string }> = [
+  { value: null, label: 'All' },
+  { value: 'keyword_search', label: 'Keyword search' },
+  { value: 'user_x402_search', label: 'x402 search' },
+  { value: 'timeline', label: 'Timeline' },
+];
+
 export default function AccountDetail() {
   const { id } = useParams<{ id: string }>();
   const [account, setAccount] = useState<Account | null>(null);
   const [tweets, setTweets] = useState<Tweet[]>([]);
+  const [tweetSource, setTweetSource] = useState<TweetSource | null>(null);
+  const [history, setHistory] = useState<CategorizationHistoryEntry[]>([]);
+  const [github, setGithub] = useState<GithubProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -21,6 +31,9 @@ export default function AccountDetail() {
         const data = await getAccount(id);
         setAccount(data.account);
         setTweets(data.tweets || []);
+        // History is supplementary; the page still renders without it
+        setHistory(await getAccountHistory(id).catch(() => []));
+        setGithub(await getAccountGithub(id).catch(() => null));
       } catch (err) {
         setError('Failed to load account');
         console.error(err);
@@ -31,6 +44,12 @@ export default function AccountDetail() {
     fetchData();
   }, [id]);
 
+  const selectTweetSource = async (source: TweetSource | null) => {
+    if (!id) return;
+    setTweetSource(source);
+    setTweets(await getAccountTweets(id, source ?? undefined).catch(() => []));
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -91,7 +110,11 @@ export default function AccountDetail() {
       {/* Profile Header */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-100 overflow-hidden">
         {/* Banner */}
-        <div className="h-32 bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500"></div>
+        {account.cover_image_url ? (
+          <img src={account.cover_image_url} alt="" className="h-32 w-full object-cover" />
+        ) : (
+          <div className="h-32 bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500"></div>
+        )}
 
         <div className="px-6 pb-6">
           <div className="flex items-end gap-6 -mt-12">
@@ -111,6 +134,14 @@ export default function AccountDetail() {
             <div className="flex-1 pb-2">
               <div className="flex items-center gap-3">
                 <h1 className="text-2xl font-bold text-slate-800">{account.display_name}</h1>
+                {account.verified && (
+                  <span
+                    className="px-2 py-0.5 bg-sky-50 text-sky-600 text-xs font-medium rounded-md"
+                    title={account.verified_type || 'Verified'}
+                  >
+                    Verified
+                  </span>
+                )}
                 <CategoryBadge category={account.ai_category} />
               </div>
               <p className="text-slate-500">@{account.username}</p>
@@ -132,6 +163,21 @@ export default function AccountDetail() {
             <p className="mt-6 text-slate-700 leading-relaxed">{account.bio}</p>
           )}
 
+          <div className="mt-4 flex flex-wrap gap-x-6 gap-y-2 text-sm text-slate-500">
+            {account.location && <span>{account.location}</span>}
+            {account.website_url && (
+              <a
+                href={account.website_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-indigo-600 hover:text-indigo-700"
+              >
+                {account.website_url.replace(/^https?:\/\//, '')}
+              </a>
+            )}
+            {account.account_created_at && <span>Joined {formatDate(account.account_created_at)}</span>}
+          </div>
+
           <div className="mt-6 flex gap-8">
             <div className="text-center">
               <p className="text-2xl font-bold text-slate-800">
@@ -147,10 +193,16 @@ export default function AccountDetail() {
             </div>
             <div className="text-center">
               <p className="text-2xl font-bold text-slate-800">
-                {account.tweet_count.toLocaleString()}
+                {account.tweet_count ? account.tweet_count.toLocaleString() : '—'}
               </p>
               <p className="text-sm text-slate-500">Tweets</p>
             </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-slate-800">
+                {(account.favourites_count || 0).toLocaleString()}
+              </p>
+              <p className="text-sm text-slate-500">Likes</p>
+            </div>
           </div>
         </div>
       </div>
@@ -216,7 +268,150 @@ export default function AccountDetail() {
         )}
       </div>
 
-      {/* Recent Tweets */}
+      {/* GitHub */}
+      {github && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-slate-700 to-slate-900 flex items-center justify-center">
+                <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+                </svg>
+              </div>
+              <div>
+                <h2 className="text-lg font-bold text-slate-800">GitHub</h2>
+                <a
+                  href={`https://github.com/${github.github_username}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-indigo-600 hover:text-indigo-700"
+                >
+                  github.com/{github.github_username}
+                </a>
+              </div>
+            </div>
+            <span className="px-3 py-1.5 bg-slate-100 rounded-lg text-sm font-medium text-slate-600">
+              Found in {github.source} · updated {formatDate(github.fetched_at)}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-slate-50 rounded-xl p-4">
+              <p className="text-sm text-slate-500 mb-1">Public Repos</p>
+              <p className="text-lg font-semibold text-slate-800">{github.public_repos}</p>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-4">
+              <p className="text-sm text-slate-500 mb-1">Followers</p>
+              <p className="text-lg font-semibold text-slate-800">{github.followers.toLocaleString()}</p>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-4">
+              <p className="text-sm text-slate-500 mb-1">Pushes (30 days)</p>
+              <p className="text-lg font-semibold text-slate-800">{github.recent_pushes}</p>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-4">
+              <p className="text-sm text-slate-500 mb-1">Last Push</p>
+              <p className="text-lg font-semibold text-slate-800">{formatDate(github.last_push_at)}</p>
+            </div>
+          </div>
+
+          {Object.keys(github.languages).length > 0 && (
+            <div className="mt-6 flex flex-wrap gap-2">
+              {Object.entries(github.languages)
+                .sort((a, b) => b[1] - a[1])
+                .map(([language, count]) => (
+                  <span key={language} className="px-2.5 py-1 bg-slate-100 text-slate-700 text-xs font-medium rounded-md">
+                    {language} · {count}
+                  </span>
+                ))}
+            </div>
+          )}
+
+          {github.repos.length > 0 && (
+            <ul className="mt-6 divide-y divide-slate-100">
+              {github.repos.map((repo) => (
+                <li key={repo.name} className="py-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <a
+                      href={`https://github.com/${repo.name}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-medium text-slate-800 hover:text-indigo-600"
+                    >
+                      {repo.name}
+                    </a>
+                    {repo.x402 && (
+                      <span
+                        className="px-2 py-0.5 bg-emerald-50 text-emerald-700 text-xs font-medium rounded-md"
+                        title={repo.x402_evidence.join(', ')}
+                      >
+                        x402
+                      </span>
+                    )}
+                    {repo.fork && (
+                      <span className="px-2 py-0.5 bg-slate-100 text-slate-500 text-xs font-medium rounded-md">fork</span>
+                    )}
+                    <span className="text-xs text-slate-400">
+                      {[repo.language, `${repo.stars} stars`, repo.pushed_at && `pushed ${formatDate(repo.pushed_at)}`]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </span>
+                  </div>
+                  {repo.description && <p className="mt-1 text-sm text-slate-600">{repo.description}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Categorization History */}
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center">
+              <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-bold text-slate-800">Categorization History</h2>
+          </div>
+          <span className="px-3 py-1.5 bg-slate-100 rounded-lg text-sm font-medium text-slate-600">
+            {history.length} entries
+          </span>
+        </div>
+
+        {history.length > 0 ? (
+          <ol className="relative border-l-2 border-slate-100 ml-2 space-y-6">
+            {history.map((entry) => (
+              <li key={entry.id} className="ml-6">
+                <span className="absolute -left-[7px] w-3 h-3 rounded-full bg-indigo-400 ring-4 ring-white"></span>
+                <div className="flex flex-wrap items-center gap-3">
+                  <CategoryBadge category={entry.category} />
+                  <span className="text-sm font-semibold text-slate-700">
+                    {(entry.confidence * 100).toFixed(0)}%
+                  </span>
+                  <span className="px-2 py-0.5 bg-slate-100 rounded-md text-xs font-medium text-slate-600 uppercase">
+                    {entry.source}
+                  </span>
+                  <span className="text-sm text-slate-500">{formatDate(entry.created_at)}</span>
+                </div>
+                {(entry.model || entry.prompt_version) && (
+                  <p className="mt-1 text-xs text-slate-400">
+                    {[entry.model, entry.prompt_version].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+                <p className="mt-2 text-sm text-slate-600 leading-relaxed">{entry.reasoning}</p>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <div className="text-center py-12 bg-slate-50 rounded-xl">
+            <p className="text-slate-500">No categorization history recorded yet</p>
+          </div>
+        )}
+      </div>
+
+      {/* Collected Tweets */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-100 p-6">
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-3">
@@ -225,13 +420,29 @@ export default function AccountDetail() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
               </svg>
             </div>
-            <h2 className="text-lg font-bold text-slate-800">Recent x402 Tweets</h2>
+            <h2 className="text-lg font-bold text-slate-800">Collected Tweets</h2>
           </div>
           <span className="px-3 py-1.5 bg-slate-100 rounded-lg text-sm font-medium text-slate-600">
             {tweets.length} tweets
           </span>
         </div>
 
+        <div className="flex flex-wrap gap-2 mb-6">
+          {TWEET_SOURCE_TABS.map((tab) => (
+            <button
+              key={tab.label}
+              onClick={() => selectTweetSource(tab.value)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                tweetSource === tab.value
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
         {tweets.length > 0 ? (
           <div className="space-y-4">
             {tweets.map((tweet) => (
@@ -243,7 +454,7 @@ export default function AccountDetail() {
             <svg className="w-12 h-12 mx-auto text-slate-300 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
             </svg>
-            <p className="text-slate-500">No x402-related tweets found</p>
+            <p className="text-slate-500">No tweets collected{tweetSource ? ' from this source' : ''}</p>
           </div>
         )}
       </div>
@@ -12,10 +12,12 @@ export default function AccountsList() {
   const [error, setError] = useState<string | null>(null);
 
   const page = parseInt(searchParams.get('page') || '1', 10);
+  const q = searchParams.get('q');
   const category = searchParams.get('category') as Category | null;
   const minConfidence = searchParams.get('minConfidence');
   const hasGithub = searchParams.get('hasGithub');
-  const orderBy = searchParams.get('orderBy') as AccountFilters['orderBy'] || 'ai_confidence';
+  const sortParam = searchParams.get('orderBy') as AccountFilters['orderBy'] | null;
+  const orderBy = sortParam || 'ai_confidence';
   const orderDir = searchParams.get('orderDir') as 'asc' | 'desc' || 'desc';
 
   useEffect(() => {
@@ -23,10 +25,12 @@ export default function AccountsList() {
       try {
         setLoading(true);
         const filters: AccountFilters = {
+          q: q || undefined,
           category: category || undefined,
           minConfidence: minConfidence ? parseFloat(minConfidence) : undefined,
           hasGithub: hasGithub ? hasGithub === 'true' : undefined,
-          orderBy,
+          // Without a chosen column, search results stay in relevance order
+          orderBy: sortParam || undefined,
           orderDir,
         };
         const result = await getAccounts(filters, page, 20);
@@ -39,7 +43,7 @@ export default function AccountsList() {
       }
     }
     fetchData();
-  }, [page, category, minConfidence, hasGithub, orderBy, orderDir]);
+  }, [page, q, category, minConfidence, hasGithub, sortParam, orderDir]);
 
   const updateFilter = (key: string, value: string | null) => {
     const newParams = new URLSearchParams(searchParams);
@@ -70,7 +74,7 @@ export default function AccountsList() {
     setSearchParams(newParams);
   };
 
-  const activeFiltersCount = [category, minConfidence, hasGithub].filter(Boolean).length;
+  const activeFiltersCount = [q, category, minConfidence, hasGithub].filter(Boolean).length;
 
   return (
     <div className="space-y-6">
@@ -102,6 +106,25 @@ export default function AccountsList() {
         </div>
 
         <div className="flex flex-wrap gap-4">
+          <form
+            key={q || ''}
+            className="flex-[2] min-w-[240px]"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const value = new FormData(e.currentTarget).get('q');
+              updateFilter('q', typeof value === 'string' ? value.trim() : null);
+            }}
+          >
+            <label className="block text-sm font-medium text-slate-600 mb-2">Search</label>
+            <input
+              name="q"
+              type="search"
+              defaultValue={q || ''}
+              placeholder='e.g. facilitator or "x402 facilitator"'
+              className="w-full px-4 py-2.5 border border-slate-200 rounded-xl bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-colors"
+            />
+          </form>
+
           <div className="flex-1 min-w-[180px]">
             <label className="block text-sm font-medium text-slate-600 mb-2">Category</label>
             <select
@@ -8,17 +8,34 @@ export interface Account {
   bio: string | null;
   followers_count: number;
   following_count: number;
+  // 0 when unknown (search results do not report it)
   tweet_count: number;
+  favourites_count: number;
   profile_image_url: string | null;
+  location: string | null;
+  website_url: string | null;
+  verified: boolean;
+  verified_type: string | null;
+  account_created_at: string | null;
+  cover_image_url: string | null;
   has_github: boolean;
   ai_category: Category | null;
   ai_reasoning: string | null;
   ai_confidence: number | null;
   ai_categorized_at: string | null;
+  engagement_score?: number | null;
+  tech_score?: number | null;
+  x402_relevance?: number | null;
+  x402_tweet_count_30d?: number | null;
+  last_active_at?: string | null;
+  needs_review?: boolean;
+  threshold_failures?: { rule: string; value: number; threshold: number }[];
   created_at: string;
   updated_at: string;
 }
 
+export type TweetSource = 'keyword_search' | 'user_x402_search' | 'timeline';
+
 export interface Tweet {
   id: string;
   twitter_id: string;
@@ -28,10 +45,72 @@ export interface Tweet {
   retweets: number;
   replies: number;
   quotes: number;
+  bookmarks: number;
+  views: number | null;
+  lang: string | null;
+  conversation_id: string | null;
+  entities: {
+    hashtags?: Array<{ text: string }>;
+    symbols?: Array<{ text: string }>;
+    user_mentions?: Array<{ screen_name: string; name: string }>;
+    urls?: Array<{ expanded_url: string }>;
+  };
+  media: {
+    photo?: Array<{ media_url_https: string }>;
+    video?: Array<{ media_url_https: string }>;
+  };
   created_at: string;
   has_code: boolean;
+  code_evidence?: 'code_block' | 'inline_code' | 'screenshot' | null;
+  code_languages?: string[];
+  repo_links?: Array<{ type: 'github' | 'npm' | 'pypi' | 'crates'; name: string; url: string }>;
+  links?: Array<{ url: string; host: string; domain: string }>;
   has_github: boolean;
   x402_keywords_found: string[];
+  sources: TweetSource[];
+}
+
+export interface GithubRepoSummary {
+  name: string;
+  description: string | null;
+  language: string | null;
+  stars: number;
+  fork: boolean;
+  pushed_at: string | null;
+  x402: boolean;
+  x402_evidence: string[];
+}
+
+export interface GithubProfile {
+  account_id: string;
+  github_username: string;
+  source: 'bio' | 'website' | 'tweet';
+  name: string | null;
+  bio: string | null;
+  public_repos: number;
+  followers: number;
+  github_created_at: string | null;
+  languages: Record<string, number>;
+  recent_pushes: number;
+  last_push_at: string | null;
+  repos: GithubRepoSummary[];
+  x402_repo_count: number;
+  fetched_at: string;
+}
+
+export type CategorizationSource = 'crawl' | 'secondary' | 'worker' | 'manual';
+
+export interface CategorizationHistoryEntry {
+  id: string;
+  account_id: string;
+  twitter_id: string;
+  category: Category;
+  confidence: number;
+  reasoning: string;
+  model: string | null;
+  prompt_version: string | null;
+  source: CategorizationSource;
+  created_at: string;
 }
 
 export interface PaginatedResponse<T> {
@@ -99,6 +178,7 @@ export interface OutreachResponse {
 }
 
 export interface AccountFilters {
+  q?: string;
   category?: Category;
   minConfidence?: number;
   hasGithub?: boolean;
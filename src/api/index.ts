@@ -9,6 +9,12 @@ import { logger } from '../utils/logger.js';
 import accountsRouter from './routes/accounts.js';
 import searchRouter from './routes/search.js';
 import analyticsRouter from './routes/analytics.js';
+import crawlsRouter from './routes/crawls.js';
+import tweetsRouter from './routes/tweets.js';
+import blocklistRouter from './routes/blocklist.js';
+import graphRouter from './routes/graph.js';
+import prefilterRouter from './routes/prefilter.js';
+import settingsRouter from './routes/settings.js';
 
 export function createApp(): Express {
   const app = express();
@@ -64,17 +70,36 @@ export function createApp(): Express {
       version: '1.0.0',
       endpoints: {
         accounts: {
-          'GET /api/accounts': 'List accounts with filtering',
+          'GET /api/accounts': 'List accounts with filtering (q for full-text search)',
           'GET /api/accounts/:id': 'Get account details',
+          'GET /api/accounts/:id/tweets': 'Get stored tweets for account (source filter)',
+          'GET /api/accounts/:id/history': 'Get categorization history for account',
+          'GET /api/accounts/:id/metrics': 'Get follower and engagement time series',
+          'GET /api/accounts/:id/links': 'Get domains the account links to',
+          'GET /api/accounts/:id/bot-signals': 'Get heuristic bot/engagement-farming flags',
+          'GET /api/accounts/:id/github': 'Get GitHub profile from enrichment',
+          'POST /api/accounts/:id/github/refresh': 'Fetch GitHub profile now',
           'GET /api/accounts/twitter/:twitterId': 'Get account by Twitter ID',
           'PATCH /api/accounts/:id': 'Update account',
-          'DELETE /api/accounts/:id': 'Delete account',
+          'DELETE /api/accounts/:id': 'Archive account (?permanent=true to delete)',
+          'POST /api/accounts/:id/restore': 'Restore archived account',
+        },
+        blocklist: {
+          'GET /api/blocklist': 'List blocklisted accounts',
+          'POST /api/blocklist': 'Block account from discovery and categorization',
+          'GET /api/blocklist/:twitterId': 'Get blocklist entry',
+          'DELETE /api/blocklist/:twitterId': 'Unblock account',
+        },
+        tweets: {
+          'GET /api/tweets/search': 'Full-text search over collected tweets',
         },
         search: {
           'POST /api/search/run': 'Trigger search job',
           'GET /api/search/status': 'Get search status',
           'GET /api/search/job/:jobId': 'Get job status',
           'GET /api/search/queries': 'Get search history',
+          'GET /api/search/cursors': 'Get incremental search state per keyword',
+          'DELETE /api/search/cursors': 'Reset keyword cursors (full re-search next run)',
           'GET /api/search/keywords': 'Get configured keywords',
         },
         analytics: {
@@ -82,6 +107,26 @@ export function createApp(): Express {
           'GET /api/analytics/export': 'Export as CSV',
           'GET /api/analytics/outreach': 'Get outreach recommendations',
           'GET /api/analytics/score-distribution': 'Get score distributions',
+          'GET /api/analytics/domains': 'Get most shared domains',
+          'GET /api/analytics/links': 'Get most shared links',
+        },
+        crawls: {
+          'GET /api/crawls': 'List crawl runs',
+          'GET /api/crawls/:id': 'Get crawl run details',
+        },
+        graph: {
+          'GET /api/graph/neighbors/:id': 'Get accounts this account interacts with (mentions, replies, quotes)',
+          'GET /api/graph/top-influencers': 'Get users ranked by interaction-graph influence',
+          'GET /api/graph/candidates': 'Get undiscovered users that KOLs and developers mention',
+          'POST /api/graph/recompute': 'Recompute influence scores',
+        },
+        prefilter: {
+          'GET /api/prefilter/rules': 'Get pre-filter rules and their hit counts',
+        },
+        settings: {
+          'GET /api/settings/kol-thresholds': 'Get KOL thresholds in effect',
+          'PUT /api/settings/kol-thresholds': 'Change KOL thresholds',
+          'DELETE /api/settings/kol-thresholds': 'Reset KOL thresholds to the environment defaults',
         },
       },
     });
@@ -91,6 +136,12 @@ export function createApp(): Express {
   app.use('/api/accounts', accountsRouter);
   app.use('/api/search', searchRouter);
   app.use('/api/analytics', analyticsRouter);
+  app.use('/api/crawls', crawlsRouter);
+  app.use('/api/tweets', tweetsRouter);
+  app.use('/api/blocklist', blocklistRouter);
+  app.use('/api/graph', graphRouter);
+  app.use('/api/prefilter', prefilterRouter);
+  app.use('/api/settings', settingsRouter);
 
   // 404 handler
   app.use((_req: Request, res: Response) => {
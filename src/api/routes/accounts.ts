@@ -1,6 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { AccountModel, TweetModel } from '../../db/account.model.js';
+import {
+  AccountModel,
+  TweetModel,
+  CategorizationHistoryModel,
+  MetricSnapshotModel,
+  BlocklistModel,
+  GithubProfileModel,
+} from '../../db/account.model.js';
+import { fetchGithubProfile, resolveGithubUsername } from '../../collectors/githubEnrichment.js';
+import { GithubRateLimitError } from '../../collectors/githubProvider.js';
+import { getAccountLinkProfile } from '../../services/linkAnalytics.js';
+import { detectAccountBotSignals } from '../../services/botDetector.js';
 import { logger } from '../../utils/logger.js';
 import type { Category, AccountFilters } from '../../types/index.js';
 
@@ -13,8 +24,30 @@ const listQuerySchema = z.object({
   category: z.enum(['KOL', 'DEVELOPER', 'ACTIVE_USER', 'UNCATEGORIZED']).optional(),
   minConfidence: z.coerce.number().min(0).max(1).optional(),
   hasGithub: z.coerce.boolean().optional(),
-  orderBy: z.enum(['ai_confidence', 'followers_count', 'created_at', 'ai_categorized_at']).default('ai_confidence'),
+  // Minimum 0-100 scores computed after tweet collection
+  minEngagementScore: z.coerce.number().min(0).max(100).optional(),
+  minTechScore: z.coerce.number().min(0).max(100).optional(),
+  minX402Relevance: z.coerce.number().min(0).max(100).optional(),
+  // KOL verdicts below a KOL threshold that wait for review
+  needsReview: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  orderBy: z
+    .enum([
+      'ai_confidence',
+      'followers_count',
+      'created_at',
+      'ai_categorized_at',
+      'engagement_score',
+      'tech_score',
+      'x402_relevance',
+      'x402_tweet_count_30d',
+      'last_active_at',
+    ])
+    .optional(),
   orderDir: z.enum(['asc', 'desc']).default('desc'),
+  // Full-text search; results are ranked by relevance unless orderBy is given
+  q: z.string().trim().min(1).max(200).optional(),
+  // List archived (soft-deleted) accounts instead of active ones
+  archived: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
 });
 
 /**
@@ -29,6 +62,12 @@ router.get('/', async (req: Request, res: Response) => {
       aiCategory: query.category as Category | undefined,
       minAiConfidence: query.minConfidence,
       hasGithub: query.hasGithub,
+      minEngagementScore: query.minEngagementScore,
+      minTechScore: query.minTechScore,
+      minX402Relevance: query.minX402Relevance,
+      needsReview: query.needsReview,
+      query: query.q,
+      archived: query.archived,
     };
 
     const result = await AccountModel.list(
@@ -49,17 +88,37 @@ router.get('/', async (req: Request, res: Response) => {
       followers_count: account.followers_count,
       following_count: account.following_count,
       tweet_count: account.tweet_count || 0,
+      favourites_count: account.favourites_count || 0,
       profile_image_url: account.profile_image_url,
       twitter_url: `https://twitter.com/${account.username}`,
+      // Profile details
+      location: account.location ?? null,
+      website_url: account.website_url ?? null,
+      verified: account.verified ?? false,
+      verified_type: account.verified_type ?? null,
+      account_created_at: account.account_created_at ?? null,
+      cover_image_url: account.cover_image_url ?? null,
       // AI categorization (using ai_ prefix to match frontend)
       ai_category: account.ai_category || 'UNCATEGORIZED',
       ai_confidence: account.ai_confidence || 0,
       ai_reasoning: account.ai_reasoning || null,
       ai_categorized_at: account.ai_categorized_at || null,
+      // Scores
+      engagement_score: account.engagement_score ?? null,
+      tech_score: account.tech_score ?? null,
+      x402_relevance: account.x402_relevance ?? null,
+      x402_tweet_count_30d: account.x402_tweet_count_30d ?? null,
+      last_active_at: account.last_active_at ?? null,
+      // KOL threshold policy
+      needs_review: account.needs_review ?? false,
+      threshold_failures: account.threshold_failures ?? [],
       // Metadata
       has_github: account.has_github,
+      deleted_at: account.deleted_at || null,
       created_at: account.created_at,
       updated_at: account.updated_at,
+      // Search relevance (only with q)
+      ...(query.q && { search_rank: account.search_rank, matched_tweets: account.matched_tweets }),
     }));
 
     res.json({
@@ -103,15 +162,34 @@ router.get('/:id', async (req: Request, res: Response) => {
         followers_count: account.followers_count,
         following_count: account.following_count,
         tweet_count: account.tweet_count || 0,
+        favourites_count: account.favourites_count || 0,
         profile_image_url: account.profile_image_url,
         twitter_url: `https://twitter.com/${account.username}`,
+        // Profile details
+        location: account.location ?? null,
+        website_url: account.website_url ?? null,
+        verified: account.verified ?? false,
+        verified_type: account.verified_type ?? null,
+        account_created_at: account.account_created_at ?? null,
+        cover_image_url: account.cover_image_url ?? null,
         // AI categorization (using ai_ prefix to match frontend)
         ai_category: account.ai_category || 'UNCATEGORIZED',
         ai_confidence: account.ai_confidence || 0,
         ai_reasoning: account.ai_reasoning || null,
         ai_categorized_at: account.ai_categorized_at || null,
+        // Scores
+        engagement_score: account.engagement_score ?? null,
+        tech_score: account.tech_score ?? null,
+        x402_relevance: account.x402_relevance ?? null,
+        x402_tweet_count_30d: account.x402_tweet_count_30d ?? null,
+        last_active_at: account.last_active_at ?? null,
+        scores_computed_at: account.scores_computed_at ?? null,
+        // KOL threshold policy
+        needs_review: account.needs_review ?? false,
+        threshold_failures: account.threshold_failures ?? [],
         // Metadata
         has_github: account.has_github,
+        deleted_at: account.deleted_at || null,
         created_at: account.created_at,
         updated_at: account.updated_at,
       },
@@ -123,6 +201,225 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+const tweetsQuerySchema = z.object({
+  source: z.enum(['keyword_search', 'user_x402_search', 'timeline']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+/**
+ * GET /api/accounts/:id/tweets
+ * Get stored tweets for account (newest first), optionally by source
+ */
+router.get('/:id/tweets', async (req: Request, res: Response) => {
+  try {
+    const { source, limit } = tweetsQuerySchema.parse(req.query);
+
+    const account = await AccountModel.getById(req.params.id);
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    const tweets = await TweetModel.getByAccountId(account.id!, limit, source);
+    res.json({ data: tweets });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error getting account tweets:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+/**
+ * GET /api/accounts/:id/history
+ * Get categorization history for account (newest first)
+ */
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const { limit } = historyQuerySchema.parse(req.query);
+
+    const account = await AccountModel.getById(req.params.id);
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    const history = await CategorizationHistoryModel.getByAccountId(account.id!, limit);
+    res.json({ data: history });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error getting categorization history:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const metricsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(90),
+});
+
+/**
+ * GET /api/accounts/:id/metrics
+ * Get follower and engagement time series for account (oldest first)
+ */
+router.get('/:id/metrics', async (req: Request, res: Response) => {
+  try {
+    const { days } = metricsQuerySchema.parse(req.query);
+
+    const account = await AccountModel.getById(req.params.id);
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const snapshots = await MetricSnapshotModel.getByAccountId(account.id!, since);
+
+    // Growth between the first and latest snapshot in the window
+    const first = snapshots[0];
+    const latest = snapshots[snapshots.length - 1];
+    const spanDays =
+      first && latest
+        ? (new Date(latest.captured_at!).getTime() - new Date(first.captured_at!).getTime()) / (24 * 60 * 60 * 1000)
+        : 0;
+    const followerChange = first && latest ? latest.followers_count - first.followers_count : 0;
+
+    res.json({
+      data: snapshots.map((s) => ({
+        captured_at: s.captured_at,
+        source: s.source,
+        followers_count: s.followers_count,
+        following_count: s.following_count,
+        tweet_count: s.tweet_count,
+        favourites_count: s.favourites_count ?? null,
+        sampled_tweets: s.sampled_tweets,
+        avg_likes: s.avg_likes,
+        avg_retweets: s.avg_retweets,
+        avg_replies: s.avg_replies,
+        avg_views: s.avg_views,
+        engagement_rate: s.engagement_rate,
+      })),
+      summary: {
+        snapshots: snapshots.length,
+        span_days: Number(spanDays.toFixed(1)),
+        follower_change: followerChange,
+        follower_growth_pct:
+          first && first.followers_count > 0 ? Number(((followerChange / first.followers_count) * 100).toFixed(2)) : null,
+        followers_per_day: spanDays > 0 ? Number((followerChange / spanDays).toFixed(2)) : null,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error getting account metrics:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/accounts/:id/links
+ * Domains the account links to in its stored tweets, split into its own sites and third parties
+ */
+router.get('/:id/links', async (req: Request, res: Response) => {
+  try {
+    const account = await AccountModel.getById(req.params.id);
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    res.json({ data: await getAccountLinkProfile(account) });
+  } catch (error) {
+    logger.error('Error getting account link profile:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/accounts/:id/bot-signals
+ * Run the heuristic bot/engagement-farming detector over the stored timeline now
+ */
+router.get('/:id/bot-signals', async (req: Request, res: Response) => {
+  try {
+    const account = await AccountModel.getById(req.params.id);
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    res.json({ data: await detectAccountBotSignals(account) });
+  } catch (error) {
+    logger.error('Error detecting bot signals:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/accounts/:id/github
+ * Get the account's GitHub profile from the last enrichment (data is null if none)
+ */
+router.get('/:id/github', async (req: Request, res: Response) => {
+  try {
+    const account = await AccountModel.getById(req.params.id);
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    const profile = await GithubProfileModel.getByAccountId(account.id!);
+    res.json({ data: profile });
+  } catch (error) {
+    logger.error('Error getting GitHub profile:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/accounts/:id/github/refresh
+ * Resolve the account's GitHub username (bio, website, stored tweets) and fetch its profile now
+ */
+router.post('/:id/github/refresh', async (req: Request, res: Response) => {
+  try {
+    const account = await AccountModel.getById(req.params.id);
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    const tweets = await TweetModel.getByAccountId(account.id!, 200);
+    const resolved = resolveGithubUsername(account, tweets.flatMap((t) => t.repo_links || []));
+    if (!resolved) {
+      res.status(404).json({ error: 'No GitHub account found for this account' });
+      return;
+    }
+
+    const profile = await fetchGithubProfile(account.id!, resolved);
+    if (!profile) {
+      res.status(404).json({ error: `GitHub user ${resolved.username} not found` });
+      return;
+    }
+
+    res.json({ data: (await GithubProfileModel.upsert(profile)) || profile });
+  } catch (error) {
+    if (error instanceof GithubRateLimitError) {
+      res.status(429).json({ error: error.message });
+      return;
+    }
+    logger.error('Error refreshing GitHub profile:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/accounts/twitter/:twitterId
  * Get account by Twitter ID
@@ -144,8 +441,14 @@ router.get('/twitter/:twitterId', async (req: Request, res: Response) => {
       bio: account.bio,
       followers_count: account.followers_count,
       following_count: account.following_count,
+      tweet_count: account.tweet_count || 0,
+      favourites_count: account.favourites_count || 0,
       profile_image_url: account.profile_image_url,
       twitter_url: `https://twitter.com/${account.username}`,
+      location: account.location ?? null,
+      verified: account.verified ?? false,
+      verified_type: account.verified_type ?? null,
+      account_created_at: account.account_created_at ?? null,
       // AI categorization
       category: account.ai_category || 'UNCATEGORIZED',
       confidence: account.ai_confidence || 0,
@@ -187,7 +490,7 @@ router.patch('/:id', async (req: Request, res: Response) => {
         ai_category: updates.category,
         ai_reasoning: updates.reasoning || `Manually set to ${updates.category}`,
         ai_confidence: 1.0, // Manual override = 100% confidence
-      });
+      }, { source: 'manual' });
     }
 
     // Fetch updated account
@@ -209,24 +512,69 @@ router.patch('/:id', async (req: Request, res: Response) => {
   }
 });
 
+const deleteQuerySchema = z.object({
+  // Remove the row and its tweets/history instead of archiving it
+  permanent: z.enum(['true', 'false']).transform((value) => value === 'true').default('false'),
+});
+
 /**
  * DELETE /api/accounts/:id
- * Delete account
+ * Archive account (soft delete), or delete it permanently with ?permanent=true.
+ * Either way discovery can find the account again; use the blocklist to keep it out.
  */
 router.delete('/:id', async (req: Request, res: Response) => {
   try {
-    const success = await AccountModel.delete(req.params.id);
+    const { permanent } = deleteQuerySchema.parse(req.query);
+
+    const success = permanent
+      ? await AccountModel.delete(req.params.id)
+      : await AccountModel.archive(req.params.id);
 
     if (!success) {
       res.status(404).json({ error: 'Account not found or delete failed' });
       return;
     }
 
-    res.json({ success: true, message: 'Account deleted' });
+    res.json({ success: true, message: permanent ? 'Account deleted' : 'Account archived' });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
     logger.error('Error deleting account:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+/**
+ * POST /api/accounts/:id/restore
+ * Restore an archived account
+ */
+router.post('/:id/restore', async (req: Request, res: Response) => {
+  try {
+    const account = await AccountModel.getById(req.params.id);
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    // Restoring would have the pipelines skip it anyway, so make the caller unblock first
+    if (await BlocklistModel.get(account.twitter_id)) {
+      res.status(409).json({ error: 'Account is blocklisted; remove it from the blocklist first' });
+      return;
+    }
+
+    const success = await AccountModel.restore(account.id!);
+    if (!success) {
+      res.status(500).json({ error: 'Failed to restore account' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Account restored' });
+  } catch (error) {
+    logger.error('Error restoring account:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
@@ -1,10 +1,29 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
 import { AccountModel } from '../../db/account.model.js';
+import { topDomains, topLinks } from '../../services/linkAnalytics.js';
 import { logger } from '../../utils/logger.js';
+import type { TweetLinkFilters } from '../../db/storage.js';
 import type { Category } from '../../types/index.js';
 
 const router = Router();
 
+const linkQuerySchema = z.object({
+  // Only tweets from the last N days (all stored tweets when omitted)
+  days: z.coerce.number().int().positive().max(3650).optional(),
+  limit: z.coerce.number().int().positive().max(200).default(50),
+  // x402: only tweets tagged with an x402 keyword
+  scope: z.enum(['x402', 'all']).default('x402'),
+  domain: z.string().trim().toLowerCase().min(1).max(253).optional(),
+});
+
+function linkFilters(query: z.infer<typeof linkQuerySchema>): TweetLinkFilters {
+  return {
+    x402Only: query.scope === 'x402',
+    since: query.days ? new Date(Date.now() - query.days * 24 * 60 * 60 * 1000).toISOString() : undefined,
+  };
+}
+
 /**
  * GET /api/analytics/summary
  * Get overall stats and category breakdown (uses AI categories)
@@ -81,6 +100,9 @@ router.get('/export', async (req: Request, res: Response) => {
       'confidence',
       'reasoning',
       'followers_count',
+      'verified',
+      'location',
+      'account_created_at',
       'has_github',
       'categorized_at',
       'bio',
@@ -110,6 +132,9 @@ router.get('/export', async (req: Request, res: Response) => {
         String(account.ai_confidence || 0),
         `"${(account.ai_reasoning || '').replace(/"/g, '""').replace(/\n/g, ' ')}"`,
         String(account.followers_count),
+        String(account.verified ?? false),
+        `"${(account.location || '').replace(/"/g, '""')}"`,
+        account.account_created_at || '',
         String(account.has_github),
         account.ai_categorized_at || '',
         `"${(account.bio || '').replace(/"/g, '""').replace(/\n/g, ' ')}"`,
@@ -240,6 +265,44 @@ router.get('/confidence-distribution', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/analytics/domains
+ * Most shared domains in tweets (x402 tweets by default), excluding Twitter/X links
+ */
+router.get('/domains', async (req: Request, res: Response) => {
+  try {
+    const query = linkQuerySchema.parse(req.query);
+    const data = await topDomains(linkFilters(query), query.limit);
+    res.json({ scope: query.scope, days: query.days ?? null, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error getting top domains:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/analytics/links
+ * Most shared links in tweets (x402 tweets by default), optionally within one domain
+ */
+router.get('/links', async (req: Request, res: Response) => {
+  try {
+    const query = linkQuerySchema.parse(req.query);
+    const data = await topLinks(linkFilters(query), query.limit, query.domain);
+    res.json({ scope: query.scope, days: query.days ?? null, domain: query.domain ?? null, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error getting top links:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Helper function for AI-based outreach recommendations
 function getAIOutreachRecommendation(
   category: string,
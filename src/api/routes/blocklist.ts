@@ -0,0 +1,124 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { AccountModel, BlocklistModel } from '../../db/account.model.js';
+import { blockAccount } from '../../services/blocklist.js';
+import { logger } from '../../utils/logger.js';
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+});
+
+/**
+ * GET /api/blocklist
+ * List blocklisted Twitter accounts (newest first)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const query = listQuerySchema.parse(req.query);
+    const result = await BlocklistModel.list(query.page, query.limit);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error listing blocklist:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Block by Twitter ID (works before the account is ever discovered) or by our account ID
+const blockSchema = z
+  .object({
+    twitter_id: z.string().trim().min(1).optional(),
+    account_id: z.string().trim().min(1).optional(),
+    reason: z.string().trim().max(500).optional(),
+    added_by: z.string().trim().min(1).max(100),
+  })
+  .refine((body) => body.twitter_id || body.account_id, {
+    message: 'Either twitter_id or account_id is required',
+  });
+
+/**
+ * POST /api/blocklist
+ * Block an account from discovery and categorization; an existing account is archived
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const body = blockSchema.parse(req.body);
+
+    const account = body.account_id
+      ? await AccountModel.getById(body.account_id)
+      : await AccountModel.getByTwitterId(body.twitter_id!);
+    if (body.account_id && !account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    const { entry, archived } = await blockAccount({
+      twitter_id: account?.twitter_id ?? body.twitter_id!,
+      username: account?.username ?? null,
+      reason: body.reason || null,
+      added_by: body.added_by,
+    });
+
+    if (!entry) {
+      res.status(500).json({ error: 'Failed to add blocklist entry' });
+      return;
+    }
+
+    res.status(201).json({ ...entry, account_id: account?.id ?? null, archived });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid request body', details: error.errors });
+      return;
+    }
+    logger.error('Error adding blocklist entry:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/blocklist/:twitterId
+ * Get blocklist entry by Twitter ID
+ */
+router.get('/:twitterId', async (req: Request, res: Response) => {
+  try {
+    const entry = await BlocklistModel.get(req.params.twitterId);
+
+    if (!entry) {
+      res.status(404).json({ error: 'Blocklist entry not found' });
+      return;
+    }
+
+    res.json(entry);
+  } catch (error) {
+    logger.error('Error getting blocklist entry:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/blocklist/:twitterId
+ * Unblock an account (an archived account stays archived until restored)
+ */
+router.delete('/:twitterId', async (req: Request, res: Response) => {
+  try {
+    const removed = await BlocklistModel.remove(req.params.twitterId);
+
+    if (!removed) {
+      res.status(404).json({ error: 'Blocklist entry not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Account unblocked' });
+  } catch (error) {
+    logger.error('Error removing blocklist entry:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
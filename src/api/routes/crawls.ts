@@ -0,0 +1,73 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { CrawlRunModel } from '../../db/account.model.js';
+import { logger } from '../../utils/logger.js';
+
+const router = Router();
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  type: z.enum(['crawl', 'secondary', 'search_worker']).optional(),
+});
+
+/**
+ * GET /api/crawls
+ * List crawl runs (newest first)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const query = listQuerySchema.parse(req.query);
+
+    const result = await CrawlRunModel.list(query.page, query.limit, query.type);
+
+    res.json({
+      // Stages and config are only returned by GET /api/crawls/:id
+      data: result.data.map((run) => ({
+        id: run.id,
+        type: run.type,
+        status: run.status,
+        started_at: run.started_at,
+        finished_at: run.finished_at,
+        duration_ms: run.finished_at
+          ? new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()
+          : null,
+        keywords: run.keywords,
+        api_calls: run.api_calls,
+        ai_batches: run.ai_batches,
+        error_count: run.errors.length,
+        job_id: run.job_id,
+      })),
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error listing crawl runs:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/crawls/:id
+ * Get crawl run with stage statistics, config snapshot and errors
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const run = await CrawlRunModel.getById(req.params.id);
+
+    if (!run) {
+      res.status(404).json({ error: 'Crawl run not found' });
+      return;
+    }
+
+    res.json(run);
+  } catch (error) {
+    logger.error('Error getting crawl run:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,139 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { AccountModel, GraphModel } from '../../db/account.model.js';
+import { computeInfluence, getNeighbors } from '../../services/interactionGraph.js';
+import { rankGraphCandidates } from '../../collectors/graphDiscovery.js';
+import { logger } from '../../utils/logger.js';
+
+const router = Router();
+
+const neighborsQuerySchema = z.object({
+  direction: z.enum(['outgoing', 'incoming', 'both']).default('both'),
+  limit: z.coerce.number().int().positive().max(200).default(50),
+});
+
+const influencersQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+});
+
+const candidatesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(200).default(50),
+  minSources: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * GET /api/graph/neighbors/:id
+ * Accounts this account mentioned, replied to or quoted (outgoing) and
+ * accounts that did so to it (incoming)
+ */
+router.get('/neighbors/:id', async (req: Request, res: Response) => {
+  try {
+    const query = neighborsQuerySchema.parse(req.query);
+    const account = await AccountModel.getById(req.params.id);
+
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    const [neighbors, [influence]] = await Promise.all([
+      getNeighbors(account, query.direction, query.limit),
+      GraphModel.getInfluence([account.username.toLowerCase()]),
+    ]);
+
+    res.json({
+      account: {
+        id: account.id,
+        username: account.username,
+        display_name: account.display_name,
+        influence_score: influence?.influence_score ?? null,
+      },
+      neighbors,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error getting graph neighbors:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/graph/top-influencers
+ * Users ranked by influence in the interaction graph, including users not yet
+ * stored as accounts (account is null for those)
+ */
+router.get('/top-influencers', async (req: Request, res: Response) => {
+  try {
+    const query = influencersQuerySchema.parse(req.query);
+
+    const result = await GraphModel.listInfluence(query.page, query.limit);
+    const accounts = await AccountModel.getByUsernames(result.data.map((score) => score.username));
+    const accountsByUsername = new Map(accounts.map((account) => [account.username.toLowerCase(), account]));
+
+    res.json({
+      data: result.data.map((score) => {
+        const account = accountsByUsername.get(score.username);
+        return {
+          ...score,
+          account: account
+            ? {
+                id: account.id,
+                username: account.username,
+                display_name: account.display_name,
+                followers_count: account.followers_count,
+                ai_category: account.ai_category || 'UNCATEGORIZED',
+              }
+            : null,
+        };
+      }),
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error listing top influencers:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/graph/candidates
+ * Undiscovered users that KOL and DEVELOPER accounts mention or reply to,
+ * in the order graph discovery would fetch them
+ */
+router.get('/candidates', async (req: Request, res: Response) => {
+  try {
+    const query = candidatesQuerySchema.parse(req.query);
+    const result = await rankGraphCandidates({ minSources: query.minSources, limit: query.limit });
+    res.json({ trusted_accounts: result.trustedAccounts, data: result.candidates });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error ranking graph candidates:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/graph/recompute
+ * Recompute influence scores from the stored interactions
+ */
+router.post('/recompute', async (_req: Request, res: Response) => {
+  try {
+    const result = await computeInfluence();
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('Error recomputing influence:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,49 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { config } from '../../config/index.js';
+import { getPrefilterHits, getPrefilterRules, PREFILTER_VERSION } from '../../services/prefilter.js';
+import { logger } from '../../utils/logger.js';
+
+const router = Router();
+
+const rulesQuerySchema = z.object({
+  // Crawl runs the hit counts are summed over, newest first
+  runs: z.coerce.number().int().positive().max(500).default(100),
+});
+
+/**
+ * GET /api/prefilter/rules
+ * Pre-filter rules with their thresholds and how many accounts each rejected
+ * (summed over the latest crawl runs, and in the latest one)
+ */
+router.get('/rules', async (req: Request, res: Response) => {
+  try {
+    const query = rulesQuerySchema.parse(req.query);
+    const hits = await getPrefilterHits(query.runs);
+
+    res.json({
+      enabled: config.prefilter.enabled,
+      version: PREFILTER_VERSION,
+      runs: hits.runs,
+      checked: hits.total.checked || 0,
+      rejected: hits.total.rejected || 0,
+      rules: getPrefilterRules().map((rule) => ({
+        ...rule,
+        hits: hits.total[rule.name] || 0,
+        last_run_hits: hits.lastRun?.counts[rule.name] || 0,
+      })),
+      last_run: hits.lastRun
+        ? { id: hits.lastRun.id, started_at: hits.lastRun.started_at, ...hits.lastRun.counts }
+        : null,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error getting pre-filter rules:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
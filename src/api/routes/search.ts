@@ -11,6 +11,8 @@ const router = Router();
 const searchRequestSchema = z.object({
   keywords: z.array(z.string()).optional(),
   maxPages: z.number().int().positive().max(20).optional(),
+  // Ignore stored keyword cursors and search everything again
+  fullRefresh: z.boolean().optional(),
 });
 
 /**
@@ -27,7 +29,7 @@ router.post('/run', async (req: Request, res: Response) => {
     ];
     const maxPages = body.maxPages || config.search.maxPages;
 
-    const jobId = await triggerSearch(keywords, maxPages);
+    const jobId = await triggerSearch(keywords, maxPages, body.fullRefresh);
 
     res.json({
       success: true,
@@ -35,6 +37,7 @@ router.post('/run', async (req: Request, res: Response) => {
       message: 'Search job queued',
       keywords,
       maxPages,
+      fullRefresh: body.fullRefresh || false,
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -144,15 +147,54 @@ router.get('/queries', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/search/cursors
+ * Get each keyword's incremental search state (newest tweet seen, pending cursor)
+ */
+router.get('/cursors', async (_req: Request, res: Response) => {
+  try {
+    const cursors = await SearchQueryModel.listCursors();
+    res.json({ incremental: config.search.incremental, cursors });
+  } catch (error) {
+    logger.error('Error getting search cursors:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const resetCursorsSchema = z.object({
+  queries: z.array(z.string().min(1)).optional(),
+});
+
+/**
+ * DELETE /api/search/cursors
+ * Reset keyword cursors (all, or the given queries) so the next run searches from scratch
+ */
+router.delete('/cursors', async (req: Request, res: Response) => {
+  try {
+    const body = resetCursorsSchema.parse(req.body || {});
+    const reset = await SearchQueryModel.resetCursors(body.queries);
+    res.json({ success: true, reset });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid request body', details: error.errors });
+      return;
+    }
+    logger.error('Error resetting search cursors:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/search/keywords
- * Get configured search keywords
+ * Get configured search keywords and the keyword definitions used for tagging
  */
 router.get('/keywords', async (_req: Request, res: Response) => {
   res.json({
     primary: config.searchKeywords.primary,
     secondary: config.searchKeywords.secondary,
     all: [...config.searchKeywords.primary, ...config.searchKeywords.secondary],
+    // Full definitions, including tag-only keywords, match rules and weights
+    definitions: config.keywords,
   });
 });
 
@@ -0,0 +1,74 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { config } from '../../config/index.js';
+import { getKolThresholds, resetKolThresholds, updateKolThresholds } from '../../services/kolPolicy.js';
+import { logger } from '../../utils/logger.js';
+
+const router = Router();
+
+// Any subset of the thresholds; 0 turns a minimum off
+const kolThresholdsSchema = z
+  .object({
+    minFollowers: z.number().int().min(0),
+    minEngagementScore: z.number().min(0).max(100),
+    minX402Relevance: z.number().min(0).max(100),
+    minX402Tweets30d: z.number().int().min(0),
+    action: z.enum(['downgrade', 'review']),
+  })
+  .partial()
+  .strict()
+  .refine((body) => Object.keys(body).length > 0, { message: 'No thresholds given' });
+
+/**
+ * GET /api/settings/kol-thresholds
+ * KOL thresholds in effect and the environment defaults they override
+ */
+router.get('/kol-thresholds', async (_req: Request, res: Response) => {
+  try {
+    res.json({ thresholds: await getKolThresholds(), defaults: config.thresholds.kol });
+  } catch (error) {
+    logger.error('Error getting KOL thresholds:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/settings/kol-thresholds
+ * Change KOL thresholds; applies to verdicts from the next categorization on
+ */
+router.put('/kol-thresholds', async (req: Request, res: Response) => {
+  try {
+    const changes = kolThresholdsSchema.parse(req.body);
+
+    const thresholds = await updateKolThresholds(changes);
+    if (!thresholds) {
+      res.status(500).json({ error: 'Failed to save KOL thresholds' });
+      return;
+    }
+
+    logger.info(`KOL thresholds changed: ${JSON.stringify(changes)}`);
+    res.json({ thresholds, defaults: config.thresholds.kol });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid request body', details: error.errors });
+      return;
+    }
+    logger.error('Error updating KOL thresholds:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/settings/kol-thresholds
+ * Drop saved changes so the environment defaults apply again
+ */
+router.delete('/kol-thresholds', async (_req: Request, res: Response) => {
+  try {
+    res.json({ thresholds: await resetKolThresholds(), defaults: config.thresholds.kol });
+  } catch (error) {
+    logger.error('Error resetting KOL thresholds:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
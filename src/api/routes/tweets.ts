@@ -0,0 +1,52 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { TweetModel } from '../../db/account.model.js';
+import { logger } from '../../utils/logger.js';
+
+const router = Router();
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+/**
+ * GET /api/tweets/search
+ * Full-text search over collected tweets, with highlighted snippets
+ */
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    const query = searchQuerySchema.parse(req.query);
+
+    const result = await TweetModel.search(query.q, query.page, query.limit);
+
+    res.json({
+      data: result.data.map(({ tweet, rank, snippet, username, display_name }) => ({
+        id: tweet.id,
+        twitter_id: tweet.twitter_id,
+        account_id: tweet.account_id,
+        username,
+        display_name,
+        content: tweet.content,
+        snippet,
+        rank,
+        likes: tweet.likes,
+        retweets: tweet.retweets,
+        replies: tweet.replies,
+        created_at: tweet.created_at,
+        tweet_url: username ? `https://twitter.com/${username}/status/${tweet.twitter_id}` : null,
+      })),
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      return;
+    }
+    logger.error('Error searching tweets:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
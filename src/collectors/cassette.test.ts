@@ -0,0 +1,60 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { attachCassette, type Cassette } from './cassette.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function writeCassette(cassette: Cassette): string {
+  const filePath = path.join(dir, 'cassette.json');
+  fs.writeFileSync(filePath, JSON.stringify(cassette));
+  return filePath;
+}
+
+describe('cassette replay', () => {
+  it('returns the recorded status, headers and data', async () => {
+    const filePath = writeCassette({
+      version: 1,
+      interactions: [{
+        request: { method: 'GET', url: '/search.php', params: { query: 'x402' } },
+        response: { status: 200, headers: { 'x-ratelimit-requests-remaining': '42' }, data: { timeline: [] } },
+        recorded_at: '2026-01-01T00:00:00.000Z',
+      }],
+    });
+    const client = axios.create();
+    attachCassette(client, { mode: 'replay', filePath });
+
+    const response = await client.get('/search.php', { params: { query: 'x402' } });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-ratelimit-requests-remaining']).toBe('42');
+    expect(response.data).toEqual({ timeline: [] });
+  });
+
+  it('replays cassettes recorded without headers', async () => {
+    const filePath = writeCassette({
+      version: 1,
+      interactions: [{
+        request: { method: 'GET', url: '/screenname.php', params: { screenname: 'alice' } },
+        response: { status: 200, data: { rest_id: '1' } },
+        recorded_at: '2026-01-01T00:00:00.000Z',
+      }],
+    });
+    const client = axios.create();
+    attachCassette(client, { mode: 'replay', filePath });
+
+    const response = await client.get('/screenname.php', { params: { screenname: 'alice' } });
+
+    expect(response.data).toEqual({ rest_id: '1' });
+  });
+});
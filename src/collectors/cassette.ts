@@ -0,0 +1,157 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { logger } from '../utils/logger.js';
+import { createJsonFileWriter } from '../utils/jsonFileWriter.js';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+// One recorded request/response pair (the API key header is never stored)
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    params: Record<string, string>;
+  };
+  response: {
+    status: number;
+    // Quota and Retry-After headers drive the rate limiter; absent in older cassettes
+    headers?: Record<string, string>;
+    data: unknown;
+  };
+  recorded_at: string;
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Normalize a request's method, path and params (stringified, sorted) for matching
+ */
+function describeRequest(requestConfig: InternalAxiosRequestConfig): CassetteInteraction['request'] {
+  const params: Record<string, string> = {};
+  const raw = (requestConfig.params || {}) as Record<string, unknown>;
+  for (const key of Object.keys(raw).sort()) {
+    if (raw[key] !== undefined && raw[key] !== null) {
+      params[key] = String(raw[key]);
+    }
+  }
+  return {
+    method: (requestConfig.method || 'get').toUpperCase(),
+    url: requestConfig.url || '',
+    params,
+  };
+}
+
+function requestKey(request: CassetteInteraction['request']): string {
+  return `${request.method} ${request.url} ${JSON.stringify(request.params)}`;
+}
+
+/**
+ * Save every response the client receives (including HTTP errors) to the cassette file.
+ * Recording starts a new cassette, overwriting any existing file.
+ */
+function recordTo(client: AxiosInstance, filePath: string): void {
+  const cassette: Cassette = { version: 1, interactions: [] };
+  const writer = createJsonFileWriter(filePath, () => cassette, { indent: 2 });
+
+  const record = (response: AxiosResponse): void => {
+    cassette.interactions.push({
+      request: describeRequest(response.config),
+      response: {
+        status: response.status,
+        headers: Object.fromEntries(Object.entries(response.headers).map(([name, value]) => [name, String(value)])),
+        data: response.data,
+      },
+      recorded_at: new Date().toISOString(),
+    });
+    writer.persist();
+  };
+
+  client.interceptors.response.use(
+    (response) => {
+      record(response);
+      return response;
+    },
+    (error) => {
+      // Network failures have no response and are not recorded
+      if (error instanceof AxiosError && error.response) {
+        record(error.response);
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  logger.info(`Recording RapidAPI responses to ${filePath}`);
+}
+
+/**
+ * Serve responses from the cassette file instead of the network. Repeated
+ * requests get the recorded responses in order, then the last one again.
+ */
+function replayFrom(client: AxiosInstance, filePath: string): void {
+  let cassette: Cassette;
+  try {
+    cassette = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Cassette;
+  } catch (error) {
+    throw new Error(`Failed to load cassette ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const byKey = new Map<string, CassetteInteraction[]>();
+  for (const interaction of cassette.interactions) {
+    const key = requestKey(interaction.request);
+    byKey.set(key, [...(byKey.get(key) || []), interaction]);
+  }
+  const served = new Map<string, number>();
+
+  client.defaults.adapter = async (requestConfig) => {
+    const key = requestKey(describeRequest(requestConfig));
+    const interactions = byKey.get(key);
+    if (!interactions) {
+      throw new AxiosError(`No cassette entry for ${key}`, AxiosError.ERR_BAD_REQUEST, requestConfig);
+    }
+
+    const index = Math.min(served.get(key) || 0, interactions.length - 1);
+    served.set(key, index + 1);
+    const { status, headers, data } = interactions[index].response;
+
+    const response: AxiosResponse = {
+      data,
+      status,
+      statusText: String(status),
+      headers: new AxiosHeaders(headers || {}),
+      config: requestConfig,
+    };
+
+    const validateStatus = requestConfig.validateStatus;
+    if (validateStatus && !validateStatus(status)) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        requestConfig,
+        null,
+        response
+      );
+    }
+    return response;
+  };
+
+  logger.info(`Replaying RapidAPI responses from ${filePath} (${cassette.interactions.length} recorded)`);
+}
+
+/**
+ * Attach record or replay behaviour to an axios client (no-op when the mode is 'off')
+ */
+export function attachCassette(
+  client: AxiosInstance,
+  options: { mode: CassetteMode; filePath: string }
+): void {
+  if (options.mode === 'record') {
+    recordTo(client, path.resolve(options.filePath));
+  } else if (options.mode === 'replay') {
+    replayFrom(client, path.resolve(options.filePath));
+  }
+}
@@ -1,6 +1,6 @@
 import { TweetModel } from '../db/account.model.js';
 import { logger } from '../utils/logger.js';
-import type { Tweet } from '../types/index.js';
+import type { RepoLink, Tweet } from '../types/index.js';
 
 export interface EngagementData {
   totalLikes: number;
@@ -13,9 +13,10 @@ export interface EngagementData {
 
 /**
  * Collect engagement data from stored tweets for an account
+ * @param recentTweets The account's tweets from the last 30 days, if already loaded
  */
-export async function collectEngagementData(accountId: string): Promise<EngagementData> {
-  const tweets = await TweetModel.getRecentByAccountId(accountId);
+export async function collectEngagementData(accountId: string, recentTweets?: Tweet[]): Promise<EngagementData> {
+  const tweets = recentTweets ?? await TweetModel.getRecentByAccountId(accountId);
 
   if (tweets.length === 0) {
     return {
@@ -53,13 +54,14 @@ export async function collectEngagementData(accountId: string): Promise<Engageme
 
 /**
  * Collect x402-related engagement data
+ * @param recentTweets The account's tweets from the last 30 days, if already loaded
  */
-export async function collectX402EngagementData(accountId: string): Promise<{
+export async function collectX402EngagementData(accountId: string, recentTweets?: Tweet[]): Promise<{
   x402Tweets: Tweet[];
   x402TweetCount: number;
   x402Engagement: number;
 }> {
-  const tweets = await TweetModel.getRecentByAccountId(accountId);
+  const tweets = recentTweets ?? await TweetModel.getRecentByAccountId(accountId);
 
   // Filter tweets with x402 keywords
   const x402Tweets = tweets.filter((t) => t.x402_keywords_found && t.x402_keywords_found.length > 0);
@@ -82,17 +84,24 @@ export async function collectX402EngagementData(accountId: string): Promise<{
 }
 
 /**
- * Collect code/technical content data
+ * Collect code/technical content data from the stored code analysis
+ * @param recentTweets The account's tweets from the last 30 days, if already loaded
  */
-export async function collectTechnicalData(accountId: string): Promise<{
+export async function collectTechnicalData(accountId: string, recentTweets?: Tweet[]): Promise<{
   tweetsWithCode: number;
   tweetsWithGithub: number;
+  codeLanguages: string[];
+  repoLinks: RepoLink[];
   technicalTermsFound: string[];
 }> {
-  const tweets = await TweetModel.getRecentByAccountId(accountId);
+  const tweets = recentTweets ?? await TweetModel.getRecentByAccountId(accountId);
 
   const tweetsWithCode = tweets.filter((t) => t.has_code).length;
   const tweetsWithGithub = tweets.filter((t) => t.has_github).length;
+  const codeLanguages = new Set(tweets.flatMap((t) => t.code_languages || []));
+  const repoLinks = new Map(
+    tweets.flatMap((t) => t.repo_links || []).map((link) => [`${link.type}:${link.name.toLowerCase()}`, link])
+  );
 
   // Find technical terms in tweets
   const technicalTerms = ['API', 'SDK', 'protocol', 'implementation', 'open-source', 'infra'];
@@ -108,12 +117,14 @@ export async function collectTechnicalData(accountId: string): Promise<{
   }
 
   logger.debug(
-    `Technical data for ${accountId}: ${tweetsWithCode} code tweets, ${tweetsWithGithub} github tweets`
+    `Technical data for ${accountId}: ${tweetsWithCode} code tweets, ${tweetsWithGithub} github tweets, ${repoLinks.size} repo links`
   );
 
   return {
     tweetsWithCode,
     tweetsWithGithub,
+    codeLanguages: Array.from(codeLanguages),
+    repoLinks: Array.from(repoLinks.values()),
     technicalTermsFound: Array.from(foundTerms),
   };
 }
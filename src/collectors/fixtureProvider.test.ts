@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { fixtureKey } from './fixtureProvider.js';
+
+describe('fixtureKey', () => {
+  it('collapses other characters to "_"', () => {
+    expect(fixtureKey('from:Alice x402')).toBe('from_alice_x402');
+  });
+
+  it('gives hashtags and cashtags their own keys', () => {
+    expect(fixtureKey('x402')).toBe('x402');
+    expect(fixtureKey('#x402')).toBe('hash_x402');
+    expect(fixtureKey('$x402')).toBe('cash_x402');
+    expect(fixtureKey('x402 #Base')).toBe('x402_hash_base');
+  });
+});
@@ -0,0 +1,100 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { logger } from '../utils/logger.js';
+import { parseProfile, parseTweetPage } from './rapidApiProvider.js';
+import type {
+  RapidApiSearchResponse,
+  RapidApiTimelineResponse,
+  RapidApiProfileResponse,
+} from './rapidApiProvider.js';
+import type { TwitterDataProvider, TweetPage } from './twitterProvider.js';
+
+type PagedResponse = RapidApiSearchResponse | RapidApiTimelineResponse;
+
+/**
+ * File name for a query or username: lowercased, "#" and "$" spelled out so
+ * hashtags and cashtags get their own files, other characters collapsed to "_"
+ * ("from:alice #x402" -> "from_alice_hash_x402")
+ */
+export function fixtureKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/#/g, ' hash_')
+    .replace(/\$/g, ' cash_')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Read a JSON fixture, or null if the file does not exist
+ */
+async function readFixture<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.debug(`No fixture at ${filePath}`);
+      return null;
+    }
+    throw new Error(`Invalid fixture ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Pick a page from a fixture holding either one recorded response or an array
+ * of pages. Array pages are addressed by index, so cursors are "1", "2", ...
+ */
+function selectPage(fixture: PagedResponse | PagedResponse[] | null, cursor?: string): TweetPage {
+  if (!fixture) {
+    return { tweets: [] };
+  }
+  if (!Array.isArray(fixture)) {
+    return cursor ? { tweets: [] } : { tweets: parseTweetPage(fixture).tweets };
+  }
+
+  const index = cursor ? parseInt(cursor, 10) : 0;
+  const page = fixture[index];
+  if (!page) {
+    return { tweets: [] };
+  }
+  return {
+    tweets: parseTweetPage(page).tweets,
+    nextCursor: index + 1 < fixture.length ? String(index + 1) : undefined,
+  };
+}
+
+/**
+ * Twitter data replayed from recorded twitter-api45 responses on disk:
+ *   {dir}/search/{fixtureKey(query)}.json
+ *   {dir}/timeline/{fixtureKey(username)}.json
+ *   {dir}/users/{fixtureKey(username)}.json
+ * Missing fixtures behave like an empty result (or an unknown user).
+ */
+export function createFixtureProvider(options: { dir: string }): TwitterDataProvider {
+  const dir = path.resolve(options.dir);
+
+  return {
+    name: 'fixture',
+
+    async search(query, searchOptions = {}) {
+      const fixture = await readFixture<PagedResponse | PagedResponse[]>(
+        path.join(dir, 'search', `${fixtureKey(query)}.json`)
+      );
+      return selectPage(fixture, searchOptions.cursor);
+    },
+
+    async getTimeline(username, timelineOptions = {}) {
+      const fixture = await readFixture<PagedResponse | PagedResponse[]>(
+        path.join(dir, 'timeline', `${fixtureKey(username)}.json`)
+      );
+      return selectPage(fixture, timelineOptions.cursor);
+    },
+
+    async getUser(username) {
+      const fixture = await readFixture<RapidApiProfileResponse>(
+        path.join(dir, 'users', `${fixtureKey(username)}.json`)
+      );
+      return fixture ? parseProfile(fixture) : null;
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import axios, { AxiosInstance } from 'axios';
+import { logger } from '../utils/logger.js';
+import { GithubRateLimitError } from './githubProvider.js';
+import type { GithubDataProvider, GithubEvent, GithubRepo, GithubUser } from './githubProvider.js';
+
+/**
+ * Map axios failures to null for 404s, GithubRateLimitError for exhausted quota,
+ * and an Error with GitHub's message otherwise
+ */
+function toGithubError(error: unknown, action: string): unknown {
+  if (!axios.isAxiosError(error)) {
+    return error;
+  }
+  const status = error.response?.status;
+  const headers = error.response?.headers || {};
+  if (status === 429 || (status === 403 && headers['x-ratelimit-remaining'] === '0')) {
+    const reset = parseInt(String(headers['x-ratelimit-reset'] || ''), 10);
+    return new GithubRateLimitError(Number.isNaN(reset) ? null : new Date(reset * 1000).toISOString());
+  }
+  logger.error(`GitHub ${action} error: ${status} - ${error.message}`);
+  return new Error(`GitHub ${action} failed: ${error.response?.data?.message || error.message}`);
+}
+
+function isNotFound(error: unknown): boolean {
+  return axios.isAxiosError(error) && error.response?.status === 404;
+}
+
+/**
+ * GitHub data from the public REST API (api.github.com)
+ */
+export function createGithubApiProvider(options: { token?: string } = {}): GithubDataProvider {
+  const client: AxiosInstance = axios.create({
+    baseURL: 'https://api.github.com',
+    headers: {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+    },
+  });
+
+  return {
+    name: 'github-api',
+
+    async getUser(username) {
+      try {
+        const response = await client.get<GithubUser>(`/users/${encodeURIComponent(username)}`);
+        return response.data;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw toGithubError(error, 'user lookup');
+      }
+    },
+
+    async listRepos(username) {
+      try {
+        const response = await client.get<GithubRepo[]>(`/users/${encodeURIComponent(username)}/repos`, {
+          params: { type: 'owner', sort: 'pushed', per_page: 100 },
+        });
+        return response.data;
+      } catch (error) {
+        if (isNotFound(error)) return [];
+        throw toGithubError(error, 'repository list');
+      }
+    },
+
+    async listEvents(username) {
+      try {
+        const response = await client.get<GithubEvent[]>(`/users/${encodeURIComponent(username)}/events/public`, {
+          params: { per_page: 100 },
+        });
+        return response.data;
+      } catch (error) {
+        if (isNotFound(error)) return [];
+        throw toGithubError(error, 'event list');
+      }
+    },
+
+    async getFile(fullName, filePath) {
+      try {
+        const response = await client.get<string>(`/repos/${fullName}/contents/${filePath}`, {
+          headers: { Accept: 'application/vnd.github.raw+json' },
+          responseType: 'text',
+        });
+        return response.data;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw toGithubError(error, 'file fetch');
+      }
+    },
+  };
+}
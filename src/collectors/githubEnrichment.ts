@@ -0,0 +1,278 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { GithubProfileModel } from '../db/account.model.js';
+import { getGithubProvider, GithubRateLimitError, type GithubRepo } from './githubProvider.js';
+import { analyzeTweetContent } from './tweetContentAnalyzer.js';
+import type { RapidApiTweet } from './rapidApiClient.js';
+import type {
+  Account,
+  GithubProfile,
+  GithubRepoSummary,
+  GithubUsernameSource,
+  RepoLink,
+} from '../types/index.js';
+
+const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
+// Repositories kept on a stored profile
+const MAX_STORED_REPOS = 10;
+
+// "github: alice", "gh/alice", "GitHub @alice" (a bare "GitHub" is not enough)
+const BIO_HANDLE = /\b(?:github|gh)(?:\s*[:/]\s*@?|\s+@)([a-z0-9](?:[a-z0-9]|-(?=[a-z0-9])){0,38})\b/i;
+
+// Package names like "x402", "x402-express", "@coinbase/x402", "@x402/fetch"
+const X402_PACKAGE = /(^|[@/-])x402([-/_]|$)/i;
+
+export interface GithubEnrichmentResult {
+  accounts: number;
+  // Accounts a GitHub username was found for
+  resolved: number;
+  fetched: number;
+  // Fresh stored profiles used as they are
+  reused: number;
+  notFound: number;
+  failed: number;
+  // Accounts with at least one x402 repository
+  withX402Repos: number;
+}
+
+export interface ResolvedGithubUsername {
+  username: string;
+  source: GithubUsernameSource;
+}
+
+/**
+ * GitHub user from profile links ("github.com/alice") first, then repository owners
+ */
+function usernameFromLinks(links: RepoLink[]): string | null {
+  const github = links.filter((link) => link.type === 'github');
+  const profile = github.find((link) => !link.name.includes('/'));
+  return profile?.name || github[0]?.name.split('/')[0] || null;
+}
+
+/**
+ * Find an account's GitHub username: a github.com link or "github: name" in the
+ * bio, a github.com website, or else a repository owner the account links in
+ * its tweets (the owner named like the Twitter handle, or one linked twice)
+ */
+export function resolveGithubUsername(
+  account: Pick<Account, 'username' | 'bio' | 'website_url'>,
+  tweetRepoLinks: RepoLink[] = []
+): ResolvedGithubUsername | null {
+  const bio = account.bio || '';
+  const fromBio = usernameFromLinks(analyzeTweetContent(bio).repo_links) || bio.match(BIO_HANDLE)?.[1];
+  if (fromBio) {
+    return { username: fromBio, source: 'bio' };
+  }
+
+  const fromWebsite = account.website_url && usernameFromLinks(analyzeTweetContent(account.website_url).repo_links);
+  if (fromWebsite) {
+    return { username: fromWebsite, source: 'website' };
+  }
+
+  const owners = new Map<string, { name: string; repos: Set<string> }>();
+  for (const link of tweetRepoLinks.filter((l) => l.type === 'github')) {
+    const name = link.name.split('/')[0];
+    const owner = owners.get(name.toLowerCase()) || { name, repos: new Set<string>() };
+    owner.repos.add(link.name.toLowerCase());
+    owners.set(name.toLowerCase(), owner);
+  }
+  const sameHandle = owners.get(account.username.toLowerCase());
+  const mostLinked = [...owners.values()].sort((a, b) => b.repos.size - a.repos.size)[0];
+  const fromTweets = sameHandle || (mostLinked && mostLinked.repos.size >= 2 ? mostLinked : null);
+  return fromTweets ? { username: fromTweets.name, source: 'tweet' } : null;
+}
+
+/**
+ * x402 package names a package.json or requirements.txt depends on
+ */
+function x402Dependencies(fileName: string, contents: string): string[] {
+  if (fileName === 'package.json') {
+    try {
+      const manifest = JSON.parse(contents);
+      return ['dependencies', 'devDependencies', 'peerDependencies']
+        .flatMap((field) => Object.keys(manifest?.[field] || {}))
+        .filter((name) => X402_PACKAGE.test(name));
+    } catch {
+      return [];
+    }
+  }
+  return contents
+    .split('\n')
+    .map((line) => line.trim().split(/[=<>~![;\s]/)[0])
+    .filter((name) => name && X402_PACKAGE.test(name));
+}
+
+/**
+ * Reasons a repository's name, description or topics mention x402
+ */
+function x402Mentions(repo: GithubRepo): string[] {
+  const evidence: string[] = [];
+  if (/x402/i.test(repo.name)) evidence.push('name');
+  if (/x402/i.test(repo.description || '')) evidence.push('description');
+  for (const topic of repo.topics || []) {
+    if (/x402/i.test(topic)) evidence.push(`topic: ${topic}`);
+  }
+  return evidence;
+}
+
+/**
+ * Fetch a GitHub user's profile, repositories and recent activity, checking the
+ * manifests of the most recently pushed repositories for x402 dependencies.
+ * Returns null if the user does not exist.
+ */
+export async function fetchGithubProfile(
+  accountId: string,
+  resolved: ResolvedGithubUsername
+): Promise<GithubProfile | null> {
+  const github = getGithubProvider();
+  const user = await github.getUser(resolved.username);
+  if (!user) {
+    return null;
+  }
+
+  const [repos, events] = await Promise.all([github.listRepos(user.login), github.listEvents(user.login)]);
+  const owned = repos.filter((repo) => !repo.fork);
+
+  const summaries = new Map<string, GithubRepoSummary>();
+  for (const repo of repos) {
+    const evidence = x402Mentions(repo);
+    summaries.set(repo.full_name, {
+      name: repo.full_name,
+      description: repo.description,
+      language: repo.language,
+      stars: repo.stargazers_count,
+      fork: repo.fork,
+      pushed_at: repo.pushed_at,
+      x402: evidence.length > 0,
+      x402_evidence: evidence,
+    });
+  }
+
+  // Manifests cost a request each, so only the most recently pushed repositories are checked
+  const recent = [...owned]
+    .sort((a, b) => (b.pushed_at || '').localeCompare(a.pushed_at || ''))
+    .slice(0, config.github.maxManifestChecks);
+  for (const repo of recent) {
+    const fileName = repo.language === 'Python' ? 'requirements.txt' : 'package.json';
+    const contents = await github.getFile(repo.full_name, fileName);
+    const dependencies = contents ? x402Dependencies(fileName, contents) : [];
+    if (dependencies.length > 0) {
+      const summary = summaries.get(repo.full_name)!;
+      summary.x402 = true;
+      summary.x402_evidence.push(...dependencies.map((name) => `${fileName}: ${name}`));
+    }
+  }
+
+  const languages: Record<string, number> = {};
+  for (const repo of owned) {
+    if (repo.language) {
+      languages[repo.language] = (languages[repo.language] || 0) + 1;
+    }
+  }
+
+  const pushes = events.filter((event) => event.type === 'PushEvent');
+  const since = Date.now() - THIRTY_DAYS_MS;
+  const lastPush = pushes[0]?.created_at ||
+    owned.map((repo) => repo.pushed_at).filter((at): at is string => Boolean(at)).sort().pop() ||
+    null;
+
+  const all = [...summaries.values()];
+  const kept = [
+    ...all.filter((repo) => repo.x402),
+    ...all.filter((repo) => !repo.x402 && !repo.fork).sort((a, b) => (b.pushed_at || '').localeCompare(a.pushed_at || '')),
+  ].slice(0, MAX_STORED_REPOS);
+
+  return {
+    account_id: accountId,
+    github_username: user.login,
+    source: resolved.source,
+    name: user.name,
+    bio: user.bio,
+    public_repos: user.public_repos,
+    followers: user.followers,
+    github_created_at: user.created_at || null,
+    languages,
+    recent_pushes: pushes.filter((event) => new Date(event.created_at).getTime() >= since).length,
+    last_push_at: lastPush,
+    repos: kept,
+    x402_repo_count: all.filter((repo) => repo.x402).length,
+    fetched_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Resolve, fetch and store GitHub profiles for developer candidates. Stored
+ * profiles younger than GITHUB_REFRESH_DAYS are reused; fetching stops when
+ * the GitHub rate limit runs out. Returns the profiles by account id.
+ */
+export async function enrichGithubProfiles(
+  inputs: Array<{ account: Account; tweets: RapidApiTweet[] }>
+): Promise<{ profiles: Map<string, GithubProfile>; result: GithubEnrichmentResult }> {
+  const profiles = new Map<string, GithubProfile>();
+  const result: GithubEnrichmentResult = {
+    accounts: inputs.length,
+    resolved: 0,
+    fetched: 0,
+    reused: 0,
+    notFound: 0,
+    failed: 0,
+    withX402Repos: 0,
+  };
+
+  const stored = new Map(
+    (await GithubProfileModel.getByAccountIds(inputs.map((i) => i.account.id!).filter(Boolean))).map((p) => [
+      p.account_id,
+      p,
+    ])
+  );
+  const refreshBefore = Date.now() - config.github.refreshDays * 24 * 60 * 60 * 1000;
+  let rateLimited = false;
+
+  for (const { account, tweets } of inputs) {
+    if (!account.id) continue;
+    const links = tweets.flatMap((t) => analyzeTweetContent(t.text || '', t.entities, t.media).repo_links);
+    const resolved = resolveGithubUsername(account, links);
+    if (!resolved) continue;
+    result.resolved++;
+
+    const existing = stored.get(account.id);
+    const sameUser = existing?.github_username.toLowerCase() === resolved.username.toLowerCase();
+    if (existing && sameUser && (rateLimited || new Date(existing.fetched_at).getTime() >= refreshBefore)) {
+      profiles.set(account.id, existing);
+      result.reused++;
+      continue;
+    }
+    if (rateLimited) continue;
+
+    try {
+      const profile = await fetchGithubProfile(account.id, resolved);
+      if (!profile) {
+        logger.debug(`GitHub user ${resolved.username} for @${account.username} not found`);
+        result.notFound++;
+        continue;
+      }
+      profiles.set(account.id, (await GithubProfileModel.upsert(profile)) || profile);
+      result.fetched++;
+    } catch (error) {
+      // Out of quota: use stored profiles for the remaining accounts
+      if (error instanceof GithubRateLimitError) {
+        logger.warn(`GitHub enrichment stopped fetching: ${error.message}`);
+        rateLimited = true;
+        if (existing && sameUser) {
+          profiles.set(account.id, existing);
+          result.reused++;
+        }
+        continue;
+      }
+      logger.error(`Failed to fetch GitHub profile ${resolved.username} for @${account.username}:`, error);
+      result.failed++;
+    }
+  }
+
+  result.withX402Repos = [...profiles.values()].filter((p) => p.x402_repo_count > 0).length;
+  logger.info(
+    `GitHub enrichment: ${result.resolved}/${result.accounts} accounts linked, ` +
+    `${result.fetched} fetched, ${result.reused} reused, ${result.withX402Repos} with x402 repos`
+  );
+  return { profiles, result };
+}
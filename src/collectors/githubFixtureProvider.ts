@@ -0,0 +1,65 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { logger } from '../utils/logger.js';
+import { fixtureKey } from './fixtureProvider.js';
+import type { GithubDataProvider, GithubEvent, GithubRepo, GithubUser } from './githubProvider.js';
+
+/**
+ * Read a fixture file, or null if it does not exist
+ */
+async function readFixtureFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.debug(`No fixture at ${filePath}`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readJsonFixture<T>(filePath: string): Promise<T | null> {
+  const raw = await readFixtureFile(filePath);
+  if (raw === null) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    throw new Error(`Invalid fixture ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * GitHub data read from recorded REST API responses on disk:
+ *   {dir}/users/{fixtureKey(login)}.json
+ *   {dir}/repos/{fixtureKey(login)}.json
+ *   {dir}/events/{fixtureKey(login)}.json
+ *   {dir}/files/{owner}/{repo}/{path}   (raw file contents)
+ * Missing fixtures behave like an unknown user or an empty list.
+ */
+export function createGithubFixtureProvider(options: { dir: string }): GithubDataProvider {
+  const dir = path.resolve(options.dir);
+
+  return {
+    name: 'github-fixture',
+
+    async getUser(username) {
+      return readJsonFixture<GithubUser>(path.join(dir, 'users', `${fixtureKey(username)}.json`));
+    },
+
+    async listRepos(username) {
+      return (await readJsonFixture<GithubRepo[]>(path.join(dir, 'repos', `${fixtureKey(username)}.json`))) || [];
+    },
+
+    async listEvents(username) {
+      return (await readJsonFixture<GithubEvent[]>(path.join(dir, 'events', `${fixtureKey(username)}.json`))) || [];
+    },
+
+    async getFile(fullName, filePath) {
+      const [owner, repo] = fullName.toLowerCase().split('/');
+      return readFixtureFile(path.join(dir, 'files', owner, repo, filePath));
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { createGithubApiProvider } from './githubApiProvider.js';
+import { createGithubFixtureProvider } from './githubFixtureProvider.js';
+
+// GitHub REST API shapes (only the fields used here)
+export interface GithubUser {
+  login: string;
+  name: string | null;
+  bio: string | null;
+  public_repos: number;
+  followers: number;
+  created_at: string;
+}
+
+export interface GithubRepo {
+  name: string;
+  full_name: string;
+  description: string | null;
+  language: string | null;
+  stargazers_count: number;
+  fork: boolean;
+  pushed_at: string | null;
+  topics?: string[];
+}
+
+export interface GithubEvent {
+  type: string;
+  created_at: string;
+  repo: { name: string };
+}
+
+/**
+ * A source of GitHub data. Providers return the REST API shapes above and
+ * throw on failure (GithubRateLimitError when out of quota).
+ */
+export interface GithubDataProvider {
+  name: string;
+  // Profile lookup by login, or null if the user does not exist
+  getUser(username: string): Promise<GithubUser | null>;
+  // Repositories the user owns, most recently pushed first
+  listRepos(username: string): Promise<GithubRepo[]>;
+  // Recent public events, newest first
+  listEvents(username: string): Promise<GithubEvent[]>;
+  // Raw contents of a file on the default branch, or null if there is none
+  getFile(fullName: string, filePath: string): Promise<string | null>;
+}
+
+export class GithubRateLimitError extends Error {
+  constructor(public readonly resetAt: string | null) {
+    super(`GitHub rate limit exceeded${resetAt ? ` (resets at ${resetAt})` : ''}`);
+    this.name = 'GithubRateLimitError';
+  }
+}
+
+let provider: GithubDataProvider | null = null;
+
+/**
+ * Get the active GitHub data provider, creating it from config on first use
+ */
+export function getGithubProvider(): GithubDataProvider {
+  if (!provider) {
+    if (config.github.provider === 'fixture') {
+      provider = createGithubFixtureProvider({ dir: config.github.fixtureDir });
+    } else {
+      provider = createGithubApiProvider({ token: config.github.token || undefined });
+    }
+    logger.debug(`Using ${provider.name} GitHub data provider`);
+  }
+  return provider;
+}
+
+/**
+ * Override the active GitHub data provider (e.g. a fixture provider in tests)
+ */
+export function setGithubProvider(next: GithubDataProvider): void {
+  provider = next;
+}
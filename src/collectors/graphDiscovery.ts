@@ -0,0 +1,137 @@
+import { fetchUserProfile, delay, RapidApiUserInfo } from './rapidApiClient.js';
+import { processDiscoveredUsers } from './searchCollector.js';
+import { RateLimitError } from './rateLimiter.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { AccountModel, BlocklistModel, GraphModel } from '../db/account.model.js';
+import type { Account, Category, GraphCandidate } from '../types/index.js';
+
+// Accounts whose mentions and replies are worth following
+const TRUSTED_CATEGORIES: Category[] = ['KOL', 'DEVELOPER'];
+
+export interface GraphDiscoveryResult {
+  trustedAccounts: number;
+  candidates: number;
+  profilesFetched: number;
+  notFound: number;
+  usersCreated: number;
+  usersBlocked: number;
+}
+
+/**
+ * Active, non-blocklisted accounts categorized KOL or DEVELOPER
+ */
+async function getTrustedAccounts(): Promise<Account[]> {
+  const accounts: Account[] = [];
+  for (const category of TRUSTED_CATEGORIES) {
+    const { data } = await AccountModel.list({ aiCategory: category }, 1, 10000);
+    accounts.push(...data);
+  }
+  const blocked = await BlocklistModel.findBlocked(accounts.map((a) => a.twitter_id));
+  return accounts.filter((a) => !blocked.has(a.twitter_id));
+}
+
+/**
+ * Rank users that trusted accounts mention or reply to but that are not stored
+ * yet, by how many distinct trusted accounts point at them (then by interactions).
+ * Quotes are left out: quoting is often disagreement rather than endorsement.
+ */
+export async function rankGraphCandidates(
+  options: { minSources?: number; limit?: number } = {}
+): Promise<{ trustedAccounts: number; candidates: GraphCandidate[] }> {
+  const minSources = options.minSources ?? config.graphDiscovery.minSources;
+  const trusted = await getTrustedAccounts();
+  if (trusted.length === 0) {
+    return { trustedAccounts: 0, candidates: [] };
+  }
+
+  const trustedUsernames = new Set(trusted.map((a) => a.username.toLowerCase()));
+  const byTarget = new Map<string, GraphCandidate & { sourceSet: Set<string> }>();
+  for (const edge of await GraphModel.listInteractions()) {
+    if (edge.type === 'quote' || !trustedUsernames.has(edge.source_username)) continue;
+    if (trustedUsernames.has(edge.target_username)) continue;
+
+    const candidate = byTarget.get(edge.target_username) || {
+      username: edge.target_username,
+      twitter_id: null,
+      trusted_sources: 0,
+      interactions: 0,
+      sources: [],
+      sourceSet: new Set<string>(),
+    };
+    candidate.twitter_id = candidate.twitter_id || edge.target_twitter_id;
+    candidate.sourceSet.add(edge.source_username);
+    candidate.interactions++;
+    byTarget.set(edge.target_username, candidate);
+  }
+
+  const qualifying = [...byTarget.values()].filter((c) => c.sourceSet.size >= minSources);
+
+  // Known accounts (including archived ones) and blocklisted users are not candidates
+  const [known, blocked] = await Promise.all([
+    AccountModel.getByUsernames(qualifying.map((c) => c.username)),
+    BlocklistModel.findBlocked(qualifying.map((c) => c.twitter_id).filter((id): id is string => Boolean(id))),
+  ]);
+  const knownUsernames = new Set(known.map((a) => a.username.toLowerCase()));
+
+  const candidates = qualifying
+    .filter((c) => !knownUsernames.has(c.username) && !(c.twitter_id && blocked.has(c.twitter_id)))
+    .map(({ sourceSet, ...candidate }) => ({
+      ...candidate,
+      trusted_sources: sourceSet.size,
+      sources: [...sourceSet].sort(),
+    }))
+    .sort((a, b) => b.trusted_sources - a.trusted_sources || b.interactions - a.interactions);
+
+  return {
+    trustedAccounts: trusted.length,
+    candidates: options.limit ? candidates.slice(0, options.limit) : candidates,
+  };
+}
+
+/**
+ * Fetch profiles for the top graph candidates and save them as new, uncategorized
+ * accounts, so the next categorization pass picks them up
+ */
+export async function discoverFromGraph(
+  maxCandidates: number = config.graphDiscovery.maxCandidates,
+  delayMs: number = config.search.delayMs
+): Promise<GraphDiscoveryResult> {
+  const { trustedAccounts, candidates } = await rankGraphCandidates({ limit: maxCandidates });
+  logger.info(`Graph discovery: ${candidates.length} candidates from ${trustedAccounts} trusted accounts`);
+
+  const users = new Map<string, RapidApiUserInfo>();
+  let notFound = 0;
+  for (let i = 0; i < candidates.length; i++) {
+    try {
+      const profile = await fetchUserProfile(candidates[i].username);
+      if (profile) {
+        users.set(profile.rest_id, profile);
+      } else {
+        notFound++;
+      }
+    } catch (error) {
+      // Out of quota: keep the profiles fetched so far
+      if (error instanceof RateLimitError) {
+        logger.warn(`Graph discovery stopped early: ${error.message}`);
+        break;
+      }
+      logger.error(`Failed to fetch profile for @${candidates[i].username}:`, error);
+    }
+
+    if (i < candidates.length - 1) {
+      await delay(delayMs);
+    }
+  }
+
+  const { created, blocked } = await processDiscoveredUsers(users);
+
+  return {
+    trustedAccounts,
+    candidates: candidates.length,
+    profilesFetched: users.size,
+    notFound,
+    usersCreated: created,
+    usersBlocked: blocked,
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createKeywordMatcher } from './keywordMatcher.js';
+import type { KeywordDefinition } from '../config/keywords.js';
+
+function keyword(overrides: Partial<KeywordDefinition> & Pick<KeywordDefinition, 'keyword' | 'rule'>): KeywordDefinition {
+  return { pattern: null, weight: 1, query: null, tier: 'primary', ...overrides };
+}
+
+describe('createKeywordMatcher', () => {
+  it('matches words on word boundaries only', () => {
+    const matcher = createKeywordMatcher([keyword({ keyword: 'x402', rule: 'word' })]);
+
+    expect(matcher.match('Paying with X402 today').keywords).toEqual(['x402']);
+    expect(matcher.match('order x4020 and ax402').keywords).toEqual([]);
+    expect(matcher.match('x402_sdk release').keywords).toEqual([]);
+  });
+
+  it('allows any whitespace between the words of a phrase', () => {
+    const matcher = createKeywordMatcher([keyword({ keyword: 'payment required', rule: 'word' })]);
+
+    expect(matcher.match('HTTP 402\nPayment   Required').keywords).toEqual(['payment required']);
+  });
+
+  it('matches hashtags and cashtags in the text or the entities', () => {
+    const matcher = createKeywordMatcher([
+      keyword({ keyword: '#x402', rule: 'hashtag' }),
+      keyword({ keyword: '$x402', rule: 'cashtag' }),
+    ]);
+
+    expect(matcher.match('building on #X402').keywords).toEqual(['#x402']);
+    expect(matcher.match('long $x402').keywords).toEqual(['$x402']);
+    expect(matcher.match('plain x402').keywords).toEqual([]);
+    expect(matcher.match('see image', { hashtags: [{ text: 'x402' }] }).keywords).toEqual(['#x402']);
+  });
+
+  it('sums the weights of the matched keywords', () => {
+    const matcher = createKeywordMatcher([
+      keyword({ keyword: 'x402', rule: 'word', weight: 1 }),
+      keyword({ keyword: 'facilitator', rule: 'word', weight: 0.25 }),
+      keyword({ keyword: 'http 402', rule: 'regex', pattern: 'http\\s*402', weight: 0.5 }),
+    ]);
+
+    expect(matcher.match('x402 facilitator returns HTTP402')).toEqual({
+      keywords: ['x402', 'facilitator', 'http 402'],
+      score: 1.75,
+    });
+  });
+
+  it('rejects an invalid regex pattern', () => {
+    expect(() => createKeywordMatcher([keyword({ keyword: 'bad', rule: 'regex', pattern: '(' })])).toThrow(
+      'Invalid pattern for keyword "bad"'
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { config } from '../config/index.js';
+import type { KeywordDefinition } from '../config/keywords.js';
+import type { TweetEntities } from '../types/index.js';
+
+export interface KeywordMatchResult {
+  // Matched keyword labels, in definition order
+  keywords: string[];
+  // Sum of the matched keywords' weights
+  score: number;
+}
+
+export interface KeywordMatcher {
+  match(content: string, entities?: TweetEntities): KeywordMatchResult;
+}
+
+// Letters, digits and "_" continue a word, so "x402" does not match inside "x4020" or "ax402"
+const NOT_BEFORE = '(?<![\\p{L}\\p{N}_])';
+const NOT_AFTER = '(?![\\p{L}\\p{N}_])';
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the test for one keyword definition
+ */
+function compileKeyword(definition: KeywordDefinition): (content: string, entities?: TweetEntities) => boolean {
+  switch (definition.rule) {
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(definition.pattern!, 'iu');
+      } catch (error) {
+        throw new Error(`Invalid pattern for keyword "${definition.keyword}": ${error instanceof Error ? error.message : error}`);
+      }
+      return (content) => pattern.test(content);
+    }
+
+    case 'hashtag':
+    case 'cashtag': {
+      const tag = definition.keyword.replace(/^[#$]/, '').toLowerCase();
+      const prefix = definition.rule === 'hashtag' ? '#' : '\\$';
+      const pattern = new RegExp(`${NOT_BEFORE}${prefix}${escapeRegex(tag)}${NOT_AFTER}`, 'iu');
+      return (content, entities) => {
+        const tags = definition.rule === 'hashtag' ? entities?.hashtags : entities?.symbols;
+        return tags?.some((t) => t.text?.toLowerCase() === tag) || pattern.test(content);
+      };
+    }
+
+    case 'word': {
+      // Any run of whitespace between the words of a phrase
+      const words = definition.keyword.trim().split(/\s+/).map(escapeRegex).join('\\s+');
+      const pattern = new RegExp(`${NOT_BEFORE}${words}${NOT_AFTER}`, 'iu');
+      return (content) => pattern.test(content);
+    }
+  }
+}
+
+/**
+ * Compile keyword definitions into a matcher (throws on an invalid regex pattern)
+ */
+export function createKeywordMatcher(definitions: KeywordDefinition[]): KeywordMatcher {
+  const compiled = definitions.map((definition) => ({ definition, test: compileKeyword(definition) }));
+
+  return {
+    match(content, entities) {
+      const matched = compiled.filter(({ test }) => test(content, entities)).map(({ definition }) => definition);
+      const score = matched.reduce((sum, definition) => sum + definition.weight, 0);
+      return {
+        keywords: matched.map((definition) => definition.keyword),
+        score: Math.round(score * 100) / 100,
+      };
+    },
+  };
+}
+
+let matcher: KeywordMatcher | null = null;
+
+/**
+ * Matcher for the configured keyword definitions, compiled on first use
+ */
+export function getKeywordMatcher(): KeywordMatcher {
+  if (!matcher) {
+    matcher = createKeywordMatcher(config.keywords);
+  }
+  return matcher;
+}
@@ -1,6 +1,13 @@
-import axios, { AxiosInstance } from 'axios';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { getTwitterProvider, type TweetPage } from './twitterProvider.js';
+import { RateLimitError } from './rateLimiter.js';
+import { getKeywordMatcher } from './keywordMatcher.js';
+import { analyzeTweetContent } from './tweetContentAnalyzer.js';
+import { resolveGithubUsername } from './githubEnrichment.js';
+import { extractTweetLinks } from './tweetLinks.js';
+import type { NewMetricSnapshot, NewTweet } from '../db/storage.js';
+import type { TweetSource, TweetEntities, TweetMedia, AccountInteraction } from '../types/index.js';
 
 // RapidAPI response types based on the API response structure
 export interface RapidApiUserInfo {
@@ -18,6 +25,8 @@ export interface RapidApiUserInfo {
   verified: boolean;
   friends_count: number;
   location: string;
+  // Only on profile lookups, not on search results
+  statuses_count?: number;
 }
 
 export interface RapidApiTweet {
@@ -36,108 +45,80 @@ export interface RapidApiTweet {
   retweets: number;
   views: string;
   user_info: RapidApiUserInfo;
-  entities?: {
-    hashtags?: Array<{ text: string }>;
-    symbols?: Array<{ text: string }>;
-    user_mentions?: Array<{ screen_name: string; name: string }>;
-    urls?: Array<{ expanded_url: string }>;
+  entities?: TweetEntities;
+  media?: TweetMedia;
+  // Present when the tweet quotes another
+  quoted?: {
+    tweet_id: string;
+    author?: { rest_id: string; screen_name: string };
   };
-  media?: {
-    photo?: Array<{ media_url_https: string }>;
-    video?: Array<{ media_url_https: string }>;
-  };
-}
-
-export interface RapidApiSearchResponse {
-  status: string;
-  timeline: RapidApiTweet[];
-  next_cursor?: string;
-  prev_cursor?: string;
-}
-
-let axiosClient: AxiosInstance | null = null;
-
-function getAxiosClient(): AxiosInstance {
-  if (!axiosClient) {
-    axiosClient = axios.create({
-      baseURL: `https://${config.rapidApi.host}`,
-      headers: {
-        'x-rapidapi-key': config.rapidApi.key,
-        'x-rapidapi-host': config.rapidApi.host,
-      },
-    });
-  }
-  return axiosClient;
 }
 
 /**
- * Search Twitter using RapidAPI
+ * Search Twitter through the active data provider
  */
 export async function searchTwitter(
   query: string,
   searchType: string = config.search.searchType,
   cursor?: string
-): Promise<RapidApiSearchResponse> {
-  const client = getAxiosClient();
-
-  try {
-    const params: Record<string, string> = {
-      query,
-      search_type: searchType,
-    };
-
-    if (cursor) {
-      params.cursor = cursor;
-    }
-
-    logger.debug(`Searching Twitter for: "${query}" (type: ${searchType})`);
-
-    const response = await client.get<RapidApiSearchResponse>('/search.php', { params });
+): Promise<TweetPage> {
+  logger.debug(`Searching Twitter for: "${query}" (type: ${searchType})`);
 
-    if (response.data.status !== 'ok') {
-      throw new Error(`API returned status: ${response.data.status}`);
-    }
+  const page = await getTwitterProvider().search(query, { searchType, cursor });
 
-    logger.info(`Found ${response.data.timeline?.length || 0} tweets for "${query}"`);
+  logger.info(`Found ${page.tweets.length} tweets for "${query}"`);
 
-    return response.data;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      logger.error(`RapidAPI error: ${error.response?.status} - ${error.message}`);
-      throw new Error(`Twitter search failed: ${error.response?.data?.message || error.message}`);
-    }
-    throw error;
-  }
+  return page;
 }
 
 /**
  * Search with pagination - fetches multiple pages
+ * Stops at the first failed page, except RateLimitError which is rethrown.
+ * With isKnown, stops at the first page containing an already-seen tweet (those are dropped).
+ * nextCursor is set when pages were left unfetched (page limit or a failed page).
  */
 export async function searchTwitterWithPagination(
   query: string,
   maxPages: number = config.search.maxPages,
-  delayMs: number = config.search.delayMs
-): Promise<{ tweets: RapidApiTweet[]; totalPages: number }> {
+  delayMs: number = config.search.delayMs,
+  options: {
+    searchType?: string;
+    cursor?: string;
+    isKnown?: (tweet: RapidApiTweet) => boolean;
+  } = {}
+): Promise<{ tweets: RapidApiTweet[]; totalPages: number; nextCursor?: string; reachedKnown: boolean }> {
+  const { searchType = config.search.searchType, isKnown } = options;
   const allTweets: RapidApiTweet[] = [];
-  let cursor: string | undefined;
+  let cursor: string | undefined = options.cursor;
   let currentPage = 0;
+  let reachedKnown = false;
+  let unfetched = false;
 
   while (currentPage < maxPages) {
     try {
-      const response = await searchTwitter(query, config.search.searchType, cursor);
+      const response = await searchTwitter(query, searchType, cursor);
 
-      if (response.timeline && response.timeline.length > 0) {
-        allTweets.push(...response.timeline);
-        logger.info(`Page ${currentPage + 1}: Found ${response.timeline.length} tweets (total: ${allTweets.length})`);
-      } else {
+      const newTweets = isKnown ? response.tweets.filter((t) => !isKnown(t)) : response.tweets;
+      reachedKnown = newTweets.length < response.tweets.length;
+
+      if (newTweets.length > 0) {
+        allTweets.push(...newTweets);
+        logger.info(`Page ${currentPage + 1}: Found ${newTweets.length} tweets (total: ${allTweets.length})`);
+      } else if (!reachedKnown) {
         logger.info(`Page ${currentPage + 1}: No more tweets found`);
         break;
       }
 
+      if (reachedKnown) {
+        logger.info('Reached previously seen tweets');
+        break;
+      }
+
       // Check for next page
-      if (response.next_cursor) {
-        cursor = response.next_cursor;
+      if (response.nextCursor) {
+        cursor = response.nextCursor;
         currentPage++;
+        unfetched = currentPage >= maxPages;
 
         // Delay between requests
         if (currentPage < maxPages) {
@@ -149,7 +130,12 @@ export async function searchTwitterWithPagination(
         break;
       }
     } catch (error) {
+      // Throttling must not pass for "no more tweets"
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
       logger.error(`Error fetching page ${currentPage + 1}:`, error);
+      unfetched = true;
       break;
     }
   }
@@ -157,6 +143,8 @@ export async function searchTwitterWithPagination(
   return {
     tweets: allTweets,
     totalPages: currentPage + 1,
+    nextCursor: unfetched ? cursor : undefined,
+    reachedKnown,
   };
 }
 
@@ -170,8 +158,15 @@ export function transformRapidApiUser(userInfo: RapidApiUserInfo): {
   bio: string | null;
   followers_count: number;
   following_count: number;
-  tweet_count: number;
+  tweet_count?: number;
+  favourites_count: number;
   profile_image_url: string | null;
+  location: string | null;
+  website_url: string | null;
+  verified: boolean;
+  verified_type: string | null;
+  account_created_at: string | null;
+  cover_image_url: string | null;
 } {
   return {
     twitter_id: userInfo.rest_id,
@@ -180,8 +175,59 @@ export function transformRapidApiUser(userInfo: RapidApiUserInfo): {
     bio: userInfo.description || null,
     followers_count: userInfo.followers_count || 0,
     following_count: userInfo.friends_count || 0,
-    tweet_count: userInfo.favourites_count || 0, // Using favourites as proxy
+    // Left out when unknown, so an upsert keeps the stored count
+    ...(userInfo.statuses_count !== undefined && { tweet_count: userInfo.statuses_count }),
+    favourites_count: userInfo.favourites_count || 0,
     profile_image_url: userInfo.avatar || null,
+    location: userInfo.location || null,
+    website_url: userInfo.url || null,
+    verified: Boolean(userInfo.verified),
+    verified_type: userInfo.verified_type || null,
+    account_created_at: toIsoDate(userInfo.created_at),
+    cover_image_url: userInfo.cover_image || null,
+  };
+}
+
+/**
+ * Parse a RapidAPI date ("Wed Oct 10 20:19:24 +0000 2018") to ISO format, or null
+ */
+export function toIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Transform RapidAPI user plus the tweets seen alongside it into a metrics snapshot
+ */
+export function transformRapidApiMetrics(
+  userInfo: RapidApiUserInfo,
+  tweets: RapidApiTweet[]
+): Omit<NewMetricSnapshot, 'source'> {
+  const user = transformRapidApiUser(userInfo);
+  const count = tweets.length;
+  const average = (values: number[]): number | null =>
+    count > 0 ? values.reduce((sum, v) => sum + v, 0) / count : null;
+
+  const views = tweets.map((t) => parseInt(t.views, 10) || 0);
+  const totalViews = views.reduce((sum, v) => sum + v, 0);
+  const totalEngagements = tweets.reduce(
+    (sum, t) => sum + (t.favorites || 0) + (t.retweets || 0) + (t.replies || 0) + (t.quotes || 0),
+    0
+  );
+
+  return {
+    twitter_id: user.twitter_id,
+    followers_count: user.followers_count,
+    following_count: user.following_count,
+    tweet_count: user.tweet_count ?? 0,
+    favourites_count: user.favourites_count,
+    sampled_tweets: count,
+    avg_likes: average(tweets.map((t) => t.favorites || 0)),
+    avg_retweets: average(tweets.map((t) => t.retweets || 0)),
+    avg_replies: average(tweets.map((t) => t.replies || 0)),
+    avg_views: average(views),
+    engagement_rate: totalViews > 0 ? totalEngagements / totalViews : null,
   };
 }
 
@@ -190,50 +236,20 @@ export function transformRapidApiUser(userInfo: RapidApiUserInfo): {
  */
 export function transformRapidApiTweet(
   tweet: RapidApiTweet,
-  accountId: string
-): {
-  twitter_id: string;
-  account_id: string;
-  content: string;
-  likes: number;
-  retweets: number;
-  replies: number;
-  quotes: number;
-  created_at: string;
-  has_code: boolean;
-  has_github: boolean;
-  x402_keywords_found: string[];
-} {
+  accountId: string,
+  source: TweetSource
+): NewTweet {
   const content = tweet.text;
 
-  // Check for code patterns
-  const codePatterns = /[{}();\[\]=>]|function\s|const\s|let\s|var\s|import\s|export\s|async\s|await\s|class\s/;
-  const hasCode = codePatterns.test(content);
-
-  // Check for GitHub links
-  const hasGithub = /github\.com/i.test(content) ||
-    tweet.entities?.urls?.some((url) => url.expanded_url?.includes('github.com')) ||
-    false;
+  // Code blocks, code screenshots and repository links
+  const analysis = analyzeTweetContent(content, tweet.entities, tweet.media);
 
-  // Find x402 keywords
-  const x402Keywords: string[] = [];
-  const primaryKeywords = ['x402', '#x402', 'x402 protocol', 'http 402'];
-  const secondaryKeywords = ['402 payment', 'crypto payments api', 'web monetization'];
-
-  const lowerContent = content.toLowerCase();
-  [...primaryKeywords, ...secondaryKeywords].forEach((keyword) => {
-    if (lowerContent.includes(keyword.toLowerCase())) {
-      x402Keywords.push(keyword);
-    }
-  });
+  // Tag with the configured x402 keywords
+  const keywordMatch = getKeywordMatcher().match(content, tweet.entities);
 
   // Parse created_at to ISO format
-  let createdAt: string;
-  try {
-    createdAt = new Date(tweet.created_at).toISOString();
-  } catch {
-    createdAt = new Date().toISOString();
-  }
+  const createdAt = toIsoDate(tweet.created_at) || new Date().toISOString();
+  const views = parseInt(tweet.views, 10);
 
   return {
     twitter_id: tweet.tweet_id,
@@ -243,19 +259,90 @@ export function transformRapidApiTweet(
     retweets: tweet.retweets || 0,
     replies: tweet.replies || 0,
     quotes: tweet.quotes || 0,
+    bookmarks: tweet.bookmarks || 0,
+    views: Number.isNaN(views) ? null : views,
+    lang: tweet.lang || null,
+    conversation_id: tweet.conversation_id || null,
+    entities: tweet.entities || {},
+    media: tweet.media || {},
     created_at: createdAt,
-    has_code: hasCode,
-    has_github: hasGithub,
-    x402_keywords_found: x402Keywords,
+    has_code: analysis.has_code,
+    code_evidence: analysis.code_evidence,
+    code_languages: analysis.code_languages,
+    repo_links: analysis.repo_links,
+    has_github: analysis.has_github,
+    links: extractTweetLinks(content, tweet.entities),
+    x402_keywords_found: keywordMatch.keywords,
+    x402_keyword_score: keywordMatch.score,
+    sources: [source],
+  };
+}
+
+/**
+ * Extract mention, reply and quote edges from a RapidAPI tweet.
+ * A reply is a tweet in someone else's conversation that starts with @handles;
+ * the first handle is the user replied to. Tweets without user_info take their
+ * author from `author`.
+ */
+export function transformRapidApiInteractions(
+  tweet: RapidApiTweet,
+  author?: { twitter_id: string; username: string }
+): AccountInteraction[] {
+  const sourceTwitterId = tweet.user_info?.rest_id || author?.twitter_id;
+  const sourceUsername = (tweet.user_info?.screen_name || tweet.screen_name || author?.username || '').toLowerCase();
+  if (!sourceTwitterId || !sourceUsername) return [];
+
+  const createdAt = toIsoDate(tweet.created_at) || new Date().toISOString();
+  const text = tweet.text || '';
+  const mentionIds = new Map(
+    (tweet.entities?.user_mentions || []).map((m) => [m.screen_name.toLowerCase(), m.id_str || null])
+  );
+  const mentioned = mentionIds.size > 0
+    ? [...mentionIds.keys()]
+    : [...text.matchAll(/(?<![\w@])@(\w{1,15})/g)].map((m) => m[1].toLowerCase());
+
+  const isReply = Boolean(tweet.conversation_id) && tweet.conversation_id !== tweet.tweet_id;
+  const replyTo = isReply ? /^@(\w{1,15})/.exec(text.trimStart())?.[1]?.toLowerCase() : undefined;
+
+  const edges: AccountInteraction[] = [];
+  const add = (type: AccountInteraction['type'], username: string, twitterId: string | null) => {
+    if (username === sourceUsername) return;
+    edges.push({
+      tweet_id: tweet.tweet_id,
+      type,
+      source_twitter_id: sourceTwitterId,
+      source_username: sourceUsername,
+      target_twitter_id: twitterId,
+      target_username: username,
+      created_at: createdAt,
+    });
   };
+
+  if (replyTo) {
+    add('reply', replyTo, mentionIds.get(replyTo) ?? null);
+  }
+  for (const username of new Set(mentioned)) {
+    if (username !== replyTo) {
+      add('mention', username, mentionIds.get(username) ?? null);
+    }
+  }
+  if (tweet.quoted?.author?.screen_name) {
+    add('quote', tweet.quoted.author.screen_name.toLowerCase(), tweet.quoted.author.rest_id || null);
+  }
+
+  return edges;
 }
 
 /**
- * Check if user bio contains GitHub
+ * Check if the user's bio or website names a GitHub account (a link or "github: name",
+ * not just the word "GitHub")
  */
 export function hasGithubInBio(userInfo: RapidApiUserInfo): boolean {
-  if (!userInfo.description) return false;
-  return /github/i.test(userInfo.description) || /github\.com/i.test(userInfo.url || '');
+  return resolveGithubUsername({
+    username: userInfo.screen_name,
+    bio: userInfo.description,
+    website_url: userInfo.url,
+  }) !== null;
 }
 
 /**
@@ -286,50 +373,142 @@ export async function searchUserX402Tweets(
   return result.tweets;
 }
 
-// Timeline API response types
-export interface RapidApiTimelineResponse {
-  status: string;
-  timeline: RapidApiTweet[];
-  next_cursor?: string;
+/**
+ * Look up a user's profile through the active data provider
+ * @returns The profile, or null if the user does not exist
+ */
+export async function fetchUserProfile(username: string): Promise<RapidApiUserInfo | null> {
+  const profile = await getTwitterProvider().getUser(username);
+  if (!profile) {
+    logger.info(`No profile found for @${username}`);
+  }
+  return profile;
+}
+
+// How much of a user's history a timeline fetch covered
+export interface TimelineCoverage {
+  tweets: number;
+  pages: number;
+  oldestTweetAt: string | null;
+  newestTweetAt: string | null;
+  // Days from the oldest fetched tweet to now
+  coveredDays: number;
+  // Why paging stopped
+  stoppedBy: 'max_tweets' | 'lookback' | 'max_pages' | 'end' | 'error';
 }
 
 /**
- * Fetch a user's general timeline (recent tweets)
- * Uses RapidAPI timeline.php endpoint
+ * Fetch a user's timeline through the active data provider, following next_cursor
+ * until maxTweets, the lookback window or maxPages is reached
+ * Failed pages end the fetch with what was collected; RateLimitError is rethrown
  */
-export async function fetchUserTimeline(
+export async function fetchUserTimelinePages(
   username: string,
-  maxTweets: number = config.search.maxTimelineTweets
-): Promise<RapidApiTweet[]> {
-  const client = getAxiosClient();
+  options: {
+    maxTweets?: number;
+    lookbackDays?: number;
+    maxPages?: number;
+    delayMs?: number;
+  } = {}
+): Promise<{ tweets: RapidApiTweet[]; coverage: TimelineCoverage }> {
+  const {
+    maxTweets = config.search.maxTimelineTweets,
+    lookbackDays = config.search.timelineLookbackDays,
+    maxPages = config.search.maxTimelinePages,
+    delayMs = config.search.delayMs,
+  } = options;
+  const cutoff = Date.now() - lookbackDays * 24 * 60 * 60 * 1000;
 
-  try {
-    logger.info(`Fetching timeline for @${username} (max: ${maxTweets} tweets)`);
+  const tweets: RapidApiTweet[] = [];
+  let cursor: string | undefined;
+  let pages = 0;
+  let stoppedBy: TimelineCoverage['stoppedBy'] = 'max_pages';
 
-    const response = await client.get<RapidApiTimelineResponse>('/timeline.php', {
-      params: {
-        screenname: username,
-      },
-    });
+  logger.info(`Fetching timeline for @${username} (max: ${maxTweets} tweets, ${lookbackDays} days, ${maxPages} pages)`);
 
-    if (response.data.status !== 'ok') {
-      throw new Error(`API returned status: ${response.data.status}`);
-    }
+  while (pages < maxPages) {
+    try {
+      const page = await getTwitterProvider().getTimeline(username, { cursor });
+      pages++;
 
-    const tweets = response.data.timeline || [];
-    const limitedTweets = tweets.slice(0, maxTweets);
+      const inWindow = page.tweets.filter((t) => {
+        const createdAt = Date.parse(t.created_at);
+        return Number.isNaN(createdAt) || createdAt >= cutoff;
+      });
+      tweets.push(...inWindow.slice(0, maxTweets - tweets.length));
 
-    logger.info(`Fetched ${limitedTweets.length} timeline tweets for @${username}`);
+      if (tweets.length >= maxTweets) {
+        stoppedBy = 'max_tweets';
+        break;
+      }
+      if (inWindow.length < page.tweets.length) {
+        stoppedBy = 'lookback';
+        break;
+      }
+      if (!page.nextCursor || page.tweets.length === 0) {
+        stoppedBy = 'end';
+        break;
+      }
+      cursor = page.nextCursor;
 
-    return limitedTweets;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      logger.error(`RapidAPI timeline error: ${error.response?.status} - ${error.message}`);
-      // Return empty array on error instead of throwing to allow crawl to continue
-      return [];
+      if (pages < maxPages) {
+        await delay(delayMs);
+      }
+    } catch (error) {
+      // A throttled fetch is a failure, not an empty timeline
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      logger.error(`Timeline fetch failed for @${username} (page ${pages + 1}):`, error);
+      stoppedBy = 'error';
+      break;
     }
-    throw error;
   }
+
+  const dates = tweets
+    .map((t) => toIsoDate(t.created_at))
+    .filter((d): d is string => d !== null)
+    .sort();
+  const oldestTweetAt = dates[0] || null;
+  const coverage: TimelineCoverage = {
+    tweets: tweets.length,
+    pages,
+    oldestTweetAt,
+    newestTweetAt: dates[dates.length - 1] || null,
+    coveredDays: oldestTweetAt
+      ? Math.round(((Date.now() - Date.parse(oldestTweetAt)) / (24 * 60 * 60 * 1000)) * 10) / 10
+      : 0,
+    stoppedBy,
+  };
+
+  logger.info(
+    `Fetched ${tweets.length} timeline tweets for @${username} ` +
+    `(${pages} pages, ${coverage.coveredDays} days, stopped by ${stoppedBy})`
+  );
+
+  return { tweets, coverage };
+}
+
+/**
+ * Average days of history covered by fetched timelines (0 when none were fetched)
+ */
+export function averageTimelineDays(results: UserTweetData[]): number {
+  const covered = results.filter((r) => r.timelineCoverage && r.timelineCoverage.tweets > 0);
+  if (covered.length === 0) return 0;
+  const total = covered.reduce((sum, r) => sum + r.timelineCoverage!.coveredDays, 0);
+  return Math.round((total / covered.length) * 10) / 10;
+}
+
+/**
+ * Fetch a user's general timeline (recent tweets) through the active data provider
+ * Returns an empty array when the first page fails, so a crawl can continue
+ */
+export async function fetchUserTimeline(
+  username: string,
+  maxTweets: number = config.search.maxTimelineTweets
+): Promise<RapidApiTweet[]> {
+  const { tweets } = await fetchUserTimelinePages(username, { maxTweets });
+  return tweets;
 }
 
 /**
@@ -339,6 +518,8 @@ export interface UserTweetData {
   username: string;
   x402Tweets: RapidApiTweet[];
   generalTweets: RapidApiTweet[];
+  // Set when the timeline was fetched (not for stored tweets)
+  timelineCoverage?: TimelineCoverage;
   error?: string;
 }
 
@@ -392,12 +573,13 @@ async function fetchUserData(
     await delay(delayMs);
 
     // Fetch general timeline
-    const generalTweets = await fetchUserTimeline(username, maxTimelineTweets);
+    const timeline = await fetchUserTimelinePages(username, { maxTweets: maxTimelineTweets, delayMs });
 
     return {
       username,
       x402Tweets,
-      generalTweets,
+      generalTweets: timeline.tweets,
+      timelineCoverage: timeline.coverage,
     };
   } catch (error) {
     logger.error(`Error fetching data for @${username}:`, error);
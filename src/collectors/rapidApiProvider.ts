@@ -0,0 +1,199 @@
+import axios, { AxiosInstance } from 'axios';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { countCall } from '../utils/callCounters.js';
+import { attachCassette } from './cassette.js';
+import { RateLimiter, type EndpointStats } from './rateLimiter.js';
+import type { RapidApiTweet, RapidApiUserInfo } from './rapidApiClient.js';
+import type { TwitterDataProvider, TweetPage } from './twitterProvider.js';
+
+// twitter-api45 response types
+export interface RapidApiSearchResponse {
+  status: string;
+  timeline: RapidApiTweet[];
+  next_cursor?: string;
+  prev_cursor?: string;
+}
+
+export interface RapidApiTimelineResponse {
+  status: string;
+  timeline: RapidApiTweet[];
+  next_cursor?: string;
+}
+
+export interface RapidApiProfileResponse {
+  status: string;
+  profile: string;
+  rest_id: string;
+  name: string;
+  desc: string | null;
+  avatar: string | null;
+  header_image: string | null;
+  website?: string | null;
+  location: string;
+  blue_verified: boolean;
+  sub_count: number;
+  friends: number;
+  statuses_count: number;
+  favourites_count?: number;
+  created_at: string;
+}
+
+let axiosClient: AxiosInstance | null = null;
+let rateLimiter: RateLimiter | null = null;
+
+function getAxiosClient(): AxiosInstance {
+  if (!axiosClient) {
+    axiosClient = axios.create({
+      baseURL: `https://${config.rapidApi.host}`,
+      headers: {
+        'x-rapidapi-key': config.rapidApi.key,
+        'x-rapidapi-host': config.rapidApi.host,
+      },
+    });
+    axiosClient.interceptors.request.use((request) => {
+      countCall('apiCalls');
+      return request;
+    });
+    attachCassette(axiosClient, {
+      mode: config.rapidApi.cassette.mode,
+      filePath: config.rapidApi.cassette.file,
+    });
+  }
+  return axiosClient;
+}
+
+function getRateLimiter(): RateLimiter {
+  if (!rateLimiter) {
+    // Replayed responses need no pacing, but keep the retries so recorded 429s replay the same way
+    const replaying = config.rapidApi.cassette.mode === 'replay';
+    rateLimiter = new RateLimiter({
+      ...config.rapidApi.rateLimit,
+      requestsPerSecond: replaying ? 0 : config.rapidApi.rateLimit.requestsPerSecond,
+      endpointRequestsPerSecond: replaying ? {} : config.rapidApi.rateLimit.endpointRequestsPerSecond,
+      retryBaseDelayMs: replaying ? 0 : config.rapidApi.rateLimit.retryBaseDelayMs,
+    });
+  }
+  return rateLimiter;
+}
+
+/**
+ * GET an endpoint through the shared rate limiter
+ */
+function rateLimitedGet<T>(endpoint: string, params: Record<string, string>) {
+  return getRateLimiter().schedule(endpoint, () => getAxiosClient().get<T>(endpoint, { params }));
+}
+
+/**
+ * Per-endpoint request, throttle and quota counts for this process
+ */
+export function getRateLimitStats(): Record<string, EndpointStats> {
+  return getRateLimiter().getStats();
+}
+
+
+/**
+ * Convert a search.php or timeline.php response to a page of tweets
+ */
+export function parseTweetPage(data: RapidApiSearchResponse | RapidApiTimelineResponse): TweetPage {
+  if (data.status !== 'ok') {
+    throw new Error(`API returned status: ${data.status}`);
+  }
+  return {
+    tweets: data.timeline || [],
+    nextCursor: data.next_cursor || undefined,
+  };
+}
+
+/**
+ * Convert a screenname.php response to the user_info shape search results use
+ */
+export function parseProfile(data: RapidApiProfileResponse): RapidApiUserInfo | null {
+  // Unknown or suspended users come back without a rest_id
+  if (!data?.rest_id) {
+    return null;
+  }
+  return {
+    screen_name: data.profile,
+    name: data.name,
+    created_at: data.created_at,
+    description: data.desc,
+    rest_id: data.rest_id,
+    followers_count: data.sub_count,
+    favourites_count: data.favourites_count || 0,
+    avatar: data.avatar,
+    url: data.website || null,
+    cover_image: data.header_image,
+    verified_type: null,
+    verified: Boolean(data.blue_verified),
+    friends_count: data.friends,
+    location: data.location,
+    statuses_count: data.statuses_count,
+  };
+}
+
+/**
+ * Wrap axios failures with the status and message RapidAPI returned
+ * (RateLimitError passes through so callers can tell throttling apart)
+ */
+function toProviderError(error: unknown, action: string): unknown {
+  if (axios.isAxiosError(error)) {
+    logger.error(`RapidAPI ${action} error: ${error.response?.status} - ${error.message}`);
+    return new Error(`Twitter ${action} failed: ${error.response?.data?.message || error.message}`);
+  }
+  return error;
+}
+
+/**
+ * Twitter data from the twitter-api45 RapidAPI host
+ */
+export function createRapidApiProvider(): TwitterDataProvider {
+  return {
+    name: 'rapidapi',
+
+    async search(query, options = {}) {
+      const params: Record<string, string> = {
+        query,
+        search_type: options.searchType || config.search.searchType,
+      };
+      if (options.cursor) {
+        params.cursor = options.cursor;
+      }
+
+      try {
+        const response = await rateLimitedGet<RapidApiSearchResponse>('/search.php', params);
+        return parseTweetPage(response.data);
+      } catch (error) {
+        throw toProviderError(error, 'search');
+      }
+    },
+
+    async getTimeline(username, options = {}) {
+      const params: Record<string, string> = { screenname: username };
+      if (options.cursor) {
+        params.cursor = options.cursor;
+      }
+
+      try {
+        const response = await rateLimitedGet<RapidApiTimelineResponse>('/timeline.php', params);
+        return parseTweetPage(response.data);
+      } catch (error) {
+        throw toProviderError(error, 'timeline');
+      }
+    },
+
+    async getUser(username) {
+      try {
+        const response = await rateLimitedGet<RapidApiProfileResponse>('/screenname.php', {
+          screenname: username,
+        });
+        return parseProfile(response.data);
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          return null;
+        }
+        throw toProviderError(error, 'user lookup');
+      }
+    },
+  };
+}
@@ -0,0 +1,223 @@
+import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import { logger } from '../utils/logger.js';
+import { countCall } from '../utils/callCounters.js';
+
+export interface RateLimiterOptions {
+  // Sustained request rate across all endpoints (0 = unlimited)
+  requestsPerSecond: number;
+  // Requests allowed back to back before the rate applies
+  burst: number;
+  // Tighter per-endpoint rates, e.g. { '/search.php': 0.5 }
+  endpointRequestsPerSecond: Record<string, number>;
+  maxRetries: number;
+  // First retry delay; doubles per attempt, with jitter
+  retryBaseDelayMs: number;
+  maxRetryDelayMs: number;
+}
+
+export interface EndpointStats {
+  requests: number;
+  // 429 responses
+  throttled: number;
+  retries: number;
+  // Requests that still failed after all retries
+  failures: number;
+  // Last quota reported by the x-ratelimit-requests-remaining header
+  remaining: number | null;
+}
+
+/**
+ * Thrown when RapidAPI keeps answering 429 after all retries, so callers can
+ * tell throttling apart from an account that genuinely has no tweets.
+ */
+export class RateLimitError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly retryAfterMs: number | null
+  ) {
+    super(
+      `RapidAPI rate limit exceeded on ${endpoint}` +
+      (retryAfterMs ? ` (retry after ${Math.ceil(retryAfterMs / 1000)}s)` : '')
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Token bucket: holds up to `capacity` tokens, refilled at `ratePerSecond`
+ */
+class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(private ratePerSecond: number, private capacity: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Take a token if one is available
+   * @returns 0 if a token was taken, otherwise ms until the next one
+   */
+  take(): number {
+    if (this.ratePerSecond <= 0) return 0;
+
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.refilledAt) / 1000) * this.ratePerSecond);
+    this.refilledAt = now;
+
+    if (this.tokens >= 1) {
+      this.tokens--;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) to ms
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Shared limiter for every RapidAPI request: a global token bucket plus optional
+ * per-endpoint buckets, retries with exponential backoff and jitter on 429, 5xx
+ * and connection errors, and a pause for every endpoint when RapidAPI reports
+ * the quota is used up or sends Retry-After. Waits longer than maxRetryDelayMs
+ * fail with RateLimitError instead.
+ */
+export class RateLimiter {
+  private global: TokenBucket;
+  private endpoints = new Map<string, TokenBucket>();
+  private stats = new Map<string, EndpointStats>();
+  private pausedUntil = 0;
+
+  constructor(private options: RateLimiterOptions) {
+    this.global = new TokenBucket(options.requestsPerSecond, options.burst);
+  }
+
+  /**
+   * Run a request once the limiter allows it, retrying throttled and transient failures
+   */
+  async schedule<T>(endpoint: string, request: () => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
+    const stats = this.statsFor(endpoint);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(endpoint);
+      stats.requests++;
+
+      try {
+        const response = await request();
+        this.applyQuotaHeaders(stats, response.headers);
+        return response;
+      } catch (error) {
+        const response = axios.isAxiosError(error) ? error.response : undefined;
+        if (response) {
+          this.applyQuotaHeaders(stats, response.headers);
+        }
+
+        const status = response?.status;
+        const connectionError = axios.isAxiosError(error) && !response &&
+          ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN'].includes(error.code || '');
+        if (status !== 429 && !(status && status >= 500) && !connectionError) {
+          throw error;
+        }
+
+        const retryAfterMs = status === 429 ? parseRetryAfter(response?.headers['retry-after']) : null;
+        if (status === 429) {
+          stats.throttled++;
+          countCall('throttled');
+        }
+
+        // Give up rather than stall the crawl when RapidAPI asks for a long wait (e.g. monthly quota)
+        if (attempt >= this.options.maxRetries || (retryAfterMs ?? 0) > this.options.maxRetryDelayMs) {
+          stats.failures++;
+          countCall('failures');
+          throw status === 429 ? new RateLimitError(endpoint, retryAfterMs) : error;
+        }
+
+        const backoff = Math.min(this.options.maxRetryDelayMs, this.options.retryBaseDelayMs * 2 ** attempt);
+        const waitMs = (retryAfterMs ?? backoff) + Math.random() * this.options.retryBaseDelayMs;
+        stats.retries++;
+        countCall('retries');
+        logger.warn(
+          `RapidAPI ${endpoint} returned ${status ?? (error as Error).message}; ` +
+          `retry ${attempt + 1}/${this.options.maxRetries} in ${Math.round(waitMs)}ms`
+        );
+
+        // Throttling applies to the API key, so every endpoint backs off
+        if (status === 429) {
+          this.pauseFor(waitMs);
+        } else {
+          await sleep(waitMs);
+        }
+      }
+    }
+  }
+
+  /**
+   * Request, throttle and quota counts per endpoint since the process started
+   */
+  getStats(): Record<string, EndpointStats> {
+    return Object.fromEntries([...this.stats].map(([endpoint, stats]) => [endpoint, { ...stats }]));
+  }
+
+  private async acquire(endpoint: string): Promise<void> {
+    const bucket = this.bucketFor(endpoint);
+    for (let waitMs = bucket?.take() ?? 0; waitMs > 0; waitMs = bucket!.take()) {
+      await sleep(waitMs);
+    }
+    for (;;) {
+      const waitMs = this.pausedUntil > Date.now() ? this.pausedUntil - Date.now() : this.global.take();
+      if (waitMs <= 0) return;
+      await sleep(waitMs);
+    }
+  }
+
+  private bucketFor(endpoint: string): TokenBucket | null {
+    const rate = this.options.endpointRequestsPerSecond[endpoint];
+    if (!rate) return null;
+    if (!this.endpoints.has(endpoint)) {
+      this.endpoints.set(endpoint, new TokenBucket(rate, 1));
+    }
+    return this.endpoints.get(endpoint)!;
+  }
+
+  private statsFor(endpoint: string): EndpointStats {
+    if (!this.stats.has(endpoint)) {
+      this.stats.set(endpoint, { requests: 0, throttled: 0, retries: 0, failures: 0, remaining: null });
+    }
+    return this.stats.get(endpoint)!;
+  }
+
+  private pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Track RapidAPI's quota headers and pause until the reset once it runs out
+   */
+  private applyQuotaHeaders(stats: EndpointStats, headers: AxiosResponse['headers']): void {
+    const remaining = Number(headers?.['x-ratelimit-requests-remaining']);
+    if (Number.isNaN(remaining)) return;
+
+    stats.remaining = remaining;
+    if (remaining <= 0) {
+      const resetMs = Number(headers['x-ratelimit-requests-reset']) * 1000;
+      if (resetMs > 0 && resetMs <= this.options.maxRetryDelayMs) {
+        logger.warn(`RapidAPI quota exhausted; pausing requests for ${Math.ceil(resetMs / 1000)}s`);
+        this.pauseFor(resetMs);
+      }
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { setStorage } from '../db/storage.js';
+import { createMemoryStorage } from '../db/memoryStorage.js';
+import { BlocklistModel, GraphModel } from '../db/account.model.js';
+import { processDiscoveredTweets } from './searchCollector.js';
+import type { RapidApiTweet } from './rapidApiClient.js';
+
+function searchTweet(tweetId: string, authorId: string, author: string, text: string): RapidApiTweet {
+  return {
+    tweet_id: tweetId,
+    screen_name: author,
+    text,
+    created_at: 'Wed Oct 10 20:19:24 +0000 2018',
+    conversation_id: tweetId,
+    user_info: { rest_id: authorId, screen_name: author },
+  } as RapidApiTweet;
+}
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+});
+
+describe('processDiscoveredTweets', () => {
+  it('adds no interactions for tweets by blocklisted authors', async () => {
+    await BlocklistModel.add({ twitter_id: '2', username: 'spammer', reason: 'spam', added_by: 'test' });
+
+    await processDiscoveredTweets(
+      [
+        searchTweet('t1', '1', 'alice', 'x402 demo with @bob'),
+        searchTweet('t2', '2', 'spammer', 'free x402 tokens @bob @carol'),
+      ],
+      new Map()
+    );
+
+    const edges = await GraphModel.listInteractions();
+    expect(edges.map((e) => [e.source_username, e.target_username])).toEqual([['alice', 'bob']]);
+  });
+});
@@ -2,37 +2,118 @@ import {
   searchTwitterWithPagination,
   transformRapidApiUser,
   transformRapidApiTweet,
+  transformRapidApiMetrics,
+  transformRapidApiInteractions,
   hasGithubInBio,
   delay,
+  toIsoDate,
   RapidApiTweet,
   RapidApiUserInfo,
+  UserTweetData,
 } from './rapidApiClient.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { AccountModel, TweetModel, SearchQueryModel } from '../db/account.model.js';
+import type { Account, Tweet, TweetSource, SearchCursor } from '../types/index.js';
+import {
+  AccountModel,
+  TweetModel,
+  SearchQueryModel,
+  MetricSnapshotModel,
+  BlocklistModel,
+  GraphModel,
+} from '../db/account.model.js';
 
 export interface SearchCollectorResult {
   tweets: RapidApiTweet[];
   users: Map<string, RapidApiUserInfo>;
   totalFound: number;
+  // Keywords searched only for tweets newer than their stored cursor
+  incrementalKeywords: number;
+}
+
+/**
+ * Whether tweet ID a is newer than b (snowflake IDs grow over time; compared as decimal strings)
+ */
+function isNewerTweetId(a: string, b: string): boolean {
+  return a.length !== b.length ? a.length > b.length : a > b;
+}
+
+/**
+ * Search one keyword, fetching only tweets newer than its stored high-water mark.
+ * The first run (no cursor) searches the configured mode in full; later runs use
+ * Latest with a since_id bound and stop at known tweets. When the page limit is
+ * hit first, the cursor is kept and the next run resumes the same bounded query.
+ */
+async function searchKeywordIncrementally(
+  keyword: string,
+  maxPages: number,
+  state: SearchCursor | null,
+  fullRefresh = false
+): Promise<{ tweets: RapidApiTweet[]; totalPages: number; incremental: boolean }> {
+  const sinceId = fullRefresh ? null : state?.last_cursor ? state.cursor_since_id : state?.newest_tweet_id;
+
+  const result = sinceId
+    ? await searchTwitterWithPagination(`${keyword} since_id:${sinceId}`, maxPages, config.search.delayMs, {
+        searchType: 'Latest',
+        cursor: state?.last_cursor || undefined,
+        isKnown: (tweet) => !isNewerTweetId(tweet.tweet_id, sinceId),
+      })
+    : await searchTwitterWithPagination(keyword, maxPages, config.search.delayMs);
+
+  let newestId = state?.newest_tweet_id || null;
+  let newestAt = state?.newest_tweet_at || null;
+  for (const tweet of result.tweets) {
+    if (!newestId || isNewerTweetId(tweet.tweet_id, newestId)) {
+      newestId = tweet.tweet_id;
+      newestAt = toIsoDate(tweet.created_at);
+    }
+  }
+
+  const backlogLeft = Boolean(sinceId && result.nextCursor);
+  if (backlogLeft) {
+    logger.info(`Page limit reached before known tweets for "${keyword}"; resuming next run`);
+  }
+
+  await SearchQueryModel.saveCursor({
+    query: keyword,
+    newest_tweet_id: newestId,
+    newest_tweet_at: newestAt,
+    last_cursor: backlogLeft ? result.nextCursor! : null,
+    cursor_since_id: backlogLeft ? sinceId! : null,
+    last_run_at: new Date().toISOString(),
+  });
+
+  return { tweets: result.tweets, totalPages: result.totalPages, incremental: Boolean(sinceId) };
 }
 
 /**
  * Search for tweets containing x402-related keywords using RapidAPI
  * Discovers tweet authors from search results
+ * With incremental search enabled, each keyword only fetches tweets newer than
+ * its stored cursor; fullRefresh searches everything again (dropping any pending cursor).
  */
 export async function searchForX402Content(
   keywords: string[] = [...config.searchKeywords.primary, ...config.searchKeywords.secondary],
-  maxPages: number = config.search.maxPages
+  maxPages: number = config.search.maxPages,
+  options: { fullRefresh?: boolean } = {}
 ): Promise<SearchCollectorResult> {
   const allTweets: RapidApiTweet[] = [];
   const allUsers = new Map<string, RapidApiUserInfo>();
+  let incrementalKeywords = 0;
 
   for (const keyword of keywords) {
     try {
       logger.info(`Searching for keyword: "${keyword}"`);
 
-      const result = await searchTwitterWithPagination(keyword, maxPages, config.search.delayMs);
+      let result: { tweets: RapidApiTweet[]; totalPages: number };
+      if (config.search.incremental) {
+        const state = await SearchQueryModel.getCursor(keyword);
+        const keywordResult = await searchKeywordIncrementally(keyword, maxPages, state, options.fullRefresh);
+        if (keywordResult.incremental) incrementalKeywords++;
+        result = keywordResult;
+      } else {
+        result = await searchTwitterWithPagination(keyword, maxPages, config.search.delayMs);
+      }
 
       if (result.tweets && result.tweets.length > 0) {
         allTweets.push(...result.tweets);
@@ -66,39 +147,193 @@ export async function searchForX402Content(
     tweets: allTweets,
     users: allUsers,
     totalFound: allTweets.length,
+    incrementalKeywords,
   };
 }
 
 /**
  * Process discovered users and save to database
+ * Blocklisted users are skipped, so they are neither re-created nor have their tweets saved.
+ * Also records a metrics snapshot per user, with engagement from the given search tweets
+ * @returns Created/updated/blocked counts and a twitter_id -> account_id map
  */
 export async function processDiscoveredUsers(
-  users: Map<string, RapidApiUserInfo>
-): Promise<{ created: number; updated: number }> {
-  let created = 0;
-  let updated = 0;
+  users: Map<string, RapidApiUserInfo>,
+  tweets: RapidApiTweet[] = []
+): Promise<{ created: number; updated: number; blocked: number; accountIds: Map<string, string> }> {
+  const blockedIds = await BlocklistModel.findBlocked(Array.from(users.keys()));
+  const allowedUsers = Array.from(users.values()).filter((userInfo) => !blockedIds.has(userInfo.rest_id));
 
-  const accounts = Array.from(users.values()).map((userInfo) => ({
+  const accounts = allowedUsers.map((userInfo) => ({
     ...transformRapidApiUser(userInfo),
     has_github: hasGithubInBio(userInfo),
   }));
 
-  // Check which accounts exist
-  for (const account of accounts) {
-    const existing = await AccountModel.getByTwitterId(account.twitter_id);
+  // Single set-based upsert; the result tells new rows from existing ones
+  const refs = await AccountModel.bulkUpsertWithIds(accounts);
+  const created = refs.filter((ref) => ref.created).length;
+  const updated = refs.length - created;
+  const accountIds = new Map(refs.map((ref) => [ref.twitter_id, ref.id]));
+
+  // Snapshot metrics so follower growth can be tracked across runs
+  const tweetsByUser = new Map<string, RapidApiTweet[]>();
+  for (const tweet of tweets) {
+    const userId = tweet.user_info?.rest_id;
+    if (userId) {
+      tweetsByUser.set(userId, [...(tweetsByUser.get(userId) || []), tweet]);
+    }
+  }
+  await MetricSnapshotModel.record(
+    allowedUsers.map((userInfo) => ({
+      ...transformRapidApiMetrics(userInfo, tweetsByUser.get(userInfo.rest_id) || []),
+      source: 'discovery' as const,
+    }))
+  );
+
+  logger.info(
+    `Processed ${accounts.length} users: ${created} new, ${updated} existing, ${blockedIds.size} blocklisted skipped`
+  );
+
+  return { created, updated, blocked: blockedIds.size, accountIds };
+}
+
+/**
+ * Record metrics snapshots for users whose tweets were just fetched for analysis.
+ * Profile metrics come from the user_info attached to the fetched tweets, and
+ * engagement is averaged over the general timeline.
+ * @returns Number of snapshots recorded
+ */
+export async function recordEnrichmentSnapshots(userData: UserTweetData[]): Promise<number> {
+  const snapshots = [];
+
+  for (const data of userData) {
+    const username = data.username.toLowerCase();
+    const ownTweet = [...data.generalTweets, ...data.x402Tweets].find(
+      (t) => t.user_info?.rest_id && t.user_info.screen_name?.toLowerCase() === username
+    );
+    // Without a fresh profile there is nothing reliable to snapshot
+    if (!ownTweet) continue;
+
+    snapshots.push({
+      ...transformRapidApiMetrics(ownTweet.user_info, data.generalTweets),
+      source: 'enrichment' as const,
+    });
+  }
+
+  return MetricSnapshotModel.record(snapshots);
+}
+
+/**
+ * Save the tweets fetched for categorization (per-user x402 search and timeline),
+ * linked to the accounts they were fetched for. Tweets by other authors that show
+ * up on a timeline (e.g. retweets) are left out. Their mentions, replies and quotes
+ * are added to the interaction graph.
+ * @returns Number of tweets saved
+ */
+export async function storeFetchedTweets(userData: UserTweetData[], accounts: Account[]): Promise<number> {
+  const accountsByUsername = new Map(accounts.map((a) => [a.username.toLowerCase(), a]));
+  // A tweet in both the x402 search and the timeline becomes one row with both sources
+  const transformedTweets = new Map<string, ReturnType<typeof transformRapidApiTweet>>();
+  const edges: ReturnType<typeof transformRapidApiInteractions> = [];
+  const add = (tweet: RapidApiTweet, account: Account, source: TweetSource) => {
+    const existing = transformedTweets.get(tweet.tweet_id);
     if (existing) {
-      updated++;
+      existing.sources = [...new Set([...existing.sources, source])];
     } else {
-      created++;
+      transformedTweets.set(tweet.tweet_id, transformRapidApiTweet(tweet, account.id!, source));
+      edges.push(...transformRapidApiInteractions(tweet, account));
+    }
+  };
+
+  for (const data of userData) {
+    const username = data.username.toLowerCase();
+    const account = accountsByUsername.get(username);
+    if (!account?.id) continue;
+
+    const ownTweets = (tweets: RapidApiTweet[]) =>
+      tweets.filter((t) => !t.screen_name || t.screen_name.toLowerCase() === username);
+    for (const tweet of ownTweets(data.x402Tweets)) {
+      add(tweet, account, 'user_x402_search');
+    }
+    for (const tweet of ownTweets(data.generalTweets)) {
+      add(tweet, account, 'timeline');
     }
   }
 
-  // Bulk upsert
-  await AccountModel.bulkUpsert(accounts);
+  const saved = await TweetModel.bulkInsert(Array.from(transformedTweets.values()));
+  await GraphModel.addInteractions(edges);
+  return saved;
+}
 
-  logger.info(`Processed ${accounts.length} users: ${created} new, ${updated} existing`);
+/**
+ * Rebuild a RapidAPI-shaped tweet from a stored one so it can be passed to the AI again
+ */
+function toRapidApiTweet(tweet: Tweet, account: Account): RapidApiTweet {
+  return {
+    type: 'tweet',
+    tweet_id: tweet.twitter_id,
+    screen_name: account.username,
+    bookmarks: tweet.bookmarks ?? 0,
+    favorites: tweet.likes,
+    created_at: tweet.created_at,
+    text: tweet.content,
+    lang: tweet.lang ?? '',
+    source: '',
+    quotes: tweet.quotes,
+    replies: tweet.replies,
+    conversation_id: tweet.conversation_id ?? tweet.twitter_id,
+    retweets: tweet.retweets,
+    views: String(tweet.views ?? 0),
+    user_info: {
+      screen_name: account.username,
+      name: account.display_name,
+      created_at: account.account_created_at ?? '',
+      description: account.bio,
+      rest_id: account.twitter_id,
+      followers_count: account.followers_count,
+      favourites_count: account.favourites_count ?? 0,
+      avatar: account.profile_image_url,
+      url: account.website_url ?? null,
+      cover_image: account.cover_image_url ?? null,
+      verified_type: account.verified_type ?? null,
+      verified: account.verified ?? false,
+      friends_count: account.following_count,
+      location: account.location ?? '',
+    },
+    entities: tweet.entities,
+    media: tweet.media,
+  };
+}
 
-  return { created, updated };
+/**
+ * Load the tweets previously fetched for categorization from the database, so
+ * accounts can be re-categorized without calling RapidAPI.
+ * @returns Tweet data for accounts with stored evidence, and the accounts without any
+ */
+export async function loadStoredUserData(
+  accounts: Account[]
+): Promise<{ loaded: UserTweetData[]; missing: Account[] }> {
+  const loaded: UserTweetData[] = [];
+  const missing: Account[] = [];
+
+  for (const account of accounts) {
+    const tweets = account.id ? await TweetModel.getByAccountId(account.id, 500) : [];
+    const x402Tweets = tweets.filter((t) => t.sources?.includes('user_x402_search'));
+    const generalTweets = tweets.filter((t) => t.sources?.includes('timeline'));
+
+    if (x402Tweets.length === 0 && generalTweets.length === 0) {
+      missing.push(account);
+      continue;
+    }
+    loaded.push({
+      username: account.username,
+      x402Tweets: x402Tweets.map((t) => toRapidApiTweet(t, account)),
+      generalTweets: generalTweets.slice(0, config.search.maxTimelineTweets).map((t) => toRapidApiTweet(t, account)),
+    });
+  }
+
+  logger.info(`Loaded stored tweets for ${loaded.length} accounts, ${missing.length} need fetching`);
+  return { loaded, missing };
 }
 
 /**
@@ -108,23 +343,27 @@ export async function processDiscoveredTweets(
   tweets: RapidApiTweet[],
   userAccountMap: Map<string, string> // twitter_id -> account_id
 ): Promise<number> {
-  let savedCount = 0;
-
+  const transformedTweets = [];
   for (const tweet of tweets) {
-    const accountId = userAccountMap.get(tweet.user_info.rest_id);
+    const accountId = userAccountMap.get(tweet.user_info?.rest_id);
     if (accountId) {
-      const transformedTweet = transformRapidApiTweet(tweet, accountId);
-      try {
-        await TweetModel.bulkInsert([transformedTweet]);
-        savedCount++;
-      } catch (error) {
-        // Ignore duplicate tweet errors
-        logger.debug(`Could not save tweet ${tweet.tweet_id}: ${error}`);
-      }
+      transformedTweets.push(transformRapidApiTweet(tweet, accountId, 'keyword_search'));
     }
   }
 
-  logger.info(`Saved ${savedCount} tweets to database`);
+  // Chunked upsert; the same tweet found by several keywords is saved once
+  const savedCount = await TweetModel.bulkInsert(transformedTweets);
+
+  // Mentions, replies and quotes feed the interaction graph, whoever the author is,
+  // unless the author is blocklisted
+  const blockedIds = await BlocklistModel.findBlocked(tweets.map((t) => t.user_info?.rest_id).filter(Boolean));
+  const edgesAdded = await GraphModel.addInteractions(
+    tweets
+      .filter((t) => !blockedIds.has(t.user_info?.rest_id))
+      .flatMap((t) => transformRapidApiInteractions(t))
+  );
+
+  logger.info(`Saved ${savedCount} tweets and ${edgesAdded} interactions to database`);
   return savedCount;
 }
 
@@ -133,33 +372,29 @@ export async function processDiscoveredTweets(
  */
 export async function runFullDiscovery(
   keywords?: string[],
-  maxPages?: number
+  maxPages?: number,
+  options: { fullRefresh?: boolean } = {}
 ): Promise<{
   usersCreated: number;
   usersUpdated: number;
+  usersBlocked: number;
   tweetsSaved: number;
+  incrementalKeywords: number;
 }> {
   // Step 1: Search for x402 content
-  const searchResult = await searchForX402Content(keywords, maxPages);
+  const searchResult = await searchForX402Content(keywords, maxPages, options);
 
-  // Step 2: Save users
-  const { created, updated } = await processDiscoveredUsers(searchResult.users);
-
-  // Step 3: Build user -> account ID map
-  const userAccountMap = new Map<string, string>();
-  for (const [twitterId] of searchResult.users) {
-    const account = await AccountModel.getByTwitterId(twitterId);
-    if (account && account.id) {
-      userAccountMap.set(twitterId, account.id);
-    }
-  }
+  // Step 2: Save users (also yields the user -> account ID map)
+  const { created, updated, blocked, accountIds } = await processDiscoveredUsers(searchResult.users, searchResult.tweets);
 
-  // Step 4: Save tweets
-  const tweetsSaved = await processDiscoveredTweets(searchResult.tweets, userAccountMap);
+  // Step 3: Save tweets
+  const tweetsSaved = await processDiscoveredTweets(searchResult.tweets, accountIds);
 
   return {
     usersCreated: created,
     usersUpdated: updated,
+    usersBlocked: blocked,
     tweetsSaved,
+    incrementalKeywords: searchResult.incrementalKeywords,
   };
 }
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeTweetContent } from './tweetContentAnalyzer.js';
+
+describe('analyzeTweetContent', () => {
+  it('finds fenced code and its language', () => {
+    expect(analyzeTweetContent('```ts\nconst x = await pay();\n```')).toMatchObject({
+      has_code: true,
+      code_evidence: 'code_block',
+      code_languages: ['typescript'],
+    });
+  });
+
+  it('finds inline code spans', () => {
+    expect(analyzeTweetContent('call `client.pay(url)` first').code_evidence).toBe('inline_code');
+    expect(analyzeTweetContent('just x402 hype').has_code).toBe(false);
+  });
+
+  it('extracts repository and package links, skipping GitHub site pages', () => {
+    const analysis = analyzeTweetContent(
+      'see github.com/acme/pay-kit and npmjs.com/package/@acme/x402 and github.com/explore'
+    );
+
+    expect(analysis.has_github).toBe(true);
+    expect(analysis.repo_links).toEqual([
+      { type: 'github', name: 'acme/pay-kit', url: 'https://github.com/acme/pay-kit' },
+      { type: 'npm', name: '@acme/x402', url: 'https://www.npmjs.com/package/@acme/x402' },
+    ]);
+  });
+
+  it('keeps a path segment with a malformed escape as written', () => {
+    expect(analyzeTweetContent('see github.com/foo%E0%A4%A bar').repo_links).toEqual([
+      { type: 'github', name: 'foo%E0%A4%A', url: 'https://github.com/foo%E0%A4%A' },
+    ]);
+  });
+});
@@ -0,0 +1,212 @@
+import type { CodeEvidence, RepoLink, TweetEntities, TweetMedia } from '../types/index.js';
+
+export interface TweetContentAnalysis {
+  has_code: boolean;
+  // Strongest kind of code found, or null
+  code_evidence: CodeEvidence | null;
+  code_languages: string[];
+  repo_links: RepoLink[];
+  has_github: boolean;
+}
+
+// Lines that only make sense as code, per language
+const LANGUAGE_SIGNATURES: Array<{ language: string; patterns: RegExp[] }> = [
+  {
+    language: 'solidity',
+    patterns: [/\bpragma\s+solidity\b/, /\bcontract\s+\w+\s*(is\s+\w+\s*)?\{/, /\bmsg\.sender\b/, /\bfunction\s+\w+\([^)]*\)\s*(public|external|internal|private)\b/],
+  },
+  {
+    language: 'typescript',
+    patterns: [/\binterface\s+\w+\s*\{/, /\b(const|let)\s+\w+\s*:\s*[A-Z]?\w+(\[\])?\s*=/, /\)\s*:\s*Promise<\w+/, /\btype\s+\w+\s*=\s*\{/],
+  },
+  {
+    language: 'javascript',
+    patterns: [/\b(const|let|var)\s+\w+\s*=\s*(await\s+)?[\w.({'"`[]/, /\bconsole\.log\(/, /\brequire\(['"][\w@/.-]+['"]\)/, /\bimport\s+[\w{},\s*]+\s+from\s+['"][\w@/.-]+['"]/, /=>\s*\{/, /\bapp\.(get|post|use)\(/],
+  },
+  {
+    language: 'python',
+    patterns: [/^\s*def\s+\w+\([^)]*\)\s*(->\s*[\w[\], ]+)?:\s*$/m, /^\s*from\s+[\w.]+\s+import\s+\w+/m, /^\s*import\s+\w+(\s+as\s+\w+)?\s*$/m, /\bprint\([^)]*\)/, /^\s*class\s+\w+(\([\w, ]*\))?:\s*$/m],
+  },
+  {
+    language: 'rust',
+    patterns: [/\bfn\s+\w+\s*(<[^>]*>)?\([^)]*\)\s*(->\s*[\w<>&, ]+)?\s*\{/, /\blet\s+mut\s+\w+/, /\bimpl(<[^>]*>)?\s+\w+/, /\bprintln!\(/, /\buse\s+\w+(::\w+)+;/],
+  },
+  {
+    language: 'go',
+    patterns: [/\bfunc\s+(\(\w+\s+\*?\w+\)\s+)?\w+\([^)]*\)/, /^\s*package\s+\w+\s*$/m, /\b\w+\s*:=\s*/, /\bfmt\.\w+\(/],
+  },
+  {
+    language: 'shell',
+    patterns: [/^\s*\$\s+\S+/m, /\b(npm|pnpm|yarn)\s+(i|install|add)\s+[@\w/-]+/, /\bnpx\s+[@\w/-]+/, /\bpip\s+install\s+\w+/, /\bcargo\s+(add|install)\s+\w+/, /\bcurl\s+(-\w+\s+)*https?:\/\//],
+  },
+];
+
+// Names and file extensions that identify the language of a code screenshot
+const LANGUAGE_HINTS: Array<{ language: string; pattern: RegExp }> = [
+  { language: 'solidity', pattern: /\bsolidity\b|\.sol\b/i },
+  { language: 'typescript', pattern: /\btypescript\b|\.tsx?\b/i },
+  { language: 'javascript', pattern: /\bjavascript\b|\bnode\.?js\b|\.m?jsx?\b/i },
+  { language: 'python', pattern: /\bpython\b|\.py\b/i },
+  { language: 'rust', pattern: /\brust\b|\.rs\b/i },
+  { language: 'go', pattern: /\bgolang\b|\.go\b/i },
+];
+
+// Fenced block language tags and the names used here
+const FENCE_LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescript', typescript: 'typescript',
+  js: 'javascript', jsx: 'javascript', javascript: 'javascript',
+  py: 'python', python: 'python',
+  rs: 'rust', rust: 'rust',
+  go: 'go', golang: 'go',
+  sol: 'solidity', solidity: 'solidity',
+  sh: 'shell', bash: 'shell', shell: 'shell', zsh: 'shell',
+};
+
+// A photo captioned like this is most likely a code screenshot
+const SCREENSHOT_CAPTION = /\b(code|snippet|implementation|function|contract|middleware|endpoint|sdk|script|here'?s how|source)\b/i;
+const CODE_IMAGE_HOSTS = /\b(carbon\.now\.sh|ray\.so|snappify\.com)\b/i;
+
+// Line-level punctuation typical of code ("x = f(y);", "if (a) {", "}"), but not prose ending in ";"
+const CODE_LINE = /([)\]'"]\s*;\s*$|[=(].*;\s*$|\{\s*$|^\s*\}|\)\s*\{)/;
+
+// First path segments on github.com that are site pages rather than users
+const GITHUB_RESERVED = new Set([
+  'about', 'features', 'pricing', 'orgs', 'sponsors', 'marketplace', 'settings', 'login', 'join',
+  'explore', 'topics', 'trending', 'collections', 'notifications', 'enterprise', 'site', 'apps',
+]);
+
+function detectLanguages(code: string): string[] {
+  return LANGUAGE_SIGNATURES
+    .filter(({ patterns }) => patterns.some((pattern) => pattern.test(code)))
+    .map(({ language }) => language);
+}
+
+// A malformed escape (e.g. "%E0%A4%A") is kept as written rather than failing the whole tweet
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Parse a URL into a repository or package link, if it is one
+ */
+function parseRepoLink(rawUrl: string): RepoLink | null {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(rawUrl) ? rawUrl : `https://${rawUrl}`);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+
+  if (host === 'github.com' && segments[0] && !GITHUB_RESERVED.has(segments[0].toLowerCase())) {
+    const name = segments.slice(0, 2).join('/').replace(/\.git$/, '');
+    return { type: 'github', name, url: `https://github.com/${name}` };
+  }
+  if (host === 'gist.github.com' && segments[0]) {
+    const name = segments.slice(0, 2).join('/');
+    return { type: 'github', name, url: `https://gist.github.com/${name}` };
+  }
+  if (host === 'npmjs.com' && segments[0] === 'package' && segments[1]) {
+    const name = segments[1].startsWith('@') && segments[2] ? `${segments[1]}/${segments[2]}` : segments[1];
+    return { type: 'npm', name, url: `https://www.npmjs.com/package/${name}` };
+  }
+  if (host === 'pypi.org' && segments[0] === 'project' && segments[1]) {
+    return { type: 'pypi', name: segments[1], url: `https://pypi.org/project/${segments[1]}` };
+  }
+  if (host === 'crates.io' && segments[0] === 'crates' && segments[1]) {
+    return { type: 'crates', name: segments[1], url: `https://crates.io/crates/${segments[1]}` };
+  }
+  return null;
+}
+
+/**
+ * Repository and package links from the tweet's expanded URLs and any URLs in its text
+ */
+function extractRepoLinks(content: string, entities?: TweetEntities): RepoLink[] {
+  const urls = [
+    ...(entities?.urls || []).map((u) => u.expanded_url).filter(Boolean),
+    ...(content.match(/\b(?:https?:\/\/)?(?:www\.)?(?:gist\.github\.com|github\.com|npmjs\.com|pypi\.org|crates\.io)\/[^\s)"'<>]+/gi) || []),
+  ];
+
+  const links = new Map<string, RepoLink>();
+  for (const url of urls) {
+    const link = parseRepoLink(url.replace(/[.,!?:;]+$/, ''));
+    if (link) {
+      links.set(`${link.type}:${link.name.toLowerCase()}`, link);
+    }
+  }
+  return Array.from(links.values());
+}
+
+/**
+ * Find code in a tweet: fenced or multi-line code blocks, inline `code` spans,
+ * and photos that are most likely screenshots of code. Also extracts GitHub,
+ * npm, PyPI and crates.io links.
+ */
+export function analyzeTweetContent(
+  content: string,
+  entities?: TweetEntities,
+  media?: TweetMedia
+): TweetContentAnalysis {
+  const text = content || '';
+  const languages = new Set<string>();
+  let evidence: CodeEvidence | null = null;
+
+  // ```lang ... ``` blocks
+  for (const [, tag, body] of text.matchAll(/```(\w+)?\s*\n?([\s\S]*?)```/g)) {
+    evidence = 'code_block';
+    const tagged = tag && FENCE_LANGUAGES[tag.toLowerCase()];
+    (tagged ? [tagged] : detectLanguages(body)).forEach((language) => languages.add(language));
+  }
+
+  // Unfenced code: two or more lines that read as code, counting indented lines right after code
+  if (!evidence) {
+    const codeLines: string[] = [];
+    let inCode = false;
+    for (const line of text.split('\n')) {
+      inCode = CODE_LINE.test(line) || detectLanguages(line).length > 0 || (inCode && /^\s{2,}\S/.test(line));
+      if (inCode) codeLines.push(line);
+    }
+    if (codeLines.length >= 2) {
+      evidence = 'code_block';
+      detectLanguages(codeLines.join('\n')).forEach((language) => languages.add(language));
+    }
+  }
+
+  // `inline` spans that contain calls, assignments or member access
+  if (!evidence) {
+    const spans = Array.from(text.matchAll(/`([^`\n]{2,120})`/g), ([, span]) => span);
+    const codeSpans = spans.filter(
+      (span) => /[\w\]]\(.*\)|\w\.\w+\(|[=:]\s*\S|^[$>]\s|\w+::\w+|<\w+/.test(span) || detectLanguages(span).length > 0
+    );
+    if (codeSpans.length > 0) {
+      evidence = 'inline_code';
+      detectLanguages(codeSpans.join('\n')).forEach((language) => languages.add(language));
+    }
+  }
+
+  const hasPhoto = (media?.photo?.length || 0) > 0;
+  if (!evidence && hasPhoto && (SCREENSHOT_CAPTION.test(text) || CODE_IMAGE_HOSTS.test(text))) {
+    evidence = 'screenshot';
+  }
+
+  // A screenshot's language can only come from the caption
+  if (evidence === 'screenshot' || (evidence && languages.size === 0)) {
+    LANGUAGE_HINTS.filter(({ pattern }) => pattern.test(text)).forEach(({ language }) => languages.add(language));
+  }
+
+  const repoLinks = extractRepoLinks(text, entities);
+
+  return {
+    has_code: evidence !== null,
+    code_evidence: evidence,
+    code_languages: Array.from(languages),
+    repo_links: repoLinks,
+    has_github: repoLinks.some((link) => link.type === 'github'),
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { extractTweetLinks, normalizeLink, registrableDomain } from './tweetLinks.js';
+
+describe('normalizeLink', () => {
+  it('drops www, the fragment, tracking parameters and the trailing slash', () => {
+    expect(normalizeLink('http://WWW.Example.com/docs/?utm_source=x&b=2&a=1#intro')).toEqual({
+      url: 'https://example.com/docs?a=1&b=2',
+      host: 'example.com',
+      domain: 'example.com',
+    });
+  });
+
+  it('drops share parameters from Twitter links only', () => {
+    expect(normalizeLink('https://x.com/alice/status/1?s=20&t=abc')?.url).toBe('https://x.com/alice/status/1');
+    expect(normalizeLink('https://example.com/?s=20')?.url).toBe('https://example.com?s=20');
+  });
+
+  it('rejects non-web URLs and bare words', () => {
+    expect(normalizeLink('ftp://example.com/file')).toBeNull();
+    expect(normalizeLink('localhost')).toBeNull();
+  });
+});
+
+describe('registrableDomain', () => {
+  it('keeps subdomains of shared suffixes apart', () => {
+    expect(registrableDomain('docs.example.com')).toBe('example.com');
+    expect(registrableDomain('alice.substack.com')).toBe('alice.substack.com');
+    expect(registrableDomain('shop.example.co.uk')).toBe('example.co.uk');
+  });
+});
+
+describe('extractTweetLinks', () => {
+  it('prefers the expanded URLs from the entities', () => {
+    const links = extractTweetLinks('read https://t.co/abc', { urls: [{ expanded_url: 'https://example.com/post' }] });
+
+    expect(links.map((l) => l.url)).toEqual(['https://example.com/post']);
+  });
+
+  it('falls back to URLs in the text, without trailing punctuation or duplicates', () => {
+    const links = extractTweetLinks('see https://example.com/a. and (https://example.com/a/) now!');
+
+    expect(links.map((l) => l.url)).toEqual(['https://example.com/a']);
+  });
+});
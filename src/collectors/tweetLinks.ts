@@ -0,0 +1,95 @@
+import type { TweetEntities, TweetLink } from '../types/index.js';
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = [
+  /^utm_/, /^fbclid$/, /^gclid$/, /^gclsrc$/, /^dclid$/, /^msclkid$/, /^yclid$/, /^twclid$/,
+  /^mc_(cid|eid)$/, /^igshid$/, /^si$/, /^ref$/, /^ref_(src|url)$/, /^_ga$/, /^_gl$/,
+];
+
+// Share parameters Twitter/X appends to status links
+const TWITTER_SHARE_PARAMS = new Set(['s', 't']);
+const TWITTER_HOSTS = new Set(['twitter.com', 'x.com', 't.co', 'mobile.twitter.com', 'pic.twitter.com']);
+
+// Suffixes under which each subdomain is a separate site (country second-level
+// domains and hosting platforms), so "alice.substack.com" is its own domain
+const SHARED_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'com.au', 'net.au', 'co.jp', 'co.kr', 'co.in', 'com.br', 'com.cn', 'com.sg', 'com.tr',
+  'github.io', 'gitbook.io', 'vercel.app', 'netlify.app', 'pages.dev', 'substack.com', 'mirror.xyz', 'notion.site',
+]);
+
+/**
+ * Domain a host belongs to: the last two labels, or three under a shared suffix
+ */
+export function registrableDomain(host: string): string {
+  const labels = host.split('.');
+  if (labels.length <= 2) {
+    return host;
+  }
+  const lastTwo = labels.slice(-2).join('.');
+  return SHARED_SUFFIXES.has(lastTwo) ? labels.slice(-3).join('.') : lastTwo;
+}
+
+/**
+ * Whether a domain belongs to Twitter/X itself (quoted tweets, profile links)
+ */
+export function isTwitterDomain(domain: string): boolean {
+  return TWITTER_HOSTS.has(domain);
+}
+
+/**
+ * Normalize a URL: https, lowercase host without "www.", no fragment, no
+ * tracking parameters, no trailing slash. Returns null for non-web URLs.
+ */
+export function normalizeLink(rawUrl: string): TweetLink | null {
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(rawUrl) ? rawUrl : `https://${rawUrl}`);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+  if (!host.includes('.')) {
+    return null;
+  }
+
+  const twitter = TWITTER_HOSTS.has(host);
+  for (const key of [...url.searchParams.keys()]) {
+    const name = key.toLowerCase();
+    if (TRACKING_PARAMS.some((pattern) => pattern.test(name)) || (twitter && TWITTER_SHARE_PARAMS.has(name))) {
+      url.searchParams.delete(key);
+    }
+  }
+  url.searchParams.sort();
+
+  const pathname = url.pathname.replace(/\/+$/, '');
+  const query = url.searchParams.toString();
+  return {
+    url: `https://${host}${url.port ? `:${url.port}` : ''}${pathname}${query ? `?${query}` : ''}`,
+    host,
+    domain: registrableDomain(host),
+  };
+}
+
+/**
+ * Every link in a tweet: the expanded URLs from its entities, or URLs written
+ * out in the text when the entities have none. Duplicates are dropped.
+ */
+export function extractTweetLinks(content: string, entities?: TweetEntities): TweetLink[] {
+  const expanded = (entities?.urls || []).map((u) => u.expanded_url).filter(Boolean);
+  const urls = expanded.length > 0
+    ? expanded
+    : (content || '').match(/\bhttps?:\/\/[^\s<>"')]+/gi) || [];
+
+  const links = new Map<string, TweetLink>();
+  for (const url of urls) {
+    const link = normalizeLink(url.replace(/[.,!?:;]+$/, ''));
+    if (link && !links.has(link.url)) {
+      links.set(link.url, link);
+    }
+  }
+  return Array.from(links.values());
+}
@@ -0,0 +1,54 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { createRapidApiProvider } from './rapidApiProvider.js';
+import { createFixtureProvider } from './fixtureProvider.js';
+import type { RapidApiTweet, RapidApiUserInfo } from './rapidApiClient.js';
+
+// One page of tweets and the cursor for the next page, if there is one
+export interface TweetPage {
+  tweets: RapidApiTweet[];
+  nextCursor?: string;
+}
+
+export interface SearchOptions {
+  searchType?: string;
+  cursor?: string;
+}
+
+/**
+ * A source of Twitter data. Providers return tweets and users in the
+ * twitter-api45 shapes (RapidApiTweet / RapidApiUserInfo) and throw on failure.
+ */
+export interface TwitterDataProvider {
+  name: string;
+  // One page of search results for a query
+  search(query: string, options?: SearchOptions): Promise<TweetPage>;
+  // One page of a user's recent tweets
+  getTimeline(username: string, options?: { cursor?: string }): Promise<TweetPage>;
+  // Profile lookup by username, or null if the user does not exist
+  getUser(username: string): Promise<RapidApiUserInfo | null>;
+}
+
+let provider: TwitterDataProvider | null = null;
+
+/**
+ * Get the active Twitter data provider, creating it from config on first use
+ */
+export function getTwitterProvider(): TwitterDataProvider {
+  if (!provider) {
+    if (config.twitter.provider === 'fixture') {
+      provider = createFixtureProvider({ dir: config.twitter.fixtureDir });
+    } else {
+      provider = createRapidApiProvider();
+    }
+    logger.debug(`Using ${provider.name} Twitter data provider`);
+  }
+  return provider;
+}
+
+/**
+ * Override the active Twitter data provider (e.g. a fixture provider in tests)
+ */
+export function setTwitterProvider(next: TwitterDataProvider): void {
+  provider = next;
+}
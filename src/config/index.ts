@@ -1,6 +1,9 @@
 import dotenv from 'dotenv';
+import { loadKeywordDefinitions } from './keywords.js';
 dotenv.config();
 
+const keywords = loadKeywordDefinitions();
+
 export const config = {
   // Server
   port: parseInt(process.env.PORT || '3000', 10),
@@ -13,27 +16,66 @@ export const config = {
     serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
   },
 
+  // Direct Postgres connection (Supabase connection string), used by migrations
+  database: {
+    url: process.env.DATABASE_URL || '',
+  },
+
+  // Storage backend: 'supabase' (default) or 'memory' for local runs and tests
+  storage: {
+    backend: (process.env.STORAGE_BACKEND === 'memory' ? 'memory' : 'supabase') as 'supabase' | 'memory',
+    // Optional JSON file the memory backend loads from and saves to (empty = memory only)
+    memoryFile: process.env.MEMORY_STORAGE_FILE || '',
+  },
+
   // Redis (only needed if workers are enabled)
   redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
   enableWorkers: process.env.ENABLE_WORKERS === 'true',
 
+  // Twitter data provider: 'rapidapi' (default) or 'fixture' to replay recorded responses offline
+  twitter: {
+    provider: (process.env.TWITTER_PROVIDER === 'fixture' ? 'fixture' : 'rapidapi') as 'rapidapi' | 'fixture',
+    // Directory the fixture provider reads search/, timeline/ and users/ responses from
+    fixtureDir: process.env.TWITTER_FIXTURE_DIR || 'fixtures/twitter',
+  },
+
   // RapidAPI for Twitter Search
   rapidApi: {
     key: process.env.RAPIDAPI_KEY || '',
     host: process.env.RAPIDAPI_HOST || 'twitter-api45.p.rapidapi.com',
+    // Cassette: 'record' saves every request/response to the file, 'replay' serves them back offline
+    cassette: {
+      mode: (['record', 'replay'].includes(process.env.RAPIDAPI_CASSETTE_MODE || '')
+        ? process.env.RAPIDAPI_CASSETTE_MODE
+        : 'off') as 'off' | 'record' | 'replay',
+      file: process.env.RAPIDAPI_CASSETTE_FILE || '.data/rapidapi-cassette.json',
+    },
+    // Shared token-bucket limiter every RapidAPI request goes through
+    rateLimit: {
+      requestsPerSecond: parseFloat(process.env.RAPIDAPI_REQUESTS_PER_SECOND || '1'),
+      burst: parseInt(process.env.RAPIDAPI_BURST || '3', 10),
+      // Per-endpoint rates (e.g. "search.php=0.5,timeline.php=1")
+      endpointRequestsPerSecond: Object.fromEntries(
+        (process.env.RAPIDAPI_ENDPOINT_RATES || '')
+          .split(',')
+          .map((entry) => entry.split('=').map((part) => part.trim()))
+          .filter(([endpoint, rate]) => endpoint && rate && !Number.isNaN(parseFloat(rate)))
+          .map(([endpoint, rate]) => [`/${endpoint.replace(/^\//, '')}`, parseFloat(rate)])
+      ) as Record<string, number>,
+      maxRetries: parseInt(process.env.RAPIDAPI_MAX_RETRIES || '4', 10),
+      retryBaseDelayMs: parseInt(process.env.RAPIDAPI_RETRY_BASE_DELAY_MS || '1000', 10),
+      // Longer Retry-After or quota resets fail the request instead of waiting
+      maxRetryDelayMs: parseInt(process.env.RAPIDAPI_MAX_RETRY_DELAY_MS || '60000', 10),
+    },
   },
 
-  // Search keywords (comma-separated in env)
+  // Keyword definitions shared by keyword search and tweet tagging
+  keywords,
+
+  // Search queries derived from the keyword definitions
   searchKeywords: {
-    primary: (process.env.SEARCH_KEYWORDS_PRIMARY || 'x402,#x402,x402 protocol,HTTP 402')
-      .split(',')
-      .map((k) => k.trim())
-      .filter((k) => k.length > 0),
-    // secondary: (process.env.SEARCH_KEYWORDS_SECONDARY || '402 payment,crypto payments API,web monetization')
-    //   .split(',')
-    //   .map((k) => k.trim())
-    //   .filter((k) => k.length > 0),
-    secondary: [],
+    primary: keywords.filter((k) => k.tier === 'primary' && k.query).map((k) => k.query!),
+    secondary: keywords.filter((k) => k.tier === 'secondary' && k.query).map((k) => k.query!),
   },
 
   // Search settings
@@ -42,7 +84,55 @@ export const config = {
     maxPagesPerUser: parseInt(process.env.SEARCH_MAX_PAGES_PER_USER || '3', 10),
     delayMs: parseInt(process.env.SEARCH_DELAY_MS || '2000', 10),
     searchType: process.env.SEARCH_TYPE || 'Top',
+    // Recurring keyword searches only fetch tweets newer than each keyword's stored cursor
+    incremental: process.env.SEARCH_INCREMENTAL !== 'false',
     maxTimelineTweets: parseInt(process.env.MAX_TIMELINE_TWEETS || '50', 10),
+    // Timeline paging stops at MAX_TIMELINE_TWEETS, tweets older than the lookback, or the page cap
+    timelineLookbackDays: parseInt(process.env.TIMELINE_LOOKBACK_DAYS || '90', 10),
+    maxTimelinePages: parseInt(process.env.MAX_TIMELINE_PAGES || '5', 10),
+    // Secondary categorization reuses tweets stored by earlier fetches instead of calling RapidAPI again
+    reuseStoredTweets: process.env.REUSE_STORED_TWEETS === 'true',
+  },
+
+  // Discovery of accounts that KOLs and developers mention or reply to
+  graphDiscovery: {
+    enabled: process.env.GRAPH_DISCOVERY_ENABLED !== 'false',
+    // Candidates profiled and queued for categorization per run
+    maxCandidates: parseInt(process.env.GRAPH_DISCOVERY_MAX_CANDIDATES || '20', 10),
+    // Distinct trusted accounts that must point at a candidate
+    minSources: parseInt(process.env.GRAPH_DISCOVERY_MIN_SOURCES || '2', 10),
+  },
+
+  // GitHub enrichment of developer candidates: 'api' (default) or 'fixture' to read recorded responses
+  github: {
+    enabled: process.env.GITHUB_ENRICHMENT_ENABLED !== 'false',
+    provider: (process.env.GITHUB_PROVIDER === 'fixture' ? 'fixture' : 'api') as 'api' | 'fixture',
+    // Optional; unauthenticated requests are limited to 60 per hour
+    token: process.env.GITHUB_TOKEN || '',
+    // Directory the fixture provider reads users/, repos/, events/ and files/ from
+    fixtureDir: process.env.GITHUB_FIXTURE_DIR || 'fixtures/github',
+    // Recently pushed repositories per account whose package.json is checked for x402 dependencies
+    maxManifestChecks: parseInt(process.env.GITHUB_MAX_MANIFEST_CHECKS || '5', 10),
+    // Stored profiles younger than this are reused instead of fetched again
+    refreshDays: parseInt(process.env.GITHUB_REFRESH_DAYS || '7', 10),
+  },
+
+  // Rules that reject accounts before KOL categorization, without an AI call
+  prefilter: {
+    enabled: process.env.PREFILTER_ENABLED !== 'false',
+    // 0 turns a minimum off
+    minFollowers: parseInt(process.env.PREFILTER_MIN_FOLLOWERS || '10', 10),
+    minAccountAgeDays: parseInt(process.env.PREFILTER_MIN_ACCOUNT_AGE_DAYS || '30', 10),
+    minTweetCount: parseInt(process.env.PREFILTER_MIN_TWEET_COUNT || '20', 10),
+    // Case-insensitive regexes, separated by ";" (empty turns the rule off)
+    bioPatterns: (process.env.PREFILTER_BIO_PATTERNS ?? '\\b(co-?)?founder\\b;\\bceo\\b;\\bofficial\\b')
+      .split(';')
+      .map((pattern) => pattern.trim())
+      .filter(Boolean),
+    // Reject when at least this share of the timeline is retweets (1 turns the rule off)
+    maxRetweetRatio: parseFloat(process.env.PREFILTER_MAX_RETWEET_RATIO || '0.9'),
+    // Timeline tweets needed before the retweet ratio is trusted
+    minTimelineTweets: parseInt(process.env.PREFILTER_MIN_TIMELINE_TWEETS || '10', 10),
   },
 
   // Batch processing settings for improved performance
@@ -71,13 +161,16 @@ export const config = {
     model: process.env.OPENROUTER_MODEL || 'xiaomi/mimo-v2-flash:free',
   },
 
-  // Categorization thresholds
+  // Categorization thresholds; the KOL ones are defaults that PUT /api/settings/kol-thresholds overrides
   thresholds: {
     kol: {
+      // 0 turns a minimum off
       minFollowers: parseInt(process.env.KOL_MIN_FOLLOWERS || '1000', 10),
       minEngagementScore: parseInt(process.env.KOL_MIN_ENGAGEMENT_SCORE || '50', 10),
       minX402Relevance: parseInt(process.env.KOL_MIN_X402_RELEVANCE || '30', 10),
       minX402Tweets30d: parseInt(process.env.KOL_MIN_X402_TWEETS_30D || '3', 10),
+      // KOL verdicts below a threshold are kept and marked for review, or saved as UNCATEGORIZED with 'downgrade'
+      action: (process.env.KOL_THRESHOLD_ACTION === 'downgrade' ? 'downgrade' : 'review') as 'downgrade' | 'review',
     },
     // Commented out - focusing on KOL only for now. May be required in future.
     // developer: {
@@ -91,12 +184,20 @@ export const config = {
 
 // Validate required config
 export function validateConfig(): void {
-  const required = [
-    ['SUPABASE_URL', config.supabase.url],
-    ['SUPABASE_SERVICE_ROLE_KEY', config.supabase.serviceRoleKey],
-    ['RAPIDAPI_KEY', config.rapidApi.key],
-    ['OPENROUTER_API_KEY', config.openRouter.apiKey],
-  ];
+  const required = [['OPENROUTER_API_KEY', config.openRouter.apiKey]];
+
+  // The RapidAPI key is only needed when RapidAPI is called for real
+  if (config.twitter.provider === 'rapidapi' && config.rapidApi.cassette.mode !== 'replay') {
+    required.push(['RAPIDAPI_KEY', config.rapidApi.key]);
+  }
+
+  // Supabase credentials are only needed when it is the storage backend
+  if (config.storage.backend === 'supabase') {
+    required.push(
+      ['SUPABASE_URL', config.supabase.url],
+      ['SUPABASE_SERVICE_ROLE_KEY', config.supabase.serviceRoleKey]
+    );
+  }
 
   const missing = required.filter(([, value]) => !value).map(([key]) => key);
 
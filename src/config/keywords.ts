@@ -0,0 +1,112 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+
+/**
+ * How a keyword is found in tweet text:
+ * - word: whole words/phrases, case-insensitive ("x402" does not match "x4020")
+ * - hashtag / cashtag: "#x402" / "$X402", also read from the tweet's entities
+ * - regex: a case-insensitive pattern
+ */
+export type KeywordRule = 'word' | 'hashtag' | 'cashtag' | 'regex';
+
+// One keyword, shared by keyword search (query) and tweet tagging (rule + weight)
+export interface KeywordDefinition {
+  // Label recorded in x402_keywords_found
+  keyword: string;
+  rule: KeywordRule;
+  // Regex source, for the regex rule
+  pattern: string | null;
+  // Added to a tweet's x402_keyword_score when matched
+  weight: number;
+  // Twitter search query, or null for keywords that only tag tweets
+  query: string | null;
+  tier: 'primary' | 'secondary';
+}
+
+const DEFAULT_WEIGHTS = { primary: 1, secondary: 0.5 };
+
+const keywordFileSchema = z.array(
+  z.object({
+    keyword: z.string().trim().min(1),
+    rule: z.enum(['word', 'hashtag', 'cashtag', 'regex']).optional(),
+    pattern: z.string().min(1).optional(),
+    weight: z.number().nonnegative().optional(),
+    // false = tag only; regex keywords are only searched with an explicit query
+    search: z.boolean().optional(),
+    query: z.string().trim().min(1).optional(),
+    tier: z.enum(['primary', 'secondary']).default('primary'),
+  }).refine((entry) => entry.rule !== 'regex' || entry.pattern, {
+    message: 'regex keywords need a pattern',
+  })
+);
+
+/**
+ * Rule implied by a plain keyword: "#tag" is a hashtag, "$TICKER" a cashtag, anything else words
+ */
+function inferRule(keyword: string): KeywordRule {
+  if (/^#[\p{L}\p{N}_]+$/u.test(keyword)) return 'hashtag';
+  if (/^\$[A-Za-z][A-Za-z0-9_]*$/.test(keyword)) return 'cashtag';
+  return 'word';
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((k) => k.trim()).filter((k) => k.length > 0);
+}
+
+/**
+ * Keywords from a JSON file (see README, "Keyword Matching")
+ */
+function loadKeywordFile(filePath: string): KeywordDefinition[] {
+  let entries: z.infer<typeof keywordFileSchema>;
+  try {
+    entries = keywordFileSchema.parse(JSON.parse(fs.readFileSync(path.resolve(filePath), 'utf8')));
+  } catch (error) {
+    throw new Error(`Invalid keywords file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return entries.map((entry) => {
+    const rule = entry.rule || (entry.pattern ? 'regex' : inferRule(entry.keyword));
+    const searched = entry.search ?? (rule !== 'regex' || Boolean(entry.query));
+    return {
+      keyword: entry.keyword,
+      rule,
+      pattern: rule === 'regex' ? entry.pattern! : null,
+      weight: entry.weight ?? DEFAULT_WEIGHTS[entry.tier],
+      query: searched ? entry.query || entry.keyword : null,
+      tier: entry.tier,
+    };
+  });
+}
+
+/**
+ * Keyword definitions from KEYWORDS_FILE, or else from the comma-separated env lists:
+ * SEARCH_KEYWORDS_PRIMARY are searched and tagged, TAG_KEYWORDS are only tagged
+ */
+export function loadKeywordDefinitions(): KeywordDefinition[] {
+  if (process.env.KEYWORDS_FILE) {
+    return loadKeywordFile(process.env.KEYWORDS_FILE);
+  }
+
+  const primary = splitList(process.env.SEARCH_KEYWORDS_PRIMARY || 'x402,#x402,x402 protocol,HTTP 402');
+  const tagOnly = splitList(process.env.TAG_KEYWORDS ?? '402 payment,crypto payments API,web monetization');
+
+  return [
+    ...primary.map((keyword) => ({
+      keyword,
+      rule: inferRule(keyword),
+      pattern: null,
+      weight: DEFAULT_WEIGHTS.primary,
+      query: keyword,
+      tier: 'primary' as const,
+    })),
+    ...tagOnly.map((keyword) => ({
+      keyword,
+      rule: inferRule(keyword),
+      pattern: null,
+      weight: DEFAULT_WEIGHTS.secondary,
+      query: null,
+      tier: 'secondary' as const,
+    })),
+  ];
+}
@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { setStorage } from './storage.js';
+import { createMemoryStorage } from './memoryStorage.js';
+import {
+  AccountModel,
+  BlocklistModel,
+  CategorizationHistoryModel,
+  SearchQueryModel,
+  TweetModel,
+} from './account.model.js';
+import { makeAccount, makeTweet } from '../test/fixtures.js';
+
+const verdict = {
+  ai_category: 'KOL',
+  ai_reasoning: 'Explains x402 in depth',
+  ai_confidence: 0.9,
+  topic_consistency_score: 0.8,
+  content_depth_score: 0.7,
+  topic_focus_score: 0.6,
+  red_flags: [],
+  primary_topics: ['x402'],
+};
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+});
+
+describe('AccountModel', () => {
+  it('upserts on twitter_id', async () => {
+    const created = await AccountModel.upsert(makeAccount({ twitter_id: '1', followers_count: 10 }));
+    const updated = await AccountModel.upsert(makeAccount({ twitter_id: '1', followers_count: 20 }));
+
+    expect(updated?.id).toBe(created?.id);
+    expect((await AccountModel.getByTwitterId('1'))?.followers_count).toBe(20);
+  });
+
+  it('reports which rows bulkUpsertWithIds created', async () => {
+    await AccountModel.upsert(makeAccount({ twitter_id: '1' }));
+    const refs = await AccountModel.bulkUpsertWithIds([makeAccount({ twitter_id: '1' }), makeAccount({ twitter_id: '2' })]);
+
+    expect(refs.map((r) => [r.twitter_id, r.created])).toEqual([['1', false], ['2', true]]);
+  });
+
+  it('keeps the stored tweet_count when an upsert leaves it out', async () => {
+    await AccountModel.upsert(makeAccount({ twitter_id: '1', tweet_count: 500 }));
+    const { tweet_count: _, ...withoutCount } = makeAccount({ twitter_id: '1', followers_count: 20 });
+    await AccountModel.bulkUpsertWithIds([withoutCount]);
+
+    expect(await AccountModel.getByTwitterId('1')).toMatchObject({ tweet_count: 500, followers_count: 20 });
+  });
+
+  it('filters, sorts and paginates the list', async () => {
+    await AccountModel.bulkUpsert([
+      makeAccount({ twitter_id: '1', followers_count: 300, has_github: true }),
+      makeAccount({ twitter_id: '2', followers_count: 100 }),
+      makeAccount({ twitter_id: '3', followers_count: 200, has_github: true }),
+    ]);
+
+    const result = await AccountModel.list({ hasGithub: true }, 1, 1, 'followers_count', 'asc');
+
+    expect(result.data.map((a) => a.twitter_id)).toEqual(['3']);
+    expect(result.pagination).toEqual({ page: 1, limit: 1, total: 2, totalPages: 2 });
+  });
+
+  it('applies score filters and an explicit sort to searches', async () => {
+    await AccountModel.bulkUpsert([
+      makeAccount({ twitter_id: '1', bio: 'x402 x402 builder', tech_score: 40, engagement_score: 10 }),
+      makeAccount({ twitter_id: '2', bio: 'x402 fan', tech_score: 90, engagement_score: 70 }),
+      makeAccount({ twitter_id: '3', bio: 'x402 news', tech_score: 10, engagement_score: 90 }),
+      makeAccount({ twitter_id: '4', bio: 'cooking', tech_score: 99, engagement_score: 99 }),
+    ]);
+
+    const ranked = await AccountModel.list({ query: 'x402', minTechScore: 20 });
+    const sorted = await AccountModel.list({ query: 'x402' }, 1, 10, 'engagement_score', 'desc');
+
+    expect(ranked.data.map((a) => a.twitter_id).sort()).toEqual(['1', '2']);
+    expect(sorted.data.map((a) => a.twitter_id)).toEqual(['3', '2', '1']);
+  });
+
+  it('searches archived accounts only when asked for', async () => {
+    await AccountModel.upsert(makeAccount({ twitter_id: '1', bio: 'x402 builder' }));
+    const archived = await AccountModel.upsert(makeAccount({ twitter_id: '2', bio: 'x402 spammer' }));
+    await AccountModel.archive(archived!.id!);
+
+    const active = await AccountModel.list({ query: 'x402' });
+    const found = await AccountModel.list({ query: 'x402', archived: true });
+
+    expect(active.data.map((a) => a.twitter_id)).toEqual(['1']);
+    expect(found.data.map((a) => a.twitter_id)).toEqual(['2']);
+  });
+
+  it('hides archived accounts until restored', async () => {
+    const account = await AccountModel.upsert(makeAccount({ twitter_id: '1' }));
+
+    await AccountModel.archive(account!.id!);
+    expect((await AccountModel.list()).data).toHaveLength(0);
+    expect((await AccountModel.list({ archived: true })).data).toHaveLength(1);
+
+    await AccountModel.restore(account!.id!);
+    expect((await AccountModel.list()).data).toHaveLength(1);
+  });
+
+  it('records every categorization in the history', async () => {
+    const account = await AccountModel.upsert(makeAccount({ twitter_id: '1' }));
+
+    await AccountModel.updateAICategoryEnhanced('1', verdict, { source: 'crawl', model: 'm', promptVersion: 'v1' });
+    await AccountModel.updateAICategory(
+      '1',
+      { ai_category: 'DEVELOPER', ai_reasoning: 'Manual', ai_confidence: 1 },
+      { source: 'manual' }
+    );
+
+    expect((await AccountModel.getByTwitterId('1'))?.ai_category).toBe('DEVELOPER');
+    const history = await CategorizationHistoryModel.getByAccountId(account!.id!);
+    expect(history.map((h) => [h.category, h.source, h.prompt_version])).toEqual([
+      ['DEVELOPER', 'manual', null],
+      ['KOL', 'crawl', 'v1'],
+    ]);
+  });
+
+  it('records no history for bulk updates that matched no account', async () => {
+    const account = await AccountModel.upsert(makeAccount({ twitter_id: '1' }));
+
+    const result = await AccountModel.bulkUpdateAICategoryEnhanced(
+      [{ twitter_id: '1', ...verdict }, { twitter_id: 'missing', ...verdict }],
+      { source: 'crawl' }
+    );
+
+    expect(result).toEqual({ success: 1, failed: 1, updated: ['1'] });
+    expect(await CategorizationHistoryModel.getByAccountId(account!.id!)).toHaveLength(1);
+  });
+
+  it('only lists accounts without a category as uncategorized', async () => {
+    await AccountModel.bulkUpsert([makeAccount({ twitter_id: '1' }), makeAccount({ twitter_id: '2' })]);
+    await AccountModel.bulkUpdateAICategoryEnhanced([{ twitter_id: '1', ...verdict }], { source: 'crawl' });
+
+    expect((await AccountModel.getUncategorizedAccounts()).map((a) => a.twitter_id)).toEqual(['2']);
+  });
+});
+
+describe('TweetModel', () => {
+  it('merges the sources of a tweet fetched twice', async () => {
+    const account = await AccountModel.upsert(makeAccount({ twitter_id: '1' }));
+    await TweetModel.bulkInsert([makeTweet({ twitter_id: 't1', account_id: account!.id!, sources: ['keyword_search'] })]);
+    await TweetModel.bulkInsert([makeTweet({ twitter_id: 't1', account_id: account!.id!, sources: ['timeline'] })]);
+
+    const tweets = await TweetModel.getByAccountId(account!.id!);
+    expect(tweets).toHaveLength(1);
+    expect(tweets[0].sources.sort()).toEqual(['keyword_search', 'timeline']);
+    expect(await TweetModel.getByAccountId(account!.id!, 10, 'user_x402_search')).toHaveLength(0);
+  });
+
+  it('returns tweets newest first', async () => {
+    const account = await AccountModel.upsert(makeAccount({ twitter_id: '1' }));
+    await TweetModel.bulkInsert([
+      makeTweet({ twitter_id: 'old', account_id: account!.id!, created_at: '2024-01-01T00:00:00.000Z' }),
+      makeTweet({ twitter_id: 'new', account_id: account!.id!, created_at: '2024-02-01T00:00:00.000Z' }),
+    ]);
+
+    expect((await TweetModel.getByAccountId(account!.id!)).map((t) => t.twitter_id)).toEqual(['new', 'old']);
+  });
+
+  it('deletes an account\'s tweets with the account', async () => {
+    const account = await AccountModel.upsert(makeAccount({ twitter_id: '1' }));
+    await TweetModel.bulkInsert([makeTweet({ twitter_id: 't1', account_id: account!.id! })]);
+
+    await AccountModel.delete(account!.id!);
+    expect(await TweetModel.getByAccountId(account!.id!)).toHaveLength(0);
+  });
+});
+
+describe('SearchQueryModel', () => {
+  it('returns the newest queries first', async () => {
+    await SearchQueryModel.log('x402', 5);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await SearchQueryModel.log('#x402', 2);
+
+    expect((await SearchQueryModel.getHistory(1)).map((q) => q.query)).toEqual(['#x402']);
+  });
+});
+
+describe('BlocklistModel', () => {
+  it('reports which accounts are blocked', async () => {
+    await BlocklistModel.add({ twitter_id: '1', username: 'spam', reason: 'spam', added_by: 'test' });
+
+    expect([...(await BlocklistModel.findBlocked(['1', '2']))]).toEqual(['1']);
+    expect(await BlocklistModel.remove('1')).toBe(true);
+    expect((await BlocklistModel.findBlocked(['1'])).size).toBe(0);
+  });
+});
@@ -1,437 +1,297 @@
-import { getSupabase } from './supabase.js';
-import type { Account, Tweet, AccountFilters, PaginatedResponse } from '../types/index.js';
-
-const supabase = getSupabase();
-
-export const AccountModel = {
+import { getStorage } from './storage.js';
+import type {
+  AccountStore,
+  TweetStore,
+  SearchQueryStore,
+  CategorizationHistoryStore,
+  MetricSnapshotStore,
+  CrawlRunStore,
+  BlocklistStore,
+  GraphStore,
+  GithubProfileStore,
+  SettingsStore,
+  AICategoryUpdate,
+  EnhancedAICategoryUpdate,
+  BulkUpdateResult,
+  NewCategorizationHistoryEntry,
+} from './storage.js';
+import type { CategorizationSource } from '../types/index.js';
+
+// Models resolve the storage backend on each call (not at import time), so the
+// backend selected through config - or injected with setStorage() - is used.
+
+// Who produced a categorization verdict, saved alongside it in the history
+export interface CategorizationMeta {
+  source: CategorizationSource;
+  model?: string | null;
+  promptVersion?: string | null;
+}
+
+type CategorizationWrites =
+  | 'updateAICategory'
+  | 'updateAICategoryEnhanced'
+  | 'bulkUpdateAICategoryEnhanced'
+  | 'bulkUpdateAICategorization';
+
+// Categorization writes take a CategorizationMeta so every verdict lands in the history
+export interface AccountModelApi extends Omit<AccountStore, CategorizationWrites> {
+  updateAICategory(twitterId: string, data: AICategoryUpdate, meta: CategorizationMeta): Promise<boolean>;
+  updateAICategoryEnhanced(
+    twitterId: string,
+    data: EnhancedAICategoryUpdate,
+    meta: CategorizationMeta
+  ): Promise<boolean>;
+  bulkUpdateAICategoryEnhanced(
+    updates: Array<EnhancedAICategoryUpdate & { twitter_id: string }>,
+    meta: CategorizationMeta
+  ): Promise<BulkUpdateResult>;
+  bulkUpdateAICategorization(
+    updates: Array<AICategoryUpdate & { twitter_id: string }>,
+    meta: CategorizationMeta
+  ): Promise<BulkUpdateResult>;
+}
+
+function toHistoryEntry(
+  twitterId: string,
+  data: AICategoryUpdate & Partial<EnhancedAICategoryUpdate>,
+  meta: CategorizationMeta
+): NewCategorizationHistoryEntry {
+  return {
+    twitter_id: twitterId,
+    category: data.ai_category,
+    confidence: data.ai_confidence,
+    reasoning: data.ai_reasoning,
+    topic_consistency_score: data.topic_consistency_score ?? null,
+    content_depth_score: data.content_depth_score ?? null,
+    topic_focus_score: data.topic_focus_score ?? null,
+    red_flags: data.red_flags ?? [],
+    primary_topics: data.primary_topics ?? [],
+    model: meta.model ?? null,
+    prompt_version: meta.promptVersion ?? null,
+    source: meta.source,
+  };
+}
+
+// History rows for the updates the store applied (failed or unmatched ones were never a verdict)
+function appliedHistory(
+  updates: Array<AICategoryUpdate & Partial<EnhancedAICategoryUpdate> & { twitter_id: string }>,
+  updated: string[],
+  meta: CategorizationMeta
+): NewCategorizationHistoryEntry[] {
+  const applied = new Set(updated);
+  return updates
+    .filter((update) => applied.has(update.twitter_id))
+    .map(({ twitter_id, ...data }) => toHistoryEntry(twitter_id, data, meta));
+}
+
+export const AccountModel: AccountModelApi = {
   // Create or update account (upsert)
-  async upsert(account: Omit<Account, 'id' | 'created_at' | 'updated_at'>): Promise<Account | null> {
-    const { data, error } = await supabase
-      .from('accounts')
-      .upsert(account, { onConflict: 'twitter_id' })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error upserting account:', error);
-      return null;
-    }
-    return data;
-  },
+  upsert: (account) => getStorage().accounts.upsert(account),
 
   // Bulk upsert accounts
-  async bulkUpsert(accounts: Omit<Account, 'id' | 'created_at' | 'updated_at'>[]): Promise<number> {
-    const { data, error } = await supabase
-      .from('accounts')
-      .upsert(accounts, { onConflict: 'twitter_id' })
-      .select();
-
-    if (error) {
-      console.error('Error bulk upserting accounts:', error);
-      return 0;
-    }
-    return data?.length || 0;
-  },
+  bulkUpsert: (accounts) => getStorage().accounts.bulkUpsert(accounts),
+
+  // Bulk upsert accounts, returning ids and created/updated status
+  bulkUpsertWithIds: (accounts) => getStorage().accounts.bulkUpsertWithIds(accounts),
 
   // Get account by Twitter ID
-  async getByTwitterId(twitterId: string): Promise<Account | null> {
-    const { data, error } = await supabase
-      .from('accounts')
-      .select('*')
-      .eq('twitter_id', twitterId)
-      .single();
-
-    if (error) {
-      if (error.code !== 'PGRST116') { // Not found is ok
-        console.error('Error getting account:', error);
-      }
-      return null;
-    }
-    return data;
-  },
+  getByTwitterId: (twitterId) => getStorage().accounts.getByTwitterId(twitterId),
 
   // Get account by ID
-  async getById(id: string): Promise<Account | null> {
-    const { data, error } = await supabase
-      .from('accounts')
-      .select('*')
-      .eq('id', id)
-      .single();
-
-    if (error) {
-      console.error('Error getting account:', error);
-      return null;
-    }
-    return data;
-  },
+  getById: (id) => getStorage().accounts.getById(id),
 
   // List accounts with filtering and pagination
-  async list(
-    filters: AccountFilters = {},
-    page = 1,
-    limit = 50,
-    orderBy = 'ai_confidence',
-    orderDir: 'asc' | 'desc' = 'desc'
-  ): Promise<PaginatedResponse<Account>> {
-    let query = supabase.from('accounts').select('*', { count: 'exact' });
-
-    // Apply filters (AI category only)
-    if (filters.aiCategory) {
-      query = query.eq('ai_category', filters.aiCategory);
-    }
-    if (filters.minAiConfidence !== undefined) {
-      query = query.gte('ai_confidence', filters.minAiConfidence);
-    }
-    if (filters.hasGithub !== undefined) {
-      query = query.eq('has_github', filters.hasGithub);
-    }
-
-    // Pagination
-    const offset = (page - 1) * limit;
-    query = query.order(orderBy, { ascending: orderDir === 'asc' }).range(offset, offset + limit - 1);
-
-    const { data, error, count } = await query;
-
-    if (error) {
-      console.error('Error listing accounts:', error);
-      return { data: [], pagination: { page, limit, total: 0, totalPages: 0 } };
-    }
-
-    const total = count || 0;
-    return {
-      data: data || [],
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
-    };
-  },
+  list: (filters, page, limit, orderBy, orderDir) =>
+    getStorage().accounts.list(filters, page, limit, orderBy, orderDir),
 
   // Get AI category stats
-  async getAICategoryStats(): Promise<Record<string, number>> {
-    // Use separate count queries for each category to avoid Supabase's default 1000 row limit
-    // Get total count and categorized counts, then calculate UNCATEGORIZED as the difference
-    const [totalResult, kolResult, devResult, activeUserResult] = await Promise.all([
-      supabase.from('accounts').select('*', { count: 'exact', head: true }),
-      supabase.from('accounts').select('*', { count: 'exact', head: true }).eq('ai_category', 'KOL'),
-      supabase.from('accounts').select('*', { count: 'exact', head: true }).eq('ai_category', 'DEVELOPER'),
-      supabase.from('accounts').select('*', { count: 'exact', head: true }).eq('ai_category', 'ACTIVE_USER'),
-    ]);
-
-    if (totalResult.error || kolResult.error || devResult.error || activeUserResult.error) {
-      console.error('Error getting AI category stats:', {
-        total: totalResult.error,
-        kol: kolResult.error,
-        dev: devResult.error,
-        activeUser: activeUserResult.error,
-      });
-      return { KOL: 0, DEVELOPER: 0, ACTIVE_USER: 0, UNCATEGORIZED: 0 };
-    }
+  getAICategoryStats: () => getStorage().accounts.getAICategoryStats(),
 
-    const total = totalResult.count || 0;
-    const kol = kolResult.count || 0;
-    const developer = devResult.count || 0;
-    const activeUser = activeUserResult.count || 0;
-    // UNCATEGORIZED includes all accounts not in the three main categories (NULL, empty string, or any other value)
-    const uncategorized = total - kol - developer - activeUser;
-
-    return {
-      KOL: kol,
-      DEVELOPER: developer,
-      ACTIVE_USER: activeUser,
-      UNCATEGORIZED: uncategorized,
-    };
-  },
+  // Archive account (soft delete)
+  archive: (id) => getStorage().accounts.archive(id),
 
-  // Delete account
-  async delete(id: string): Promise<boolean> {
-    const { error } = await supabase.from('accounts').delete().eq('id', id);
+  // Restore archived account
+  restore: (id) => getStorage().accounts.restore(id),
 
-    if (error) {
-      console.error('Error deleting account:', error);
-      return false;
-    }
-    return true;
-  },
+  // Delete account permanently
+  delete: (id) => getStorage().accounts.delete(id),
 
   // Update AI categorization
-  async updateAICategory(
-    twitterId: string,
-    data: {
-      ai_category: string;
-      ai_reasoning: string;
-      ai_confidence: number;
-    }
-  ): Promise<boolean> {
-    const { error } = await supabase
-      .from('accounts')
-      .update({
-        ...data,
-        ai_categorized_at: new Date().toISOString(),
-      })
-      .eq('twitter_id', twitterId);
-
-    if (error) {
-      console.error('Error updating AI category:', error);
-      return false;
+  async updateAICategory(twitterId, data, meta) {
+    const updated = await getStorage().accounts.updateAICategory(twitterId, data);
+    if (updated) {
+      await getStorage().categorizationHistory.record([toHistoryEntry(twitterId, data, meta)]);
     }
-    return true;
+    return updated;
   },
 
   // Update AI categorization with enhanced quality scores
-  async updateAICategoryEnhanced(
-    twitterId: string,
-    data: {
-      ai_category: string;
-      ai_reasoning: string;
-      ai_confidence: number;
-      topic_consistency_score: number;
-      content_depth_score: number;
-      topic_focus_score: number;
-      red_flags: Array<{ type: string; description: string; severity: string }>;
-      primary_topics: string[];
+  async updateAICategoryEnhanced(twitterId, data, meta) {
+    const updated = await getStorage().accounts.updateAICategoryEnhanced(twitterId, data);
+    if (updated) {
+      await getStorage().categorizationHistory.record([toHistoryEntry(twitterId, data, meta)]);
     }
-  ): Promise<boolean> {
-    const { error } = await supabase
-      .from('accounts')
-      .update({
-        ai_category: data.ai_category,
-        ai_reasoning: data.ai_reasoning,
-        ai_confidence: data.ai_confidence,
-        topic_consistency_score: data.topic_consistency_score,
-        content_depth_score: data.content_depth_score,
-        topic_focus_score: data.topic_focus_score,
-        red_flags: data.red_flags,
-        primary_topics: data.primary_topics,
-        ai_categorized_at: new Date().toISOString(),
-      })
-      .eq('twitter_id', twitterId);
-
-    if (error) {
-      console.error('Error updating enhanced AI category:', error);
-      return false;
-    }
-    return true;
+    return updated;
   },
 
   // Get accounts needing AI categorization (not categorized yet)
-  async getUncategorizedAccounts(limit = 100): Promise<Account[]> {
-    const { data, error } = await supabase
-      .from('accounts')
-      .select('*')
-      .is('ai_category', null)
-      .limit(limit);
-
-    if (error) {
-      console.error('Error getting uncategorized accounts:', error);
-      return [];
-    }
-    return data || [];
-  },
+  getUncategorizedAccounts: (limit) => getStorage().accounts.getUncategorizedAccounts(limit),
 
   // Bulk update AI categorization with enhanced quality scores
-  async bulkUpdateAICategoryEnhanced(
-    updates: Array<{
-      twitter_id: string;
-      ai_category: string;
-      ai_reasoning: string;
-      ai_confidence: number;
-      topic_consistency_score: number;
-      content_depth_score: number;
-      topic_focus_score: number;
-      red_flags: Array<{ type: string; description: string; severity: string }>;
-      primary_topics: string[];
-    }>
-  ): Promise<{ success: number; failed: number }> {
-    const now = new Date().toISOString();
-    let success = 0;
-    let failed = 0;
-
-    // Process in batches to avoid overwhelming the database
-    const batchSize = 50;
-    for (let i = 0; i < updates.length; i += batchSize) {
-      const batch = updates.slice(i, i + batchSize);
-
-      // Use Promise.all for parallel updates within each batch
-      const results = await Promise.all(
-        batch.map(async (update) => {
-          const { error } = await supabase
-            .from('accounts')
-            .update({
-              ai_category: update.ai_category,
-              ai_reasoning: update.ai_reasoning,
-              ai_confidence: update.ai_confidence,
-              topic_consistency_score: update.topic_consistency_score,
-              content_depth_score: update.content_depth_score,
-              topic_focus_score: update.topic_focus_score,
-              red_flags: update.red_flags,
-              primary_topics: update.primary_topics,
-              ai_categorized_at: now,
-            })
-            .eq('twitter_id', update.twitter_id);
-
-          return error ? 'failed' : 'success';
-        })
-      );
-
-      success += results.filter((r) => r === 'success').length;
-      failed += results.filter((r) => r === 'failed').length;
-    }
-
-    return { success, failed };
+  async bulkUpdateAICategoryEnhanced(updates, meta) {
+    const result = await getStorage().accounts.bulkUpdateAICategoryEnhanced(updates);
+    await getStorage().categorizationHistory.record(appliedHistory(updates, result.updated, meta));
+    return result;
   },
 
   // Get accounts by usernames
-  async getByUsernames(usernames: string[]): Promise<Account[]> {
-    if (usernames.length === 0) return [];
+  getByUsernames: (usernames) => getStorage().accounts.getByUsernames(usernames),
 
-    const { data, error } = await supabase
-      .from('accounts')
-      .select('*')
-      .in('username', usernames);
+  // Get accounts by Twitter IDs
+  getByTwitterIds: (twitterIds) => getStorage().accounts.getByTwitterIds(twitterIds),
 
-    if (error) {
-      console.error('Error getting accounts by usernames:', error);
-      return [];
-    }
-    return data || [];
-  },
+  // Save scores computed from stored tweets
+  bulkUpdateScores: (updates) => getStorage().accounts.bulkUpdateScores(updates),
 
   // Bulk update AI categorization (for secondary categorization)
-  async bulkUpdateAICategorization(
-    updates: Array<{
-      twitter_id: string;
-      ai_category: string;
-      ai_reasoning: string;
-      ai_confidence: number;
-    }>
-  ): Promise<{ success: number; failed: number }> {
-    const now = new Date().toISOString();
-    let success = 0;
-    let failed = 0;
-
-    // Process in batches to avoid overwhelming the database
-    const batchSize = 50;
-    for (let i = 0; i < updates.length; i += batchSize) {
-      const batch = updates.slice(i, i + batchSize);
-
-      // Use Promise.all for parallel updates within each batch
-      const results = await Promise.all(
-        batch.map(async (update) => {
-          const { error } = await supabase
-            .from('accounts')
-            .update({
-              ai_category: update.ai_category,
-              ai_reasoning: update.ai_reasoning,
-              ai_confidence: update.ai_confidence,
-              ai_categorized_at: now,
-            })
-            .eq('twitter_id', update.twitter_id);
-
-          return error ? 'failed' : 'success';
-        })
-      );
-
-      success += results.filter((r) => r === 'success').length;
-      failed += results.filter((r) => r === 'failed').length;
-    }
-
-    return { success, failed };
+  async bulkUpdateAICategorization(updates, meta) {
+    const result = await getStorage().accounts.bulkUpdateAICategorization(updates);
+    await getStorage().categorizationHistory.record(appliedHistory(updates, result.updated, meta));
+    return result;
   },
 };
 
-export const TweetModel = {
+export const TweetModel: TweetStore = {
   // Bulk insert tweets
-  async bulkInsert(tweets: Omit<Tweet, 'id'>[]): Promise<number> {
-    const { data, error } = await supabase
-      .from('tweets')
-      .upsert(tweets, { onConflict: 'twitter_id' })
-      .select();
-
-    if (error) {
-      console.error('Error bulk inserting tweets:', error);
-      return 0;
-    }
-    return data?.length || 0;
-  },
+  bulkInsert: (tweets) => getStorage().tweets.bulkInsert(tweets),
 
-  // Get tweets for account
-  async getByAccountId(accountId: string, limit = 100): Promise<Tweet[]> {
-    const { data, error } = await supabase
-      .from('tweets')
-      .select('*')
-      .eq('account_id', accountId)
-      .order('created_at', { ascending: false })
-      .limit(limit);
-
-    if (error) {
-      console.error('Error getting tweets:', error);
-      return [];
-    }
-    return data || [];
-  },
+  // Get tweets for account, optionally by source
+  getByAccountId: (accountId, limit, source) => getStorage().tweets.getByAccountId(accountId, limit, source),
 
   // Get recent tweets (last 30 days) for analysis
-  async getRecentByAccountId(accountId: string): Promise<Tweet[]> {
-    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
-
-    const { data, error } = await supabase
-      .from('tweets')
-      .select('*')
-      .eq('account_id', accountId)
-      .gte('created_at', thirtyDaysAgo)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error getting recent tweets:', error);
-      return [];
-    }
-    return data || [];
-  },
+  getRecentByAccountId: (accountId) => getStorage().tweets.getRecentByAccountId(accountId),
 
   // Count x402 tweets in last 30 days
-  async countX402Tweets30d(accountId: string): Promise<number> {
-    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
-
-    const { count, error } = await supabase
-      .from('tweets')
-      .select('*', { count: 'exact', head: true })
-      .eq('account_id', accountId)
-      .gte('created_at', thirtyDaysAgo)
-      .not('x402_keywords_found', 'eq', '{}');
-
-    if (error) {
-      console.error('Error counting x402 tweets:', error);
-      return 0;
-    }
-    return count || 0;
-  },
+  countX402Tweets30d: (accountId) => getStorage().tweets.countX402Tweets30d(accountId),
+
+  // Full-text search over tweet content
+  search: (query, page, limit) => getStorage().tweets.search(query, page, limit),
+
+  // Page through tweets for re-tagging
+  listForTagging: (afterTwitterId, limit) => getStorage().tweets.listForTagging(afterTwitterId, limit),
+
+  // Save re-computed tags
+  updateTags: (updates) => getStorage().tweets.updateTags(updates),
+
+  // List tweets with links (for link analytics)
+  listLinks: (filters) => getStorage().tweets.listLinks(filters),
 };
 
-export const SearchQueryModel = {
+export const SearchQueryModel: SearchQueryStore = {
   // Log a search query
-  async log(query: string, resultsCount: number): Promise<void> {
-    await supabase.from('search_queries').insert({
-      query,
-      results_count: resultsCount,
-      last_run_at: new Date().toISOString(),
-    });
-  },
+  log: (query, resultsCount) => getStorage().searchQueries.log(query, resultsCount),
 
   // Get search history
-  async getHistory(limit = 50): Promise<Array<{ query: string; results_count: number; last_run_at: string }>> {
-    const { data, error } = await supabase
-      .from('search_queries')
-      .select('query, results_count, last_run_at')
-      .order('last_run_at', { ascending: false })
-      .limit(limit);
-
-    if (error) {
-      console.error('Error getting search history:', error);
-      return [];
-    }
-    return data || [];
-  },
+  getHistory: (limit) => getStorage().searchQueries.getHistory(limit),
+
+  // Get a keyword's incremental search cursor
+  getCursor: (query) => getStorage().searchQueries.getCursor(query),
+
+  // Save a keyword's incremental search cursor
+  saveCursor: (cursor) => getStorage().searchQueries.saveCursor(cursor),
+
+  // List all keyword cursors
+  listCursors: () => getStorage().searchQueries.listCursors(),
+
+  // Reset keyword cursors
+  resetCursors: (queries) => getStorage().searchQueries.resetCursors(queries),
+};
+
+export const CategorizationHistoryModel: CategorizationHistoryStore = {
+  // Append categorization verdicts (normally written through AccountModel)
+  record: (entries) => getStorage().categorizationHistory.record(entries),
+
+  // Get categorization history for account (newest first)
+  getByAccountId: (accountId, limit) => getStorage().categorizationHistory.getByAccountId(accountId, limit),
+};
+
+export const MetricSnapshotModel: MetricSnapshotStore = {
+  // Record follower/engagement snapshots
+  record: (snapshots) => getStorage().metricSnapshots.record(snapshots),
+
+  // Get metric snapshots for account (oldest first)
+  getByAccountId: (accountId, since) => getStorage().metricSnapshots.getByAccountId(accountId, since),
+};
+
+export const CrawlRunModel: CrawlRunStore = {
+  // Start a crawl run record
+  create: (run) => getStorage().crawlRuns.create(run),
+
+  // Update crawl run progress or result
+  update: (id, data) => getStorage().crawlRuns.update(id, data),
+
+  // Get crawl run by ID
+  getById: (id) => getStorage().crawlRuns.getById(id),
+
+  // List crawl runs (newest first)
+  list: (page, limit, type) => getStorage().crawlRuns.list(page, limit, type),
+};
+
+export const BlocklistModel: BlocklistStore = {
+  // Add or replace blocklist entry
+  add: (entry) => getStorage().blocklist.add(entry),
+
+  // Remove blocklist entry
+  remove: (twitterId) => getStorage().blocklist.remove(twitterId),
+
+  // Get blocklist entry by Twitter ID
+  get: (twitterId) => getStorage().blocklist.get(twitterId),
+
+  // List blocklist entries (newest first)
+  list: (page, limit) => getStorage().blocklist.list(page, limit),
+
+  // Which of the given Twitter IDs are blocked
+  findBlocked: (twitterIds) => getStorage().blocklist.findBlocked(twitterIds),
+};
+
+export const GraphModel: GraphStore = {
+  // Record interaction edges (duplicates are skipped)
+  addInteractions: (edges) => getStorage().graph.addInteractions(edges),
+
+  // Get edges from or to a user
+  getInteractions: (username) => getStorage().graph.getInteractions(username),
+
+  // Get every edge
+  listInteractions: () => getStorage().graph.listInteractions(),
+
+  // Replace influence scores
+  replaceInfluence: (scores) => getStorage().graph.replaceInfluence(scores),
+
+  // List influence scores (highest first)
+  listInfluence: (page, limit) => getStorage().graph.listInfluence(page, limit),
+
+  // Get influence scores for users
+  getInfluence: (usernames) => getStorage().graph.getInfluence(usernames),
+};
+
+export const GithubProfileModel: GithubProfileStore = {
+  // Save (replace) an account's GitHub profile
+  upsert: (profile) => getStorage().githubProfiles.upsert(profile),
+
+  // Get an account's GitHub profile
+  getByAccountId: (accountId) => getStorage().githubProfiles.getByAccountId(accountId),
+
+  // Get GitHub profiles for several accounts
+  getByAccountIds: (accountIds) => getStorage().githubProfiles.getByAccountIds(accountIds),
+};
+
+export const SettingsModel: SettingsStore = {
+  // Get a stored setting (null when not set)
+  get: (key) => getStorage().settings.get(key),
+
+  // Save (replace) a setting
+  set: (key, value) => getStorage().settings.set(key, value),
+
+  // Remove a setting so its default applies again
+  delete: (key) => getStorage().settings.delete(key),
 };
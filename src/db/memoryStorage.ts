@@ -0,0 +1,842 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import { logger } from '../utils/logger.js';
+import { createJsonFileWriter } from '../utils/jsonFileWriter.js';
+import type {
+  Account,
+  Tweet,
+  AccountFilters,
+  PaginatedResponse,
+  CategorizationHistoryEntry,
+  AccountMetricSnapshot,
+  CrawlRun,
+  BlocklistEntry,
+  SearchCursor,
+  AccountInteraction,
+  InfluenceScore,
+  GithubProfile,
+} from '../types/index.js';
+import type {
+  StorageBackend,
+  AccountStore,
+  TweetStore,
+  SearchQueryStore,
+  CategorizationHistoryStore,
+  MetricSnapshotStore,
+  CrawlRunStore,
+  BlocklistStore,
+  GraphStore,
+  GithubProfileStore,
+  SettingsStore,
+  NewAccount,
+  SearchQueryRecord,
+  UpsertedAccountRef,
+} from './storage.js';
+
+const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
+
+// A new verdict clears the KOL threshold policy's marks unless it sets its own
+const NO_REVIEW: Pick<Account, 'needs_review' | 'threshold_failures'> = { needs_review: false, threshold_failures: [] };
+
+interface SearchQueryRow extends SearchQueryRecord {
+  id: string;
+  created_at: string;
+}
+
+interface SettingRow {
+  key: string;
+  value: unknown;
+  updated_at: string;
+}
+
+// Table rows held by the memory backend (mirrors the Postgres tables)
+export interface MemoryTables {
+  accounts: Account[];
+  tweets: Tweet[];
+  search_queries: SearchQueryRow[];
+  categorization_history: CategorizationHistoryEntry[];
+  account_metric_snapshots: AccountMetricSnapshot[];
+  crawl_runs: CrawlRun[];
+  account_blocklist: BlocklistEntry[];
+  search_cursors: SearchCursor[];
+  account_interactions: AccountInteraction[];
+  account_influence: InfluenceScore[];
+  github_profiles: GithubProfile[];
+  settings: SettingRow[];
+}
+
+function emptyTables(): MemoryTables {
+  return {
+    accounts: [],
+    tweets: [],
+    search_queries: [],
+    categorization_history: [],
+    account_metric_snapshots: [],
+    crawl_runs: [],
+    account_blocklist: [],
+    search_cursors: [],
+    account_interactions: [],
+    account_influence: [],
+    github_profiles: [],
+    settings: [],
+  };
+}
+
+/**
+ * Compare two column values the way an ORDER BY would (nulls sort last)
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return String(a).localeCompare(String(b));
+}
+
+function sortRows<T>(rows: T[], column: string, dir: 'asc' | 'desc'): T[] {
+  return [...rows].sort((a, b) => {
+    const av = (a as Record<string, unknown>)[column];
+    const bv = (b as Record<string, unknown>)[column];
+    // Keep nulls at the end regardless of direction
+    if (av === null || av === undefined || bv === null || bv === undefined) return compareValues(av, bv);
+    return dir === 'asc' ? compareValues(av, bv) : compareValues(bv, av);
+  });
+}
+
+interface ParsedSearchQuery {
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * Approximate websearch_to_tsquery: quoted phrases stay together and a leading
+ * '-' excludes a term. All remaining terms must match (OR is not supported).
+ */
+function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { include: [], exclude: [] };
+  for (const match of query.toLowerCase().matchAll(/(-?)"([^"]+)"|(-?)(\S+)/g)) {
+    const term = (match[2] ?? match[4]).trim();
+    if (!term || term === 'or') continue;
+    (match[1] || match[3] ? parsed.exclude : parsed.include).push(term);
+  }
+  return parsed;
+}
+
+// Word-prefix match, a rough stand-in for stemming ("facilitator" finds "facilitators")
+function termPattern(term: string, flags = 'i'): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}[\\p{L}\\p{N}]*`, `${flags}u`);
+}
+
+function matchesQuery(text: string, parsed: ParsedSearchQuery): boolean {
+  return (
+    parsed.include.length > 0 &&
+    parsed.include.every((term) => termPattern(term).test(text)) &&
+    !parsed.exclude.some((term) => termPattern(term).test(text))
+  );
+}
+
+/**
+ * Excerpt around the first match with matched terms wrapped in <mark>, like ts_headline
+ */
+function highlightSnippet(content: string, parsed: ParsedSearchQuery, radius = 100): string {
+  const first = parsed.include
+    .map((term) => content.search(termPattern(term)))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(content.length, first + radius * 2);
+
+  let snippet = content.slice(start, end);
+  for (const term of parsed.include) {
+    snippet = snippet.replace(termPattern(term, 'gi'), (matched) => `<mark>${matched}</mark>`);
+  }
+  return `${start > 0 ? '...' : ''}${snippet}${end < content.length ? '...' : ''}`;
+}
+
+// Field weights mirroring setweight() A/B/C in account_search_document
+const ACCOUNT_SEARCH_WEIGHTS: Array<[keyof Account, number]> = [
+  ['username', 1],
+  ['display_name', 1],
+  ['bio', 0.4],
+  ['ai_reasoning', 0.2],
+];
+
+function paginate<T>(rows: T[], page: number, limit: number): PaginatedResponse<T> {
+  const offset = (page - 1) * limit;
+  return {
+    data: rows.slice(offset, offset + limit),
+    pagination: {
+      page,
+      limit,
+      total: rows.length,
+      totalPages: Math.ceil(rows.length / limit),
+    },
+  };
+}
+
+/**
+ * Storage backend that keeps every table in process memory.
+ * Used for local runs and tests without Supabase credentials. When a file path
+ * is given, tables are loaded from it on start and written back after changes,
+ * so separate processes (crawl script, API server) can share the same data.
+ */
+export function createMemoryStorage(options: { filePath?: string } = {}): StorageBackend {
+  const { filePath } = options;
+  const tables: MemoryTables = emptyTables();
+
+  if (filePath && fs.existsSync(filePath)) {
+    try {
+      const loaded = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<MemoryTables>;
+      Object.assign(tables, loaded);
+      logger.info(`Loaded memory storage from ${filePath}`);
+    } catch (error) {
+      logger.error(`Failed to load memory storage from ${filePath}:`, error);
+    }
+  }
+
+  const writer = filePath ? createJsonFileWriter(filePath, () => tables) : null;
+  const persist = (): void => writer?.persist();
+
+  const now = (): string => new Date().toISOString();
+
+  const findAccount = (predicate: (a: Account) => boolean): Account | null =>
+    tables.accounts.find(predicate) || null;
+
+  const upsertAccount = (account: NewAccount, timestamp: string): Account => {
+    const existing = findAccount((a) => a.twitter_id === account.twitter_id);
+    if (existing) {
+      // Mirror the keep_account_github trigger: tweet evidence outlives a bio without GitHub
+      const hasGithub = account.has_github ||
+        (existing.has_github && tables.tweets.some((t) => t.account_id === existing.id && t.has_github));
+      Object.assign(existing, account, { has_github: hasGithub, updated_at: timestamp });
+      return existing;
+    }
+    const created: Account = {
+      tweet_count: 0,
+      ...account,
+      id: randomUUID(),
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+    tables.accounts.push(created);
+    return created;
+  };
+
+  // Mirror the flag_account_github trigger: a tweet linking GitHub marks its author
+  const flagAccountGithub = (accountIds: Array<string | undefined>): void => {
+    const ids = new Set(accountIds);
+    for (const account of tables.accounts) {
+      if (ids.has(account.id)) account.has_github = true;
+    }
+  };
+
+  const updateByTwitterId = (twitterId: string, data: Partial<Account>): boolean => {
+    const account = findAccount((a) => a.twitter_id === twitterId);
+    if (!account) return false;
+    Object.assign(account, data, { updated_at: now() });
+    return true;
+  };
+
+  const filterAccounts = (filters: AccountFilters): Account[] =>
+    tables.accounts.filter((account) => {
+      if (Boolean(account.deleted_at) !== Boolean(filters.archived)) return false;
+      if (filters.aiCategory && account.ai_category !== filters.aiCategory) return false;
+      if (filters.minAiConfidence !== undefined && (account.ai_confidence ?? -1) < filters.minAiConfidence) {
+        return false;
+      }
+      if (filters.hasGithub !== undefined && account.has_github !== filters.hasGithub) return false;
+      if (filters.needsReview !== undefined && Boolean(account.needs_review) !== filters.needsReview) return false;
+      if (filters.minEngagementScore !== undefined && (account.engagement_score ?? 0) < filters.minEngagementScore) {
+        return false;
+      }
+      if (filters.minTechScore !== undefined && (account.tech_score ?? 0) < filters.minTechScore) return false;
+      if (filters.minX402Relevance !== undefined && (account.x402_relevance ?? 0) < filters.minX402Relevance) {
+        return false;
+      }
+      return true;
+    });
+
+  // Relevance-ranked accounts; tweet matches count for half, as in search_accounts()
+  const searchAccounts = (candidates: Account[], query: string): Account[] => {
+    const parsed = parseSearchQuery(query);
+    const matchedTweets = new Map<string, number>();
+    for (const tweet of tables.tweets) {
+      if (matchesQuery(tweet.content, parsed)) {
+        matchedTweets.set(tweet.account_id, (matchedTweets.get(tweet.account_id) || 0) + 1);
+      }
+    }
+
+    const results: Account[] = [];
+    for (const account of candidates) {
+      const profile = ACCOUNT_SEARCH_WEIGHTS.map(([field]) => String(account[field] ?? '')).join('\n');
+      const profileMatch = matchesQuery(profile, parsed);
+      const tweetMatches = matchedTweets.get(account.id!) || 0;
+      if (!profileMatch && tweetMatches === 0) continue;
+
+      // Average over terms of the best-weighted field containing each term
+      const profileRank = profileMatch
+        ? parsed.include.reduce(
+            (sum, term) =>
+              sum +
+              Math.max(
+                ...ACCOUNT_SEARCH_WEIGHTS.map(([field, weight]) =>
+                  termPattern(term).test(String(account[field] ?? '')) ? weight : 0
+                )
+              ),
+            0
+          ) / parsed.include.length
+        : 0;
+      results.push({
+        ...account,
+        search_rank: profileRank + 0.5 * Math.min(tweetMatches, 10) / 10,
+        matched_tweets: tweetMatches,
+      });
+    }
+    return results.sort(
+      (a, b) => (b.search_rank ?? 0) - (a.search_rank ?? 0) || b.followers_count - a.followers_count
+    );
+  };
+
+  const recentTweets = (accountId: string): Tweet[] => {
+    const since = Date.now() - THIRTY_DAYS_MS;
+    return sortRows(
+      tables.tweets.filter((t) => t.account_id === accountId && new Date(t.created_at).getTime() >= since),
+      'created_at',
+      'desc'
+    );
+  };
+
+  const accounts: AccountStore = {
+    async upsert(account) {
+      const result = upsertAccount(account, now());
+      persist();
+      return { ...result };
+    },
+
+    async bulkUpsert(accounts) {
+      const timestamp = now();
+      for (const account of accounts) {
+        upsertAccount(account, timestamp);
+      }
+      persist();
+      return accounts.length;
+    },
+
+    async bulkUpsertWithIds(accounts) {
+      const timestamp = now();
+      // A twitter_id repeated in the input yields one ref, as in the Supabase backend
+      const refs = new Map<string, UpsertedAccountRef>();
+      for (const account of accounts) {
+        const created = refs.get(account.twitter_id)?.created
+          ?? findAccount((a) => a.twitter_id === account.twitter_id) === null;
+        const saved = upsertAccount(account, timestamp);
+        refs.set(saved.twitter_id, { id: saved.id!, twitter_id: saved.twitter_id, created });
+      }
+      persist();
+      return Array.from(refs.values());
+    },
+
+    async getByTwitterId(twitterId) {
+      const account = findAccount((a) => a.twitter_id === twitterId);
+      return account ? { ...account } : null;
+    },
+
+    async getById(id) {
+      const account = findAccount((a) => a.id === id);
+      return account ? { ...account } : null;
+    },
+
+    async list(filters = {}, page = 1, limit = 50, orderBy, orderDir = 'desc') {
+      if (filters.query) {
+        // Relevance order unless a sort column is given; the stable sort keeps it for ties
+        const ranked = searchAccounts(filterAccounts(filters), filters.query);
+        return paginate(orderBy ? sortRows(ranked, orderBy, orderDir) : ranked, page, limit);
+      }
+      const sorted = sortRows(filterAccounts(filters), orderBy ?? 'ai_confidence', orderDir);
+      const result = paginate(sorted, page, limit);
+      return { ...result, data: result.data.map((a) => ({ ...a })) };
+    },
+
+    async getAICategoryStats() {
+      const stats: Record<string, number> = { KOL: 0, DEVELOPER: 0, ACTIVE_USER: 0, UNCATEGORIZED: 0 };
+      for (const account of tables.accounts) {
+        if (account.deleted_at) continue;
+        const category = account.ai_category || '';
+        if (category === 'KOL' || category === 'DEVELOPER' || category === 'ACTIVE_USER') {
+          stats[category]++;
+        } else {
+          stats.UNCATEGORIZED++;
+        }
+      }
+      return stats;
+    },
+
+    async archive(id) {
+      const account = findAccount((a) => a.id === id);
+      if (!account) return false;
+      account.deleted_at = now();
+      persist();
+      return true;
+    },
+
+    async restore(id) {
+      const account = findAccount((a) => a.id === id);
+      if (!account) return false;
+      account.deleted_at = null;
+      persist();
+      return true;
+    },
+
+    async delete(id) {
+      const before = tables.accounts.length;
+      tables.accounts = tables.accounts.filter((a) => a.id !== id);
+      // Mirror ON DELETE CASCADE on account_id foreign keys
+      tables.tweets = tables.tweets.filter((t) => t.account_id !== id);
+      tables.categorization_history = tables.categorization_history.filter((h) => h.account_id !== id);
+      tables.account_metric_snapshots = tables.account_metric_snapshots.filter((s) => s.account_id !== id);
+      tables.github_profiles = tables.github_profiles.filter((g) => g.account_id !== id);
+      persist();
+      return tables.accounts.length < before;
+    },
+
+    async updateAICategory(twitterId, data) {
+      const updated = updateByTwitterId(twitterId, { ...NO_REVIEW, ...data, ai_categorized_at: now() });
+      persist();
+      return updated;
+    },
+
+    async updateAICategoryEnhanced(twitterId, data) {
+      const updated = updateByTwitterId(twitterId, { ...NO_REVIEW, ...data, ai_categorized_at: now() });
+      persist();
+      return updated;
+    },
+
+    async getUncategorizedAccounts(limit = 100) {
+      return tables.accounts
+        .filter((a) => (a.ai_category === null || a.ai_category === undefined) && !a.deleted_at)
+        .slice(0, limit)
+        .map((a) => ({ ...a }));
+    },
+
+    async bulkUpdateAICategoryEnhanced(updates) {
+      const timestamp = now();
+      const updated: string[] = [];
+      for (const { twitter_id, ...data } of updates) {
+        if (updateByTwitterId(twitter_id, { ...NO_REVIEW, ...data, ai_categorized_at: timestamp })) {
+          updated.push(twitter_id);
+        }
+      }
+      persist();
+      return { success: updated.length, failed: updates.length - updated.length, updated };
+    },
+
+    async getByUsernames(usernames) {
+      if (usernames.length === 0) return [];
+      const wanted = new Set(usernames.map((u) => u.toLowerCase()));
+      return tables.accounts.filter((a) => wanted.has(a.username.toLowerCase())).map((a) => ({ ...a }));
+    },
+
+    async getByTwitterIds(twitterIds) {
+      if (twitterIds.length === 0) return [];
+      const wanted = new Set(twitterIds);
+      return tables.accounts.filter((a) => wanted.has(a.twitter_id)).map((a) => ({ ...a }));
+    },
+
+    async bulkUpdateAICategorization(updates) {
+      const timestamp = now();
+      const updated: string[] = [];
+      for (const { twitter_id, ...data } of updates) {
+        if (updateByTwitterId(twitter_id, { ...NO_REVIEW, ...data, ai_categorized_at: timestamp })) {
+          updated.push(twitter_id);
+        }
+      }
+      persist();
+      return { success: updated.length, failed: updates.length - updated.length, updated };
+    },
+
+    async bulkUpdateScores(updates) {
+      const timestamp = now();
+      let success = 0;
+      for (const { twitter_id, ...scores } of updates) {
+        if (updateByTwitterId(twitter_id, { ...scores, scores_computed_at: timestamp })) success++;
+      }
+      persist();
+      return { success, failed: updates.length - success };
+    },
+  };
+
+  const tweets: TweetStore = {
+    async bulkInsert(tweets) {
+      const byTwitterId = new Map(tables.tweets.map((t) => [t.twitter_id, t]));
+      for (const tweet of tweets) {
+        const existing = byTwitterId.get(tweet.twitter_id);
+        if (existing) {
+          // Mirror the merge_tweet_sources trigger
+          const sources = Array.from(new Set([...(existing.sources || []), ...tweet.sources])).sort();
+          Object.assign(existing, tweet, { sources });
+        } else {
+          const created = { ...tweet, id: randomUUID() };
+          tables.tweets.push(created);
+          byTwitterId.set(created.twitter_id, created);
+        }
+      }
+      flagAccountGithub(tweets.filter((t) => t.has_github).map((t) => t.account_id));
+      persist();
+      return new Set(tweets.map((t) => t.twitter_id)).size;
+    },
+
+    async getByAccountId(accountId, limit = 100, source) {
+      return sortRows(
+        tables.tweets.filter((t) => t.account_id === accountId && (!source || (t.sources || []).includes(source))),
+        'created_at',
+        'desc'
+      )
+        .slice(0, limit)
+        .map((t) => ({ ...t }));
+    },
+
+    async getRecentByAccountId(accountId) {
+      return recentTweets(accountId).map((t) => ({ ...t }));
+    },
+
+    async countX402Tweets30d(accountId) {
+      return recentTweets(accountId).filter((t) => t.x402_keywords_found.length > 0).length;
+    },
+
+    async search(query, page = 1, limit = 20) {
+      const parsed = parseSearchQuery(query);
+      const hits = tables.tweets
+        .filter((t) => matchesQuery(t.content, parsed))
+        .map((tweet) => {
+          // Rank by how often the terms occur, relative to tweet length
+          const occurrences = parsed.include.reduce(
+            (sum, term) => sum + (tweet.content.match(termPattern(term, 'gi'))?.length || 0),
+            0
+          );
+          const account = findAccount((a) => a.id === tweet.account_id);
+          return {
+            tweet: { ...tweet },
+            rank: occurrences / Math.max(1, tweet.content.split(/\s+/).length),
+            snippet: highlightSnippet(tweet.content, parsed),
+            username: account?.username ?? null,
+            display_name: account?.display_name ?? null,
+          };
+        })
+        .sort((a, b) => b.rank - a.rank || b.tweet.created_at.localeCompare(a.tweet.created_at));
+      return paginate(hits, page, limit);
+    },
+
+    async listForTagging(afterTwitterId, limit) {
+      return tables.tweets
+        .filter((t) => afterTwitterId === null || t.twitter_id > afterTwitterId)
+        .sort((a, b) => (a.twitter_id < b.twitter_id ? -1 : a.twitter_id > b.twitter_id ? 1 : 0))
+        .slice(0, limit)
+        .map((t) => ({
+          twitter_id: t.twitter_id,
+          content: t.content,
+          entities: t.entities,
+          media: t.media,
+          x402_keywords_found: [...t.x402_keywords_found],
+          // Rows saved before these fields existed
+          x402_keyword_score: t.x402_keyword_score ?? 0,
+          has_code: t.has_code,
+          code_evidence: t.code_evidence ?? null,
+          code_languages: [...(t.code_languages || [])],
+          repo_links: [...(t.repo_links || [])],
+          has_github: t.has_github,
+          links: [...(t.links || [])],
+        }));
+    },
+
+    async updateTags(updates) {
+      const byTwitterId = new Map(tables.tweets.map((t) => [t.twitter_id, t]));
+      let updated = 0;
+      for (const { twitter_id, ...tags } of updates) {
+        const tweet = byTwitterId.get(twitter_id);
+        if (tweet) {
+          Object.assign(tweet, tags);
+          updated++;
+        }
+      }
+      flagAccountGithub(updates.filter((t) => t.has_github).map((t) => byTwitterId.get(t.twitter_id)?.account_id));
+      persist();
+      return updated;
+    },
+
+    async listLinks(filters = {}) {
+      return tables.tweets
+        .filter((t) => (t.links || []).length > 0)
+        .filter((t) => !filters.accountId || t.account_id === filters.accountId)
+        .filter((t) => !filters.since || t.created_at >= filters.since)
+        .filter((t) => !filters.x402Only || t.x402_keywords_found.length > 0)
+        .map((t) => ({
+          twitter_id: t.twitter_id,
+          account_id: t.account_id,
+          created_at: t.created_at,
+          links: t.links.map((link) => ({ ...link })),
+        }));
+    },
+  };
+
+  const searchQueries: SearchQueryStore = {
+    async log(query, resultsCount) {
+      const timestamp = now();
+      tables.search_queries.push({
+        id: randomUUID(),
+        query,
+        results_count: resultsCount,
+        last_run_at: timestamp,
+        created_at: timestamp,
+      });
+      persist();
+    },
+
+    async getHistory(limit = 50) {
+      return sortRows(tables.search_queries, 'last_run_at', 'desc')
+        .slice(0, limit)
+        .map(({ query, results_count, last_run_at }) => ({ query, results_count, last_run_at }));
+    },
+
+    async getCursor(query) {
+      const cursor = tables.search_cursors.find((c) => c.query === query);
+      return cursor ? { ...cursor } : null;
+    },
+
+    async saveCursor(cursor) {
+      tables.search_cursors = tables.search_cursors.filter((c) => c.query !== cursor.query);
+      tables.search_cursors.push({ ...cursor, updated_at: now() });
+      persist();
+    },
+
+    async listCursors() {
+      return [...tables.search_cursors].sort((a, b) => a.query.localeCompare(b.query));
+    },
+
+    async resetCursors(queries) {
+      const before = tables.search_cursors.length;
+      tables.search_cursors = queries
+        ? tables.search_cursors.filter((c) => !queries.includes(c.query))
+        : [];
+      persist();
+      return before - tables.search_cursors.length;
+    },
+  };
+
+  const categorizationHistory: CategorizationHistoryStore = {
+    async record(entries) {
+      const timestamp = now();
+      for (const entry of entries) {
+        const account = findAccount((a) => a.twitter_id === entry.twitter_id);
+        tables.categorization_history.push({
+          ...entry,
+          id: randomUUID(),
+          account_id: account?.id ?? null,
+          created_at: timestamp,
+        });
+      }
+      persist();
+      return entries.length;
+    },
+
+    async getByAccountId(accountId, limit = 100) {
+      // Stable sort keeps insertion order for rows written in the same millisecond
+      return sortRows(
+        tables.categorization_history.filter((h) => h.account_id === accountId).reverse(),
+        'created_at',
+        'desc'
+      )
+        .slice(0, limit)
+        .map((h) => ({ ...h }));
+    },
+  };
+
+  const metricSnapshots: MetricSnapshotStore = {
+    async record(snapshots) {
+      const timestamp = now();
+      for (const snapshot of snapshots) {
+        const account = findAccount((a) => a.twitter_id === snapshot.twitter_id);
+        tables.account_metric_snapshots.push({
+          ...snapshot,
+          id: randomUUID(),
+          account_id: account?.id ?? null,
+          captured_at: timestamp,
+        });
+      }
+      persist();
+      return snapshots.length;
+    },
+
+    async getByAccountId(accountId, since) {
+      return sortRows(
+        tables.account_metric_snapshots.filter(
+          (s) => s.account_id === accountId && (!since || (s.captured_at ?? '') >= since)
+        ),
+        'captured_at',
+        'asc'
+      ).map((s) => ({ ...s }));
+    },
+  };
+
+  const crawlRuns: CrawlRunStore = {
+    async create(run) {
+      const created: CrawlRun = { ...run, id: randomUUID(), created_at: now() };
+      tables.crawl_runs.push(created);
+      persist();
+      return { ...created };
+    },
+
+    async update(id, data) {
+      const run = tables.crawl_runs.find((r) => r.id === id);
+      if (!run) return false;
+      Object.assign(run, data);
+      persist();
+      return true;
+    },
+
+    async getById(id) {
+      const run = tables.crawl_runs.find((r) => r.id === id);
+      return run ? { ...run } : null;
+    },
+
+    async list(page = 1, limit = 20, type) {
+      const rows = tables.crawl_runs.filter((r) => !type || r.type === type);
+      const result = paginate(sortRows(rows, 'started_at', 'desc'), page, limit);
+      return { ...result, data: result.data.map((r) => ({ ...r })) };
+    },
+  };
+
+  const blocklist: BlocklistStore = {
+    async add(entry) {
+      const created: BlocklistEntry = { ...entry, created_at: now() };
+      tables.account_blocklist = tables.account_blocklist.filter((b) => b.twitter_id !== entry.twitter_id);
+      tables.account_blocklist.push(created);
+      persist();
+      return { ...created };
+    },
+
+    async remove(twitterId) {
+      const before = tables.account_blocklist.length;
+      tables.account_blocklist = tables.account_blocklist.filter((b) => b.twitter_id !== twitterId);
+      persist();
+      return tables.account_blocklist.length < before;
+    },
+
+    async get(twitterId) {
+      const entry = tables.account_blocklist.find((b) => b.twitter_id === twitterId);
+      return entry ? { ...entry } : null;
+    },
+
+    async list(page = 1, limit = 50) {
+      const result = paginate(sortRows(tables.account_blocklist, 'created_at', 'desc'), page, limit);
+      return { ...result, data: result.data.map((b) => ({ ...b })) };
+    },
+
+    async findBlocked(twitterIds) {
+      const wanted = new Set(twitterIds);
+      return new Set(tables.account_blocklist.filter((b) => wanted.has(b.twitter_id)).map((b) => b.twitter_id));
+    },
+  };
+
+  const graph: GraphStore = {
+    async addInteractions(edges) {
+      const key = (e: AccountInteraction) => `${e.tweet_id}:${e.target_username}:${e.type}`;
+      const existing = new Set(tables.account_interactions.map(key));
+      let added = 0;
+      for (const edge of edges) {
+        if (existing.has(key(edge))) continue;
+        existing.add(key(edge));
+        tables.account_interactions.push({ ...edge });
+        added++;
+      }
+      if (added > 0) persist();
+      return added;
+    },
+
+    async getInteractions(username) {
+      return tables.account_interactions
+        .filter((e) => e.source_username === username || e.target_username === username)
+        .map((e) => ({ ...e }));
+    },
+
+    async listInteractions() {
+      return tables.account_interactions.map((e) => ({ ...e }));
+    },
+
+    async replaceInfluence(scores) {
+      tables.account_influence = scores.map((s) => ({ ...s }));
+      persist();
+      return scores.length;
+    },
+
+    async listInfluence(page = 1, limit = 50) {
+      const result = paginate(sortRows(tables.account_influence, 'pagerank', 'desc'), page, limit);
+      return { ...result, data: result.data.map((s) => ({ ...s })) };
+    },
+
+    async getInfluence(usernames) {
+      const wanted = new Set(usernames);
+      return tables.account_influence.filter((s) => wanted.has(s.username)).map((s) => ({ ...s }));
+    },
+  };
+
+  const githubProfiles: GithubProfileStore = {
+    async upsert(profile) {
+      // Mirror the account_id foreign key
+      if (!tables.accounts.some((a) => a.id === profile.account_id)) return null;
+      const saved = { ...profile };
+      tables.github_profiles = tables.github_profiles.filter((g) => g.account_id !== profile.account_id);
+      tables.github_profiles.push(saved);
+      persist();
+      return { ...saved };
+    },
+
+    async getByAccountId(accountId) {
+      const profile = tables.github_profiles.find((g) => g.account_id === accountId);
+      return profile ? { ...profile } : null;
+    },
+
+    async getByAccountIds(accountIds) {
+      const wanted = new Set(accountIds);
+      return tables.github_profiles.filter((g) => wanted.has(g.account_id)).map((g) => ({ ...g }));
+    },
+  };
+
+  const settings: SettingsStore = {
+    async get(key) {
+      const row = tables.settings.find((s) => s.key === key);
+      return row ? structuredClone(row.value) : null;
+    },
+
+    async set(key, value) {
+      tables.settings = tables.settings.filter((s) => s.key !== key);
+      tables.settings.push({ key, value: structuredClone(value), updated_at: now() });
+      persist();
+      return true;
+    },
+
+    async delete(key) {
+      const before = tables.settings.length;
+      tables.settings = tables.settings.filter((s) => s.key !== key);
+      persist();
+      return tables.settings.length < before;
+    },
+  };
+
+  return {
+    name: filePath ? `memory (${filePath})` : 'memory',
+    accounts,
+    tweets,
+    searchQueries,
+    categorizationHistory,
+    metricSnapshots,
+    crawlRuns,
+    blocklist,
+    graph,
+    githubProfiles,
+    settings,
+  };
+}
@@ -0,0 +1,38 @@
+import type { Migration } from '../migrator.js';
+
+// Columns written by AccountModel.updateAICategory / updateAICategoryEnhanced.
+// ai_category stays NULL until an account is categorized (the crawl relies on that).
+export const migration: Migration = {
+  version: 2,
+  name: 'ai_categorization',
+  up: `
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS ai_category TEXT CHECK (ai_category IN ('KOL', 'DEVELOPER', 'ACTIVE_USER', 'UNCATEGORIZED')),
+  ADD COLUMN IF NOT EXISTS ai_reasoning TEXT,
+  ADD COLUMN IF NOT EXISTS ai_confidence REAL,
+  ADD COLUMN IF NOT EXISTS ai_categorized_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS topic_consistency_score REAL,
+  ADD COLUMN IF NOT EXISTS content_depth_score REAL,
+  ADD COLUMN IF NOT EXISTS topic_focus_score REAL,
+  ADD COLUMN IF NOT EXISTS red_flags JSONB DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS primary_topics TEXT[] DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_accounts_ai_category ON accounts(ai_category);
+CREATE INDEX IF NOT EXISTS idx_accounts_ai_confidence ON accounts(ai_confidence DESC);
+`,
+  down: `
+DROP INDEX IF EXISTS idx_accounts_ai_confidence;
+DROP INDEX IF EXISTS idx_accounts_ai_category;
+
+ALTER TABLE accounts
+  DROP COLUMN IF EXISTS primary_topics,
+  DROP COLUMN IF EXISTS red_flags,
+  DROP COLUMN IF EXISTS topic_focus_score,
+  DROP COLUMN IF EXISTS content_depth_score,
+  DROP COLUMN IF EXISTS topic_consistency_score,
+  DROP COLUMN IF EXISTS ai_categorized_at,
+  DROP COLUMN IF EXISTS ai_confidence,
+  DROP COLUMN IF EXISTS ai_reasoning,
+  DROP COLUMN IF EXISTS ai_category;
+`,
+};
@@ -0,0 +1,46 @@
+import type { Migration } from '../migrator.js';
+
+// Append-only log of every categorization verdict (AI or manual)
+export const migration: Migration = {
+  version: 3,
+  name: 'categorization_history',
+  up: `
+CREATE TABLE IF NOT EXISTS categorization_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID REFERENCES accounts(id) ON DELETE CASCADE,
+  twitter_id TEXT NOT NULL,
+  category TEXT NOT NULL,
+  confidence REAL DEFAULT 0,
+  reasoning TEXT,
+  topic_consistency_score REAL,
+  content_depth_score REAL,
+  topic_focus_score REAL,
+  red_flags JSONB DEFAULT '[]'::jsonb,
+  primary_topics TEXT[] DEFAULT '{}',
+  model TEXT,
+  prompt_version TEXT,
+  source TEXT NOT NULL CHECK (source IN ('crawl', 'secondary', 'worker', 'manual')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_history_account ON categorization_history(account_id, created_at DESC);
+
+-- History rows are immutable
+CREATE OR REPLACE FUNCTION prevent_categorization_history_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'categorization_history rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS categorization_history_immutable ON categorization_history;
+CREATE TRIGGER categorization_history_immutable
+  BEFORE UPDATE ON categorization_history
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_categorization_history_update();
+`,
+  down: `
+DROP TABLE IF EXISTS categorization_history;
+DROP FUNCTION IF EXISTS prevent_categorization_history_update();
+`,
+};
@@ -0,0 +1,30 @@
+import type { Migration } from '../migrator.js';
+
+// Follower and engagement metrics recorded on every sighting of an account
+export const migration: Migration = {
+  version: 4,
+  name: 'account_metric_snapshots',
+  up: `
+CREATE TABLE IF NOT EXISTS account_metric_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID REFERENCES accounts(id) ON DELETE CASCADE,
+  twitter_id TEXT NOT NULL,
+  followers_count INTEGER DEFAULT 0,
+  following_count INTEGER DEFAULT 0,
+  tweet_count INTEGER DEFAULT 0,
+  sampled_tweets INTEGER DEFAULT 0,
+  avg_likes REAL,
+  avg_retweets REAL,
+  avg_replies REAL,
+  avg_views REAL,
+  engagement_rate REAL,
+  source TEXT NOT NULL CHECK (source IN ('discovery', 'enrichment')),
+  captured_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_metric_snapshots_account ON account_metric_snapshots(account_id, captured_at);
+`,
+  down: `
+DROP TABLE IF EXISTS account_metric_snapshots;
+`,
+};
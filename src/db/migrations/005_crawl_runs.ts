@@ -0,0 +1,30 @@
+import type { Migration } from '../migrator.js';
+
+// One row per crawl pipeline execution (runCrawl, secondary pass, search worker)
+export const migration: Migration = {
+  version: 5,
+  name: 'crawl_runs',
+  up: `
+CREATE TABLE IF NOT EXISTS crawl_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL CHECK (type IN ('crawl', 'secondary', 'search_worker')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  keywords TEXT[] DEFAULT '{}',
+  config_snapshot JSONB DEFAULT '{}'::jsonb,
+  stages JSONB DEFAULT '{}'::jsonb,
+  errors JSONB DEFAULT '[]'::jsonb,
+  api_calls INTEGER DEFAULT 0,
+  ai_batches INTEGER DEFAULT 0,
+  job_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_runs_started_at ON crawl_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_crawl_runs_type ON crawl_runs(type);
+`,
+  down: `
+DROP TABLE IF EXISTS crawl_runs;
+`,
+};
@@ -0,0 +1,118 @@
+import type { Migration } from '../migrator.js';
+
+// Ranked full-text search over account profiles, AI reasoning and stored tweets
+export const migration: Migration = {
+  version: 6,
+  name: 'full_text_search',
+  up: `
+-- Search documents are computed by immutable functions and indexed as
+-- expressions, so no extra columns show up in SELECT * results
+CREATE OR REPLACE FUNCTION account_search_document(
+  username TEXT, display_name TEXT, bio TEXT, ai_reasoning TEXT
+)
+RETURNS TSVECTOR
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(username, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(display_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(bio, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(ai_reasoning, '')), 'C')
+$$;
+
+CREATE OR REPLACE FUNCTION tweet_search_document(content TEXT)
+RETURNS TSVECTOR
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT to_tsvector('english', coalesce(content, ''))
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_search ON accounts
+  USING GIN(account_search_document(username, display_name, bio, ai_reasoning));
+CREATE INDEX IF NOT EXISTS idx_tweets_search ON tweets USING GIN(tweet_search_document(content));
+
+-- Accounts matching on their own fields or through their tweets. Tweet matches
+-- count for half, so a profile match outranks a single passing mention.
+CREATE OR REPLACE FUNCTION search_accounts(
+  search_query TEXT,
+  filter_category TEXT DEFAULT NULL,
+  min_confidence REAL DEFAULT NULL,
+  filter_has_github BOOLEAN DEFAULT NULL,
+  page_limit INTEGER DEFAULT 50,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (account JSONB, rank REAL, matched_tweets BIGINT, total_count BIGINT)
+LANGUAGE sql STABLE AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', search_query) AS query
+  ),
+  tweet_hits AS (
+    SELECT t.account_id, MAX(ts_rank(tweet_search_document(t.content), q.query)) AS rank, COUNT(*) AS matched
+    FROM tweets t, q
+    WHERE tweet_search_document(t.content) @@ q.query
+    GROUP BY t.account_id
+  ),
+  documents AS (
+    SELECT a.*, account_search_document(a.username, a.display_name, a.bio, a.ai_reasoning) AS document
+    FROM accounts a
+  ),
+  hits AS (
+    SELECT
+      d.*,
+      (CASE WHEN d.document @@ q.query THEN ts_rank(d.document, q.query) ELSE 0 END
+        + COALESCE(th.rank, 0) * 0.5)::REAL AS search_rank,
+      COALESCE(th.matched, 0) AS matched
+    FROM documents d
+    CROSS JOIN q
+    LEFT JOIN tweet_hits th ON th.account_id = d.id
+    WHERE (d.document @@ q.query OR th.account_id IS NOT NULL)
+      AND (filter_category IS NULL OR d.ai_category = filter_category)
+      AND (min_confidence IS NULL OR d.ai_confidence >= min_confidence)
+      AND (filter_has_github IS NULL OR d.has_github = filter_has_github)
+  )
+  SELECT
+    to_jsonb(h) - 'document' - 'search_rank' - 'matched',
+    h.search_rank,
+    h.matched,
+    COUNT(*) OVER ()
+  FROM hits h
+  ORDER BY h.search_rank DESC, h.followers_count DESC
+  LIMIT page_limit OFFSET page_offset;
+$$;
+
+-- Tweets matching a query, with <mark>-highlighted snippets
+CREATE OR REPLACE FUNCTION search_tweets(
+  search_query TEXT,
+  page_limit INTEGER DEFAULT 20,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (tweet JSONB, rank REAL, snippet TEXT, username TEXT, display_name TEXT, total_count BIGINT)
+LANGUAGE sql STABLE AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', search_query) AS query
+  ),
+  hits AS (
+    SELECT t.*, ts_rank(tweet_search_document(t.content), q.query) AS search_rank, q.query AS query
+    FROM tweets t, q
+    WHERE tweet_search_document(t.content) @@ q.query
+  )
+  SELECT
+    to_jsonb(h) - 'search_rank' - 'query',
+    h.search_rank,
+    ts_headline('english', h.content, h.query, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10'),
+    a.username,
+    a.display_name,
+    COUNT(*) OVER ()
+  FROM hits h
+  LEFT JOIN accounts a ON a.id = h.account_id
+  ORDER BY h.search_rank DESC, h.created_at DESC
+  LIMIT page_limit OFFSET page_offset;
+$$;
+`,
+  down: `
+DROP FUNCTION IF EXISTS search_tweets(TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS search_accounts(TEXT, TEXT, REAL, BOOLEAN, INTEGER, INTEGER);
+DROP INDEX IF EXISTS idx_tweets_search;
+DROP INDEX IF EXISTS idx_accounts_search;
+DROP FUNCTION IF EXISTS tweet_search_document(TEXT);
+DROP FUNCTION IF EXISTS account_search_document(TEXT, TEXT, TEXT, TEXT);
+`,
+};
@@ -0,0 +1,123 @@
+import type { Migration } from '../migrator.js';
+
+// Soft-deleted accounts and a twitter_id blocklist honored by discovery and categorization
+export const migration: Migration = {
+  version: 7,
+  name: 'blocklist_soft_delete',
+  up: `
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_deleted_at ON accounts(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Keyed by twitter_id so entries apply before an account row exists
+CREATE TABLE IF NOT EXISTS account_blocklist (
+  twitter_id TEXT PRIMARY KEY,
+  username TEXT,
+  reason TEXT,
+  added_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Same as in migration 006, but archived accounts are left out of search results
+CREATE OR REPLACE FUNCTION search_accounts(
+  search_query TEXT,
+  filter_category TEXT DEFAULT NULL,
+  min_confidence REAL DEFAULT NULL,
+  filter_has_github BOOLEAN DEFAULT NULL,
+  page_limit INTEGER DEFAULT 50,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (account JSONB, rank REAL, matched_tweets BIGINT, total_count BIGINT)
+LANGUAGE sql STABLE AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', search_query) AS query
+  ),
+  tweet_hits AS (
+    SELECT t.account_id, MAX(ts_rank(tweet_search_document(t.content), q.query)) AS rank, COUNT(*) AS matched
+    FROM tweets t, q
+    WHERE tweet_search_document(t.content) @@ q.query
+    GROUP BY t.account_id
+  ),
+  documents AS (
+    SELECT a.*, account_search_document(a.username, a.display_name, a.bio, a.ai_reasoning) AS document
+    FROM accounts a
+    WHERE a.deleted_at IS NULL
+  ),
+  hits AS (
+    SELECT
+      d.*,
+      (CASE WHEN d.document @@ q.query THEN ts_rank(d.document, q.query) ELSE 0 END
+        + COALESCE(th.rank, 0) * 0.5)::REAL AS search_rank,
+      COALESCE(th.matched, 0) AS matched
+    FROM documents d
+    CROSS JOIN q
+    LEFT JOIN tweet_hits th ON th.account_id = d.id
+    WHERE (d.document @@ q.query OR th.account_id IS NOT NULL)
+      AND (filter_category IS NULL OR d.ai_category = filter_category)
+      AND (min_confidence IS NULL OR d.ai_confidence >= min_confidence)
+      AND (filter_has_github IS NULL OR d.has_github = filter_has_github)
+  )
+  SELECT
+    to_jsonb(h) - 'document' - 'search_rank' - 'matched',
+    h.search_rank,
+    h.matched,
+    COUNT(*) OVER ()
+  FROM hits h
+  ORDER BY h.search_rank DESC, h.followers_count DESC
+  LIMIT page_limit OFFSET page_offset;
+$$;
+`,
+  down: `
+-- Restore the migration 006 definition before the column it would reference is dropped
+CREATE OR REPLACE FUNCTION search_accounts(
+  search_query TEXT,
+  filter_category TEXT DEFAULT NULL,
+  min_confidence REAL DEFAULT NULL,
+  filter_has_github BOOLEAN DEFAULT NULL,
+  page_limit INTEGER DEFAULT 50,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (account JSONB, rank REAL, matched_tweets BIGINT, total_count BIGINT)
+LANGUAGE sql STABLE AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', search_query) AS query
+  ),
+  tweet_hits AS (
+    SELECT t.account_id, MAX(ts_rank(tweet_search_document(t.content), q.query)) AS rank, COUNT(*) AS matched
+    FROM tweets t, q
+    WHERE tweet_search_document(t.content) @@ q.query
+    GROUP BY t.account_id
+  ),
+  documents AS (
+    SELECT a.*, account_search_document(a.username, a.display_name, a.bio, a.ai_reasoning) AS document
+    FROM accounts a
+  ),
+  hits AS (
+    SELECT
+      d.*,
+      (CASE WHEN d.document @@ q.query THEN ts_rank(d.document, q.query) ELSE 0 END
+        + COALESCE(th.rank, 0) * 0.5)::REAL AS search_rank,
+      COALESCE(th.matched, 0) AS matched
+    FROM documents d
+    CROSS JOIN q
+    LEFT JOIN tweet_hits th ON th.account_id = d.id
+    WHERE (d.document @@ q.query OR th.account_id IS NOT NULL)
+      AND (filter_category IS NULL OR d.ai_category = filter_category)
+      AND (min_confidence IS NULL OR d.ai_confidence >= min_confidence)
+      AND (filter_has_github IS NULL OR d.has_github = filter_has_github)
+  )
+  SELECT
+    to_jsonb(h) - 'document' - 'search_rank' - 'matched',
+    h.search_rank,
+    h.matched,
+    COUNT(*) OVER ()
+  FROM hits h
+  ORDER BY h.search_rank DESC, h.followers_count DESC
+  LIMIT page_limit OFFSET page_offset;
+$$;
+
+DROP TABLE IF EXISTS account_blocklist;
+DROP INDEX IF EXISTS idx_accounts_deleted_at;
+ALTER TABLE accounts DROP COLUMN IF EXISTS deleted_at;
+`,
+};
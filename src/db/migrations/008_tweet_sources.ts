@@ -0,0 +1,37 @@
+import type { Migration } from '../migrator.js';
+
+// Tag stored tweets with the fetch paths that returned them
+export const migration: Migration = {
+  version: 8,
+  name: 'tweet_sources',
+  up: `
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS sources TEXT[] NOT NULL DEFAULT '{}';
+
+-- Until now only keyword discovery saved tweets
+UPDATE tweets SET sources = '{keyword_search}' WHERE sources = '{}';
+
+CREATE INDEX IF NOT EXISTS idx_tweets_sources ON tweets USING GIN(sources);
+
+-- Upserts add to the tags instead of replacing them, so a tweet found by
+-- keyword search and again on the timeline keeps both
+CREATE OR REPLACE FUNCTION merge_tweet_sources()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.sources = ARRAY(SELECT DISTINCT unnest(OLD.sources || NEW.sources) ORDER BY 1);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tweets_merge_sources ON tweets;
+CREATE TRIGGER tweets_merge_sources
+  BEFORE UPDATE ON tweets
+  FOR EACH ROW
+  EXECUTE FUNCTION merge_tweet_sources();
+`,
+  down: `
+DROP TRIGGER IF EXISTS tweets_merge_sources ON tweets;
+DROP FUNCTION IF EXISTS merge_tweet_sources();
+DROP INDEX IF EXISTS idx_tweets_sources;
+ALTER TABLE tweets DROP COLUMN IF EXISTS sources;
+`,
+};
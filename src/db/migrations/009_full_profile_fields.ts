@@ -0,0 +1,56 @@
+import type { Migration } from '../migrator.js';
+
+// Keep the profile and tweet fields RapidAPI returns instead of dropping them
+export const migration: Migration = {
+  version: 9,
+  name: 'full_profile_fields',
+  up: `
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS favourites_count INTEGER DEFAULT 0;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS location TEXT;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS website_url TEXT;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS verified BOOLEAN DEFAULT FALSE;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS verified_type TEXT;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS account_created_at TIMESTAMPTZ;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS cover_image_url TEXT;
+
+ALTER TABLE account_metric_snapshots ADD COLUMN IF NOT EXISTS favourites_count INTEGER DEFAULT 0;
+
+-- tweet_count has been holding favourites_count; move it to its own column
+UPDATE accounts SET favourites_count = tweet_count, tweet_count = 0;
+UPDATE account_metric_snapshots SET favourites_count = tweet_count, tweet_count = 0;
+
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS views BIGINT;
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS bookmarks INTEGER DEFAULT 0;
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS lang TEXT;
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS conversation_id TEXT;
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS entities JSONB DEFAULT '{}'::jsonb;
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS media JSONB DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_verified ON accounts(verified) WHERE verified;
+CREATE INDEX IF NOT EXISTS idx_tweets_conversation_id ON tweets(conversation_id);
+`,
+  down: `
+DROP INDEX IF EXISTS idx_tweets_conversation_id;
+DROP INDEX IF EXISTS idx_accounts_verified;
+
+ALTER TABLE tweets DROP COLUMN IF EXISTS media;
+ALTER TABLE tweets DROP COLUMN IF EXISTS entities;
+ALTER TABLE tweets DROP COLUMN IF EXISTS conversation_id;
+ALTER TABLE tweets DROP COLUMN IF EXISTS lang;
+ALTER TABLE tweets DROP COLUMN IF EXISTS bookmarks;
+ALTER TABLE tweets DROP COLUMN IF EXISTS views;
+
+UPDATE account_metric_snapshots SET tweet_count = favourites_count;
+UPDATE accounts SET tweet_count = favourites_count;
+
+ALTER TABLE account_metric_snapshots DROP COLUMN IF EXISTS favourites_count;
+
+ALTER TABLE accounts DROP COLUMN IF EXISTS cover_image_url;
+ALTER TABLE accounts DROP COLUMN IF EXISTS account_created_at;
+ALTER TABLE accounts DROP COLUMN IF EXISTS verified_type;
+ALTER TABLE accounts DROP COLUMN IF EXISTS verified;
+ALTER TABLE accounts DROP COLUMN IF EXISTS website_url;
+ALTER TABLE accounts DROP COLUMN IF EXISTS location;
+ALTER TABLE accounts DROP COLUMN IF EXISTS favourites_count;
+`,
+};
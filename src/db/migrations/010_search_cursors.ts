@@ -0,0 +1,23 @@
+import type { Migration } from '../migrator.js';
+
+// Per-keyword high-water marks so recurring searches only fetch tweets newer than the last run
+export const migration: Migration = {
+  version: 10,
+  name: 'search_cursors',
+  up: `
+CREATE TABLE IF NOT EXISTS search_cursors (
+  query TEXT PRIMARY KEY,
+  newest_tweet_id TEXT,
+  newest_tweet_at TIMESTAMPTZ,
+  -- Set while a run stopped at the page limit before reaching known tweets;
+  -- the next run resumes the same since_id query from this cursor
+  last_cursor TEXT,
+  cursor_since_id TEXT,
+  last_run_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+`,
+  down: `
+DROP TABLE IF EXISTS search_cursors;
+`,
+};
@@ -0,0 +1,42 @@
+import type { Migration } from '../migrator.js';
+
+// Mention/reply/quote edges between users and the influence scores computed from them
+export const migration: Migration = {
+  version: 11,
+  name: 'interaction_graph',
+  up: `
+-- Keyed by username: mentioned users often have no account row yet
+CREATE TABLE IF NOT EXISTS account_interactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tweet_id TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('mention', 'reply', 'quote')),
+  source_twitter_id TEXT NOT NULL,
+  source_username TEXT NOT NULL,
+  target_twitter_id TEXT,
+  target_username TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL,
+  UNIQUE (tweet_id, target_username, type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_interactions_source ON account_interactions(source_username);
+CREATE INDEX IF NOT EXISTS idx_account_interactions_target ON account_interactions(target_username);
+
+-- Replaced wholesale each time influence is recomputed
+CREATE TABLE IF NOT EXISTS account_influence (
+  username TEXT PRIMARY KEY,
+  twitter_id TEXT,
+  pagerank DOUBLE PRECISION NOT NULL,
+  influence_score REAL NOT NULL,
+  in_degree INTEGER NOT NULL DEFAULT 0,
+  out_degree INTEGER NOT NULL DEFAULT 0,
+  interactions_received INTEGER NOT NULL DEFAULT 0,
+  computed_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_influence_pagerank ON account_influence(pagerank DESC);
+`,
+  down: `
+DROP TABLE IF EXISTS account_influence;
+DROP TABLE IF EXISTS account_interactions;
+`,
+};
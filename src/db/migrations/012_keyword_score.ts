@@ -0,0 +1,13 @@
+import type { Migration } from '../migrator.js';
+
+// Weighted keyword score per tweet; existing rows are scored by `npm run retag-tweets`
+export const migration: Migration = {
+  version: 12,
+  name: 'keyword_score',
+  up: `
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS x402_keyword_score REAL NOT NULL DEFAULT 0;
+`,
+  down: `
+ALTER TABLE tweets DROP COLUMN IF EXISTS x402_keyword_score;
+`,
+};
@@ -0,0 +1,64 @@
+import type { Migration } from '../migrator.js';
+
+// Structured code evidence per tweet, and GitHub links in tweets counting towards accounts.has_github
+export const migration: Migration = {
+  version: 13,
+  name: 'tweet_code_analysis',
+  up: `
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS code_evidence TEXT
+  CHECK (code_evidence IN ('code_block', 'inline_code', 'screenshot'));
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS code_languages TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS repo_links JSONB NOT NULL DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_tweets_code_evidence ON tweets(account_id) WHERE code_evidence IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tweets_repo_links ON tweets USING GIN(repo_links);
+
+-- Existing rows keep their regex-based has_code/has_github until npm run retag-tweets re-analyzes them
+
+-- A tweet linking a GitHub repo is evidence for its author
+CREATE OR REPLACE FUNCTION flag_account_github()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.has_github THEN
+    UPDATE accounts SET has_github = TRUE WHERE id = NEW.account_id AND NOT has_github;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tweets_flag_account_github ON tweets;
+CREATE TRIGGER tweets_flag_account_github
+  AFTER INSERT OR UPDATE OF has_github ON tweets
+  FOR EACH ROW
+  EXECUTE FUNCTION flag_account_github();
+
+-- Profile upserts only know about the bio; keep has_github while tweet evidence exists
+CREATE OR REPLACE FUNCTION keep_account_github()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.has_github AND NOT NEW.has_github
+    AND EXISTS (SELECT 1 FROM tweets WHERE account_id = NEW.id AND has_github) THEN
+    NEW.has_github = TRUE;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS accounts_keep_github ON accounts;
+CREATE TRIGGER accounts_keep_github
+  BEFORE UPDATE ON accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_account_github();
+`,
+  down: `
+DROP TRIGGER IF EXISTS accounts_keep_github ON accounts;
+DROP FUNCTION IF EXISTS keep_account_github();
+DROP TRIGGER IF EXISTS tweets_flag_account_github ON tweets;
+DROP FUNCTION IF EXISTS flag_account_github();
+DROP INDEX IF EXISTS idx_tweets_repo_links;
+DROP INDEX IF EXISTS idx_tweets_code_evidence;
+ALTER TABLE tweets DROP COLUMN IF EXISTS repo_links;
+ALTER TABLE tweets DROP COLUMN IF EXISTS code_languages;
+ALTER TABLE tweets DROP COLUMN IF EXISTS code_evidence;
+`,
+};
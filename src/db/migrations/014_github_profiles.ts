@@ -0,0 +1,33 @@
+import type { Migration } from '../migrator.js';
+
+// GitHub profile, repositories and activity per account, from the GitHub enrichment stage
+export const migration: Migration = {
+  version: 14,
+  name: 'github_profiles',
+  up: `
+CREATE TABLE IF NOT EXISTS github_profiles (
+  account_id UUID PRIMARY KEY REFERENCES accounts(id) ON DELETE CASCADE,
+  github_username TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('bio', 'website', 'tweet')),
+  name TEXT,
+  bio TEXT,
+  public_repos INTEGER NOT NULL DEFAULT 0,
+  followers INTEGER NOT NULL DEFAULT 0,
+  github_created_at TIMESTAMPTZ,
+  -- Owned repositories per primary language
+  languages JSONB NOT NULL DEFAULT '{}',
+  recent_pushes INTEGER NOT NULL DEFAULT 0,
+  last_push_at TIMESTAMPTZ,
+  -- Most recently pushed repositories, with x402 flags
+  repos JSONB NOT NULL DEFAULT '[]',
+  x402_repo_count INTEGER NOT NULL DEFAULT 0,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_github_profiles_username ON github_profiles(LOWER(github_username));
+CREATE INDEX IF NOT EXISTS idx_github_profiles_x402 ON github_profiles(x402_repo_count) WHERE x402_repo_count > 0;
+`,
+  down: `
+DROP TABLE IF EXISTS github_profiles;
+`,
+};
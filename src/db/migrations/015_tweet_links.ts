@@ -0,0 +1,17 @@
+import type { Migration } from '../migrator.js';
+
+// Normalized links shared in each tweet, for domain and link analytics
+export const migration: Migration = {
+  version: 15,
+  name: 'tweet_links',
+  up: `
+-- [{ "url": ..., "host": ..., "domain": ... }]; filled for older tweets by npm run retag-tweets
+ALTER TABLE tweets ADD COLUMN IF NOT EXISTS links JSONB NOT NULL DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_tweets_links ON tweets USING GIN (links jsonb_path_ops);
+`,
+  down: `
+DROP INDEX IF EXISTS idx_tweets_links;
+ALTER TABLE tweets DROP COLUMN IF EXISTS links;
+`,
+};
@@ -0,0 +1,20 @@
+import type { Migration } from '../migrator.js';
+
+// The score columns from the initial schema are now computed; record when, and index them for sorting
+export const migration: Migration = {
+  version: 16,
+  name: 'account_scores',
+  up: `
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS scores_computed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_tech_score ON accounts(tech_score DESC);
+CREATE INDEX IF NOT EXISTS idx_accounts_x402_relevance ON accounts(x402_relevance DESC);
+CREATE INDEX IF NOT EXISTS idx_accounts_last_active_at ON accounts(last_active_at DESC NULLS LAST);
+`,
+  down: `
+DROP INDEX IF EXISTS idx_accounts_last_active_at;
+DROP INDEX IF EXISTS idx_accounts_x402_relevance;
+DROP INDEX IF EXISTS idx_accounts_tech_score;
+ALTER TABLE accounts DROP COLUMN IF EXISTS scores_computed_at;
+`,
+};
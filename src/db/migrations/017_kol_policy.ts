@@ -0,0 +1,25 @@
+import type { Migration } from '../migrator.js';
+
+// KOL verdicts below a KOL threshold, and runtime settings such as the thresholds themselves
+export const migration: Migration = {
+  version: 17,
+  name: 'kol_policy',
+  up: `
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS needs_review BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS threshold_failures JSONB NOT NULL DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_accounts_needs_review ON accounts(needs_review) WHERE needs_review;
+
+CREATE TABLE IF NOT EXISTS settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+`,
+  down: `
+DROP TABLE IF EXISTS settings;
+DROP INDEX IF EXISTS idx_accounts_needs_review;
+ALTER TABLE accounts DROP COLUMN IF EXISTS threshold_failures;
+ALTER TABLE accounts DROP COLUMN IF EXISTS needs_review;
+`,
+};
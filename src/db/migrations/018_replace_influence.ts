@@ -0,0 +1,24 @@
+import type { Migration } from '../migrator.js';
+
+// Swap in recomputed influence scores in one transaction, so readers never see an empty or half-filled table
+export const migration: Migration = {
+  version: 18,
+  name: 'replace_influence',
+  up: `
+CREATE OR REPLACE FUNCTION replace_account_influence(scores JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  saved INTEGER;
+BEGIN
+  DELETE FROM account_influence WHERE true;
+  INSERT INTO account_influence
+  SELECT * FROM jsonb_populate_recordset(NULL::account_influence, scores);
+  GET DIAGNOSTICS saved = ROW_COUNT;
+  RETURN saved;
+END;
+$$ LANGUAGE plpgsql;
+`,
+  down: `
+DROP FUNCTION IF EXISTS replace_account_influence(JSONB);
+`,
+};
@@ -0,0 +1,139 @@
+import type { Migration } from '../migrator.js';
+
+// Account search honors the score, review and archived filters of the plain list, and its sort order when one is asked for
+export const migration: Migration = {
+  version: 19,
+  name: 'search_accounts_filters',
+  up: `
+-- New parameters make a new overload, so drop the old one to keep RPC calls unambiguous
+DROP FUNCTION IF EXISTS search_accounts(TEXT, TEXT, REAL, BOOLEAN, INTEGER, INTEGER);
+
+CREATE FUNCTION search_accounts(
+  search_query TEXT,
+  filter_category TEXT DEFAULT NULL,
+  min_confidence REAL DEFAULT NULL,
+  filter_has_github BOOLEAN DEFAULT NULL,
+  page_limit INTEGER DEFAULT 50,
+  page_offset INTEGER DEFAULT 0,
+  min_engagement_score REAL DEFAULT NULL,
+  min_tech_score REAL DEFAULT NULL,
+  min_x402_relevance REAL DEFAULT NULL,
+  filter_needs_review BOOLEAN DEFAULT NULL,
+  order_by TEXT DEFAULT NULL,
+  order_dir TEXT DEFAULT 'desc',
+  filter_archived BOOLEAN DEFAULT false
+)
+RETURNS TABLE (account JSONB, rank REAL, matched_tweets BIGINT, total_count BIGINT)
+LANGUAGE sql STABLE AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', search_query) AS query
+  ),
+  tweet_hits AS (
+    SELECT t.account_id, MAX(ts_rank(tweet_search_document(t.content), q.query)) AS rank, COUNT(*) AS matched
+    FROM tweets t, q
+    WHERE tweet_search_document(t.content) @@ q.query
+    GROUP BY t.account_id
+  ),
+  documents AS (
+    SELECT a.*, account_search_document(a.username, a.display_name, a.bio, a.ai_reasoning) AS document
+    FROM accounts a
+    -- Archived accounts only when asked for, like the plain list
+    WHERE (a.deleted_at IS NOT NULL) = COALESCE(filter_archived, false)
+  ),
+  hits AS (
+    SELECT
+      d.*,
+      (CASE WHEN d.document @@ q.query THEN ts_rank(d.document, q.query) ELSE 0 END
+        + COALESCE(th.rank, 0) * 0.5)::REAL AS search_rank,
+      COALESCE(th.matched, 0) AS matched,
+      -- The column to sort by as a number; NULL (no order_by) leaves relevance in charge
+      CASE order_by
+        WHEN 'ai_confidence' THEN d.ai_confidence::DOUBLE PRECISION
+        WHEN 'followers_count' THEN d.followers_count::DOUBLE PRECISION
+        WHEN 'created_at' THEN EXTRACT(EPOCH FROM d.created_at)::DOUBLE PRECISION
+        WHEN 'ai_categorized_at' THEN EXTRACT(EPOCH FROM d.ai_categorized_at)::DOUBLE PRECISION
+        WHEN 'engagement_score' THEN d.engagement_score::DOUBLE PRECISION
+        WHEN 'tech_score' THEN d.tech_score::DOUBLE PRECISION
+        WHEN 'x402_relevance' THEN d.x402_relevance::DOUBLE PRECISION
+        WHEN 'x402_tweet_count_30d' THEN d.x402_tweet_count_30d::DOUBLE PRECISION
+        WHEN 'last_active_at' THEN EXTRACT(EPOCH FROM d.last_active_at)::DOUBLE PRECISION
+      END AS sort_value
+    FROM documents d
+    CROSS JOIN q
+    LEFT JOIN tweet_hits th ON th.account_id = d.id
+    WHERE (d.document @@ q.query OR th.account_id IS NOT NULL)
+      AND (filter_category IS NULL OR d.ai_category = filter_category)
+      AND (min_confidence IS NULL OR d.ai_confidence >= min_confidence)
+      AND (filter_has_github IS NULL OR d.has_github = filter_has_github)
+      AND (min_engagement_score IS NULL OR d.engagement_score >= min_engagement_score)
+      AND (min_tech_score IS NULL OR d.tech_score >= min_tech_score)
+      AND (min_x402_relevance IS NULL OR d.x402_relevance >= min_x402_relevance)
+      AND (filter_needs_review IS NULL OR d.needs_review = filter_needs_review)
+  )
+  SELECT
+    to_jsonb(h) - 'document' - 'search_rank' - 'matched' - 'sort_value',
+    h.search_rank,
+    h.matched,
+    COUNT(*) OVER ()
+  FROM hits h
+  ORDER BY
+    CASE WHEN order_dir = 'asc' THEN h.sort_value END ASC NULLS LAST,
+    CASE WHEN order_dir <> 'asc' THEN h.sort_value END DESC NULLS LAST,
+    h.search_rank DESC,
+    h.followers_count DESC
+  LIMIT page_limit OFFSET page_offset;
+$$;
+`,
+  down: `
+DROP FUNCTION IF EXISTS search_accounts(TEXT, TEXT, REAL, BOOLEAN, INTEGER, INTEGER, REAL, REAL, REAL, BOOLEAN, TEXT, TEXT, BOOLEAN);
+
+-- Migration 007 definition
+CREATE FUNCTION search_accounts(
+  search_query TEXT,
+  filter_category TEXT DEFAULT NULL,
+  min_confidence REAL DEFAULT NULL,
+  filter_has_github BOOLEAN DEFAULT NULL,
+  page_limit INTEGER DEFAULT 50,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (account JSONB, rank REAL, matched_tweets BIGINT, total_count BIGINT)
+LANGUAGE sql STABLE AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', search_query) AS query
+  ),
+  tweet_hits AS (
+    SELECT t.account_id, MAX(ts_rank(tweet_search_document(t.content), q.query)) AS rank, COUNT(*) AS matched
+    FROM tweets t, q
+    WHERE tweet_search_document(t.content) @@ q.query
+    GROUP BY t.account_id
+  ),
+  documents AS (
+    SELECT a.*, account_search_document(a.username, a.display_name, a.bio, a.ai_reasoning) AS document
+    FROM accounts a
+    WHERE a.deleted_at IS NULL
+  ),
+  hits AS (
+    SELECT
+      d.*,
+      (CASE WHEN d.document @@ q.query THEN ts_rank(d.document, q.query) ELSE 0 END
+        + COALESCE(th.rank, 0) * 0.5)::REAL AS search_rank,
+      COALESCE(th.matched, 0) AS matched
+    FROM documents d
+    CROSS JOIN q
+    LEFT JOIN tweet_hits th ON th.account_id = d.id
+    WHERE (d.document @@ q.query OR th.account_id IS NOT NULL)
+      AND (filter_category IS NULL OR d.ai_category = filter_category)
+      AND (min_confidence IS NULL OR d.ai_confidence >= min_confidence)
+      AND (filter_has_github IS NULL OR d.has_github = filter_has_github)
+  )
+  SELECT
+    to_jsonb(h) - 'document' - 'search_rank' - 'matched',
+    h.search_rank,
+    h.matched,
+    COUNT(*) OVER ()
+  FROM hits h
+  ORDER BY h.search_rank DESC, h.followers_count DESC
+  LIMIT page_limit OFFSET page_offset;
+$$;
+`,
+};
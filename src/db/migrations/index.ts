@@ -0,0 +1,23 @@
+import type { Migration } from '../migrator.js';
+import { migration as m001 } from './001_initial_schema.js';
+import { migration as m002 } from './002_ai_categorization.js';
+import { migration as m003 } from './003_categorization_history.js';
+import { migration as m004 } from './004_account_metric_snapshots.js';
+import { migration as m005 } from './005_crawl_runs.js';
+import { migration as m006 } from './006_full_text_search.js';
+import { migration as m007 } from './007_blocklist_soft_delete.js';
+import { migration as m008 } from './008_tweet_sources.js';
+import { migration as m009 } from './009_full_profile_fields.js';
+import { migration as m010 } from './010_search_cursors.js';
+import { migration as m011 } from './011_interaction_graph.js';
+import { migration as m012 } from './012_keyword_score.js';
+import { migration as m013 } from './013_tweet_code_analysis.js';
+import { migration as m014 } from './014_github_profiles.js';
+import { migration as m015 } from './015_tweet_links.js';
+import { migration as m016 } from './016_account_scores.js';
+import { migration as m017 } from './017_kol_policy.js';
+import { migration as m018 } from './018_replace_influence.js';
+import { migration as m019 } from './019_search_accounts_filters.js';
+
+// All migrations in version order. Add new files as NNN_description.ts and register them here.
+export const migrations: Migration[] = [m001, m002, m003, m004, m005, m006, m007, m008, m009, m010, m011, m012, m013, m014, m015, m016, m017, m018, m019];
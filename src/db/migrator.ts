@@ -0,0 +1,171 @@
+import { createHash } from 'node:crypto';
+import pg from 'pg';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { migrations as registeredMigrations } from './migrations/index.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt: string | null;
+  // True when the migration's SQL changed after it was applied
+  modified: boolean;
+}
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+function checksum(migration: Migration): string {
+  return createHash('sha256').update(migration.up).digest('hex');
+}
+
+function sortedMigrations(migrations: Migration[]): Migration[] {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].version === sorted[i - 1].version) {
+      throw new Error(`Duplicate migration version ${sorted[i].version}`);
+    }
+  }
+  return sorted;
+}
+
+async function withClient<T>(fn: (client: pg.Client) => Promise<T>): Promise<T> {
+  if (!config.database.url) {
+    throw new Error('DATABASE_URL is required to run migrations');
+  }
+  const client = new pg.Client({ connectionString: config.database.url });
+  await client.connect();
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    return await fn(client);
+  } finally {
+    await client.end();
+  }
+}
+
+async function getApplied(
+  client: pg.Client
+): Promise<Map<number, { checksum: string; applied_at: Date }>> {
+  const { rows } = await client.query<{ version: number; checksum: string; applied_at: Date }>(
+    `SELECT version, checksum, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY version`
+  );
+  return new Map(rows.map((row) => [row.version, { checksum: row.checksum, applied_at: row.applied_at }]));
+}
+
+/**
+ * Run a single migration step inside a transaction
+ */
+async function runStep(client: pg.Client, migration: Migration, direction: 'up' | 'down'): Promise<void> {
+  const label = `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+  logger.info(`Migrating ${direction}: ${label}`);
+
+  await client.query('BEGIN');
+  try {
+    await client.query(direction === 'up' ? migration.up : migration.down);
+    if (direction === 'up') {
+      await client.query(
+        `INSERT INTO ${MIGRATIONS_TABLE} (version, name, checksum) VALUES ($1, $2, $3)`,
+        [migration.version, migration.name, checksum(migration)]
+      );
+    } else {
+      await client.query(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [migration.version]);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw new Error(
+      `Migration ${label} (${direction}) failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Apply pending migrations, optionally stopping at a target version
+ * @returns Versions that were applied
+ */
+export async function migrateUp(
+  targetVersion?: number,
+  migrations: Migration[] = registeredMigrations
+): Promise<number[]> {
+  return withClient(async (client) => {
+    const applied = await getApplied(client);
+    const pending = sortedMigrations(migrations).filter(
+      (m) => !applied.has(m.version) && (targetVersion === undefined || m.version <= targetVersion)
+    );
+
+    if (pending.length === 0) {
+      logger.info('Database is up to date');
+      return [];
+    }
+
+    for (const migration of pending) {
+      await runStep(client, migration, 'up');
+    }
+    return pending.map((m) => m.version);
+  });
+}
+
+/**
+ * Roll back the most recently applied migrations
+ * @param steps Number of migrations to roll back (default: 1)
+ * @returns Versions that were rolled back
+ */
+export async function migrateDown(
+  steps = 1,
+  migrations: Migration[] = registeredMigrations
+): Promise<number[]> {
+  return withClient(async (client) => {
+    const applied = await getApplied(client);
+    const byVersion = new Map(migrations.map((m) => [m.version, m]));
+    const toRevert = [...applied.keys()].sort((a, b) => b - a).slice(0, steps);
+
+    if (toRevert.length === 0) {
+      logger.info('No applied migrations to roll back');
+      return [];
+    }
+
+    for (const version of toRevert) {
+      const migration = byVersion.get(version);
+      if (!migration) {
+        throw new Error(`Applied migration ${version} has no migration file; cannot roll back`);
+      }
+      await runStep(client, migration, 'down');
+    }
+    return toRevert;
+  });
+}
+
+/**
+ * Report which migrations are applied and which are pending
+ */
+export async function getMigrationStatus(
+  migrations: Migration[] = registeredMigrations
+): Promise<MigrationStatus[]> {
+  return withClient(async (client) => {
+    const applied = await getApplied(client);
+    return sortedMigrations(migrations).map((migration) => {
+      const row = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied: !!row,
+        appliedAt: row ? row.applied_at.toISOString() : null,
+        modified: !!row && row.checksum !== checksum(migration),
+      };
+    });
+  });
+}
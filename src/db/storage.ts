@@ -0,0 +1,284 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { createSupabaseStorage } from './supabaseStorage.js';
+import { createMemoryStorage } from './memoryStorage.js';
+import type {
+  Account,
+  Tweet,
+  AccountFilters,
+  PaginatedResponse,
+  CategorizationHistoryEntry,
+  AccountMetricSnapshot,
+  CrawlRun,
+  CrawlRunType,
+  TweetSearchResult,
+  BlocklistEntry,
+  TweetSource,
+  SearchCursor,
+  AccountInteraction,
+  InfluenceScore,
+  GithubProfile,
+  ThresholdFailure,
+} from '../types/index.js';
+
+// tweet_count is left out when the source does not report it, so the stored count is kept
+export type NewAccount = Omit<Account, 'id' | 'created_at' | 'updated_at' | 'tweet_count'> & { tweet_count?: number };
+export type NewTweet = Omit<Tweet, 'id'>;
+export type NewCategorizationHistoryEntry = Omit<CategorizationHistoryEntry, 'id' | 'account_id' | 'created_at'>;
+export type NewMetricSnapshot = Omit<AccountMetricSnapshot, 'id' | 'account_id' | 'captured_at'>;
+export type NewCrawlRun = Omit<CrawlRun, 'id' | 'created_at'>;
+export type CrawlRunUpdate = Partial<Omit<CrawlRun, 'id' | 'type' | 'started_at' | 'created_at'>>;
+export type NewBlocklistEntry = Omit<BlocklistEntry, 'created_at'>;
+// Fields derived from a tweet's text, which a backfill can recompute
+export type TweetTags = Pick<
+  Tweet,
+  | 'twitter_id'
+  | 'x402_keywords_found'
+  | 'x402_keyword_score'
+  | 'has_code'
+  | 'code_evidence'
+  | 'code_languages'
+  | 'repo_links'
+  | 'has_github'
+  | 'links'
+>;
+
+// Which tweets' links to read for link analytics
+export interface TweetLinkFilters {
+  accountId?: string;
+  // Only tweets created at or after this time
+  since?: string;
+  // Only tweets tagged with an x402 keyword
+  x402Only?: boolean;
+}
+
+// Result row of a set-based account upsert
+export interface UpsertedAccountRef {
+  id: string;
+  twitter_id: string;
+  created: boolean;
+}
+
+export interface AICategoryUpdate {
+  ai_category: string;
+  ai_reasoning: string;
+  ai_confidence: number;
+  // Set by the KOL threshold policy; every verdict replaces them (omitted means none)
+  needs_review?: boolean;
+  threshold_failures?: ThresholdFailure[];
+}
+
+// Scores computed from an account's stored tweets
+export interface AccountScoreUpdate {
+  engagement_score: number;
+  tech_score: number;
+  x402_relevance: number;
+  x402_tweet_count_30d: number;
+  last_active_at: string | null;
+}
+
+export interface EnhancedAICategoryUpdate extends AICategoryUpdate {
+  topic_consistency_score: number;
+  content_depth_score: number;
+  topic_focus_score: number;
+  red_flags: Array<{ type: string; description: string; severity: string; signal?: string; evidence_tweet_ids?: string[] }>;
+  primary_topics: string[];
+}
+
+// Outcome of a bulk categorization write; `updated` holds the twitter_ids of rows that were changed
+export interface BulkUpdateResult {
+  success: number;
+  failed: number;
+  updated: string[];
+}
+
+export interface SearchQueryRecord {
+  query: string;
+  results_count: number;
+  last_run_at: string;
+}
+
+/**
+ * Persistence contract for accounts. Every storage backend implements this,
+ * and AccountModel delegates to whichever backend is active.
+ */
+export interface AccountStore {
+  upsert(account: NewAccount): Promise<Account | null>;
+  bulkUpsert(accounts: NewAccount[]): Promise<number>;
+  // Upsert in as few round trips as possible, reporting each row's id and whether it was new
+  bulkUpsertWithIds(accounts: NewAccount[]): Promise<UpsertedAccountRef[]>;
+  getByTwitterId(twitterId: string): Promise<Account | null>;
+  getById(id: string): Promise<Account | null>;
+  list(
+    filters?: AccountFilters,
+    page?: number,
+    limit?: number,
+    // Defaults to ai_confidence; searches stay in relevance order unless it is given
+    orderBy?: string,
+    orderDir?: 'asc' | 'desc'
+  ): Promise<PaginatedResponse<Account>>;
+  getAICategoryStats(): Promise<Record<string, number>>;
+  // Soft delete: set deleted_at; the row and its history are kept
+  archive(id: string): Promise<boolean>;
+  restore(id: string): Promise<boolean>;
+  // Hard delete (cascades to tweets, history and snapshots)
+  delete(id: string): Promise<boolean>;
+  updateAICategory(twitterId: string, data: AICategoryUpdate): Promise<boolean>;
+  updateAICategoryEnhanced(twitterId: string, data: EnhancedAICategoryUpdate): Promise<boolean>;
+  getUncategorizedAccounts(limit?: number): Promise<Account[]>;
+  // Updates matching no account count as failed
+  bulkUpdateAICategoryEnhanced(
+    updates: Array<EnhancedAICategoryUpdate & { twitter_id: string }>
+  ): Promise<BulkUpdateResult>;
+  // Case-insensitive, like Twitter handles
+  getByUsernames(usernames: string[]): Promise<Account[]>;
+  getByTwitterIds(twitterIds: string[]): Promise<Account[]>;
+  bulkUpdateAICategorization(
+    updates: Array<AICategoryUpdate & { twitter_id: string }>
+  ): Promise<BulkUpdateResult>;
+  // Also sets scores_computed_at
+  bulkUpdateScores(
+    updates: Array<AccountScoreUpdate & { twitter_id: string }>
+  ): Promise<{ success: number; failed: number }>;
+}
+
+export interface TweetStore {
+  // Upsert on twitter_id, adding to the sources of an existing row; large inputs are written in chunks
+  bulkInsert(tweets: NewTweet[]): Promise<number>;
+  // Newest first, optionally only tweets tagged with `source`
+  getByAccountId(accountId: string, limit?: number, source?: TweetSource): Promise<Tweet[]>;
+  getRecentByAccountId(accountId: string): Promise<Tweet[]>;
+  countX402Tweets30d(accountId: string): Promise<number>;
+  // Ranked full-text search over tweet content (websearch syntax: "phrase", or, -exclude)
+  search(query: string, page?: number, limit?: number): Promise<PaginatedResponse<TweetSearchResult>>;
+  // Tweet text and current tags in twitter_id order, after `afterTwitterId` (keyset paging for backfills)
+  listForTagging(
+    afterTwitterId: string | null,
+    limit: number
+  ): Promise<Array<TweetTags & Pick<Tweet, 'content' | 'entities' | 'media'>>>;
+  // Replace derived tags; returns rows updated
+  updateTags(updates: TweetTags[]): Promise<number>;
+  // Tweets that have links, with just the fields link analytics needs
+  listLinks(filters?: TweetLinkFilters): Promise<Array<Pick<Tweet, 'twitter_id' | 'account_id' | 'created_at' | 'links'>>>;
+}
+
+export interface SearchQueryStore {
+  log(query: string, resultsCount: number): Promise<void>;
+  getHistory(limit?: number): Promise<SearchQueryRecord[]>;
+  getCursor(query: string): Promise<SearchCursor | null>;
+  // Insert or replace a keyword's cursor
+  saveCursor(cursor: SearchCursor): Promise<void>;
+  listCursors(): Promise<SearchCursor[]>;
+  // Forget cursors (all when no queries are given) so the next run searches from scratch
+  resetCursors(queries?: string[]): Promise<number>;
+}
+
+/**
+ * Append-only log of categorization verdicts. Rows are never updated;
+ * account_id is resolved from twitter_id when the rows are written.
+ */
+export interface CategorizationHistoryStore {
+  record(entries: NewCategorizationHistoryEntry[]): Promise<number>;
+  getByAccountId(accountId: string, limit?: number): Promise<CategorizationHistoryEntry[]>;
+}
+
+/**
+ * Append-only follower/engagement snapshots; account_id is resolved from
+ * twitter_id when the rows are written.
+ */
+export interface MetricSnapshotStore {
+  record(snapshots: NewMetricSnapshot[]): Promise<number>;
+  // Oldest first, optionally only snapshots captured at or after `since`
+  getByAccountId(accountId: string, since?: string): Promise<AccountMetricSnapshot[]>;
+}
+
+export interface CrawlRunStore {
+  create(run: NewCrawlRun): Promise<CrawlRun | null>;
+  update(id: string, data: CrawlRunUpdate): Promise<boolean>;
+  getById(id: string): Promise<CrawlRun | null>;
+  // Newest first
+  list(page?: number, limit?: number, type?: CrawlRunType): Promise<PaginatedResponse<CrawlRun>>;
+}
+
+export interface BlocklistStore {
+  // Insert or replace the entry for twitter_id
+  add(entry: NewBlocklistEntry): Promise<BlocklistEntry | null>;
+  remove(twitterId: string): Promise<boolean>;
+  get(twitterId: string): Promise<BlocklistEntry | null>;
+  // Newest first
+  list(page?: number, limit?: number): Promise<PaginatedResponse<BlocklistEntry>>;
+  // The subset of twitterIds that are blocked
+  findBlocked(twitterIds: string[]): Promise<Set<string>>;
+}
+
+/**
+ * Interaction edges between users (usernames are stored lowercase) and the
+ * influence scores computed from them
+ */
+export interface GraphStore {
+  // Insert edges, skipping ones already recorded (same tweet, target and type)
+  addInteractions(edges: AccountInteraction[]): Promise<number>;
+  // Edges where the user is the source or the target
+  getInteractions(username: string): Promise<AccountInteraction[]>;
+  // Every edge, for scoring
+  listInteractions(): Promise<AccountInteraction[]>;
+  // Replace all influence scores
+  replaceInfluence(scores: InfluenceScore[]): Promise<number>;
+  // Highest pagerank first
+  listInfluence(page?: number, limit?: number): Promise<PaginatedResponse<InfluenceScore>>;
+  getInfluence(usernames: string[]): Promise<InfluenceScore[]>;
+}
+
+// One row per account, replaced on each enrichment
+export interface GithubProfileStore {
+  // Insert or replace the profile for its account_id
+  upsert(profile: GithubProfile): Promise<GithubProfile | null>;
+  getByAccountId(accountId: string): Promise<GithubProfile | null>;
+  getByAccountIds(accountIds: string[]): Promise<GithubProfile[]>;
+}
+
+// Runtime settings, stored as JSON values by key
+export interface SettingsStore {
+  get(key: string): Promise<unknown | null>;
+  // Insert or replace the value for key
+  set(key: string, value: unknown): Promise<boolean>;
+  delete(key: string): Promise<boolean>;
+}
+
+export interface StorageBackend {
+  name: string;
+  accounts: AccountStore;
+  tweets: TweetStore;
+  searchQueries: SearchQueryStore;
+  categorizationHistory: CategorizationHistoryStore;
+  metricSnapshots: MetricSnapshotStore;
+  crawlRuns: CrawlRunStore;
+  blocklist: BlocklistStore;
+  graph: GraphStore;
+  githubProfiles: GithubProfileStore;
+  settings: SettingsStore;
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Get the active storage backend, creating it from config on first use
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    if (config.storage.backend === 'memory') {
+      storage = createMemoryStorage({ filePath: config.storage.memoryFile || undefined });
+    } else {
+      storage = createSupabaseStorage();
+    }
+    logger.debug(`Using ${storage.name} storage backend`);
+  }
+  return storage;
+}
+
+/**
+ * Override the active storage backend (e.g. an in-memory backend in tests)
+ */
+export function setStorage(backend: StorageBackend): void {
+  storage = backend;
+}
@@ -0,0 +1,1273 @@
+import { getSupabase } from './supabase.js';
+import type {
+  Account,
+  Tweet,
+  AccountFilters,
+  PaginatedResponse,
+  CategorizationHistoryEntry,
+  AccountMetricSnapshot,
+  CrawlRun,
+  TweetSearchResult,
+  BlocklistEntry,
+  SearchCursor,
+  TweetSource,
+  AccountInteraction,
+  InfluenceScore,
+  GithubProfile,
+} from '../types/index.js';
+import type {
+  StorageBackend,
+  AccountStore,
+  TweetStore,
+  SearchQueryStore,
+  CategorizationHistoryStore,
+  MetricSnapshotStore,
+  CrawlRunStore,
+  BlocklistStore,
+  GraphStore,
+  GithubProfileStore,
+  SettingsStore,
+  NewAccount,
+  NewTweet,
+  AICategoryUpdate,
+  EnhancedAICategoryUpdate,
+  AccountScoreUpdate,
+  BulkUpdateResult,
+  SearchQueryRecord,
+  UpsertedAccountRef,
+  TweetTags,
+  TweetLinkFilters,
+} from './storage.js';
+
+// A new verdict clears the KOL threshold policy's marks unless it sets its own
+const NO_REVIEW = { needs_review: false, threshold_failures: [] };
+
+// Rows per upsert request; keeps payloads well under PostgREST limits
+const UPSERT_CHUNK_SIZE = 500;
+
+function chunk<T>(rows: T[], size: number = UPSERT_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) {
+    chunks.push(rows.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Postgres rejects an upsert that touches the same row twice, so keep the last row per key
+function dedupeBy<T>(rows: T[], key: (row: T) => string): T[] {
+  return Array.from(new Map(rows.map((row) => [key(row), row])).values());
+}
+
+// PostgREST sets a column missing from some rows of a bulk upsert to NULL, so upsert each column set separately
+function groupByColumns<T extends object>(rows: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const columns = Object.keys(row).sort().join(',');
+    groups.set(columns, [...(groups.get(columns) || []), row]);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Storage backend backed by the Supabase (PostgreSQL) project from config
+ */
+export function createSupabaseStorage(): StorageBackend {
+  const supabase = getSupabase();
+
+  // Map twitter_id -> account id for rows that reference accounts by Twitter ID
+  const resolveAccountIds = async (twitterIds: string[]): Promise<Map<string, string>> => {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, twitter_id')
+      .in('twitter_id', [...new Set(twitterIds)]);
+
+    if (error) {
+      console.error('Error resolving account IDs:', error);
+    }
+    return new Map((data || []).map((row: { id: string; twitter_id: string }) => [row.twitter_id, row.id]));
+  };
+
+  // Ranked full-text account search (search_accounts function, migration 019)
+  const searchAccounts = async (
+    filters: AccountFilters,
+    page: number,
+    limit: number,
+    orderBy: string | undefined,
+    orderDir: 'asc' | 'desc'
+  ): Promise<PaginatedResponse<Account>> => {
+    const { data, error } = await supabase.rpc('search_accounts', {
+      search_query: filters.query,
+      filter_category: filters.aiCategory ?? null,
+      min_confidence: filters.minAiConfidence ?? null,
+      filter_has_github: filters.hasGithub ?? null,
+      page_limit: limit,
+      page_offset: (page - 1) * limit,
+      min_engagement_score: filters.minEngagementScore ?? null,
+      min_tech_score: filters.minTechScore ?? null,
+      min_x402_relevance: filters.minX402Relevance ?? null,
+      filter_needs_review: filters.needsReview ?? null,
+      order_by: orderBy ?? null,
+      order_dir: orderDir,
+      filter_archived: filters.archived ?? false,
+    });
+
+    if (error) {
+      console.error('Error searching accounts:', error);
+      return { data: [], pagination: { page, limit, total: 0, totalPages: 0 } };
+    }
+
+    const rows = (data || []) as Array<{ account: Account; rank: number; matched_tweets: number; total_count: number }>;
+    const total = rows[0]?.total_count || 0;
+    return {
+      data: rows.map((row) => ({ ...row.account, search_rank: row.rank, matched_tweets: row.matched_tweets })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  };
+
+  const accounts: AccountStore = {
+    // Create or update account (upsert)
+    async upsert(account: NewAccount): Promise<Account | null> {
+      const { data, error } = await supabase
+        .from('accounts')
+        .upsert(account, { onConflict: 'twitter_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error upserting account:', error);
+        return null;
+      }
+      return data;
+    },
+
+    // Bulk upsert accounts
+    async bulkUpsert(accounts: NewAccount[]): Promise<number> {
+      const { data, error } = await supabase
+        .from('accounts')
+        .upsert(accounts, { onConflict: 'twitter_id' })
+        .select();
+
+      if (error) {
+        console.error('Error bulk upserting accounts:', error);
+        return 0;
+      }
+      return data?.length || 0;
+    },
+
+    // Bulk upsert accounts, returning ids and whether each row was inserted
+    async bulkUpsertWithIds(accounts: NewAccount[]): Promise<UpsertedAccountRef[]> {
+      const refs: UpsertedAccountRef[] = [];
+
+      const groups = groupByColumns(dedupeBy(accounts, (a) => a.twitter_id));
+      for (const rows of groups.flatMap((group) => chunk(group))) {
+        const { data, error } = await supabase
+          .from('accounts')
+          .upsert(rows, { onConflict: 'twitter_id' })
+          .select('id, twitter_id, created_at, updated_at');
+
+        if (error) {
+          console.error('Error bulk upserting accounts:', error);
+          continue;
+        }
+
+        // The updated_at trigger stamps updated rows with NOW(), so only inserted rows keep created_at = updated_at
+        for (const row of (data || []) as Array<{ id: string; twitter_id: string; created_at: string; updated_at: string }>) {
+          refs.push({ id: row.id, twitter_id: row.twitter_id, created: row.created_at === row.updated_at });
+        }
+      }
+      return refs;
+    },
+
+    // Get account by Twitter ID
+    async getByTwitterId(twitterId: string): Promise<Account | null> {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .eq('twitter_id', twitterId)
+        .single();
+
+      if (error) {
+        if (error.code !== 'PGRST116') { // Not found is ok
+          console.error('Error getting account:', error);
+        }
+        return null;
+      }
+      return data;
+    },
+
+    // Get account by ID
+    async getById(id: string): Promise<Account | null> {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        console.error('Error getting account:', error);
+        return null;
+      }
+      return data;
+    },
+
+    // List accounts with filtering and pagination
+    async list(
+      filters: AccountFilters = {},
+      page = 1,
+      limit = 50,
+      orderBy?: string,
+      orderDir: 'asc' | 'desc' = 'desc'
+    ): Promise<PaginatedResponse<Account>> {
+      if (filters.query) {
+        return searchAccounts(filters, page, limit, orderBy, orderDir);
+      }
+
+      let query = supabase.from('accounts').select('*', { count: 'exact' });
+
+      // Archived accounts are listed only when asked for
+      query = filters.archived ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null);
+
+      // Apply filters (AI category only)
+      if (filters.aiCategory) {
+        query = query.eq('ai_category', filters.aiCategory);
+      }
+      if (filters.minAiConfidence !== undefined) {
+        query = query.gte('ai_confidence', filters.minAiConfidence);
+      }
+      if (filters.hasGithub !== undefined) {
+        query = query.eq('has_github', filters.hasGithub);
+      }
+      if (filters.needsReview !== undefined) {
+        query = query.eq('needs_review', filters.needsReview);
+      }
+      if (filters.minEngagementScore !== undefined) {
+        query = query.gte('engagement_score', filters.minEngagementScore);
+      }
+      if (filters.minTechScore !== undefined) {
+        query = query.gte('tech_score', filters.minTechScore);
+      }
+      if (filters.minX402Relevance !== undefined) {
+        query = query.gte('x402_relevance', filters.minX402Relevance);
+      }
+
+      // Pagination; unscored accounts sort last like in the memory backend
+      const offset = (page - 1) * limit;
+      query = query.order(orderBy ?? 'ai_confidence', { ascending: orderDir === 'asc', nullsFirst: false }).range(offset, offset + limit - 1);
+
+      const { data, error, count } = await query;
+
+      if (error) {
+        console.error('Error listing accounts:', error);
+        return { data: [], pagination: { page, limit, total: 0, totalPages: 0 } };
+      }
+
+      const total = count || 0;
+      return {
+        data: data || [],
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    },
+
+    // Get AI category stats
+    async getAICategoryStats(): Promise<Record<string, number>> {
+      // Use separate count queries for each category to avoid Supabase's default 1000 row limit
+      // Get total count and categorized counts, then calculate UNCATEGORIZED as the difference
+      // Archived accounts are not counted
+      const activeAccounts = () =>
+        supabase.from('accounts').select('*', { count: 'exact', head: true }).is('deleted_at', null);
+      const [totalResult, kolResult, devResult, activeUserResult] = await Promise.all([
+        activeAccounts(),
+        activeAccounts().eq('ai_category', 'KOL'),
+        activeAccounts().eq('ai_category', 'DEVELOPER'),
+        activeAccounts().eq('ai_category', 'ACTIVE_USER'),
+      ]);
+
+      if (totalResult.error || kolResult.error || devResult.error || activeUserResult.error) {
+        console.error('Error getting AI category stats:', {
+          total: totalResult.error,
+          kol: kolResult.error,
+          dev: devResult.error,
+          activeUser: activeUserResult.error,
+        });
+        return { KOL: 0, DEVELOPER: 0, ACTIVE_USER: 0, UNCATEGORIZED: 0 };
+      }
+
+      const total = totalResult.count || 0;
+      const kol = kolResult.count || 0;
+      const developer = devResult.count || 0;
+      const activeUser = activeUserResult.count || 0;
+      // UNCATEGORIZED includes all accounts not in the three main categories (NULL, empty string, or any other value)
+      const uncategorized = total - kol - developer - activeUser;
+
+      return {
+        KOL: kol,
+        DEVELOPER: developer,
+        ACTIVE_USER: activeUser,
+        UNCATEGORIZED: uncategorized,
+      };
+    },
+
+    // Archive account (soft delete)
+    async archive(id: string): Promise<boolean> {
+      const { data, error } = await supabase
+        .from('accounts')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', id)
+        .select('id');
+
+      if (error) {
+        console.error('Error archiving account:', error);
+        return false;
+      }
+      return (data?.length || 0) > 0;
+    },
+
+    // Restore archived account
+    async restore(id: string): Promise<boolean> {
+      const { data, error } = await supabase
+        .from('accounts')
+        .update({ deleted_at: null })
+        .eq('id', id)
+        .select('id');
+
+      if (error) {
+        console.error('Error restoring account:', error);
+        return false;
+      }
+      return (data?.length || 0) > 0;
+    },
+
+    // Delete account permanently
+    async delete(id: string): Promise<boolean> {
+      const { error } = await supabase.from('accounts').delete().eq('id', id);
+
+      if (error) {
+        console.error('Error deleting account:', error);
+        return false;
+      }
+      return true;
+    },
+
+    // Update AI categorization
+    async updateAICategory(twitterId: string, data: AICategoryUpdate): Promise<boolean> {
+      const { error } = await supabase
+        .from('accounts')
+        .update({
+          ...NO_REVIEW,
+          ...data,
+          ai_categorized_at: new Date().toISOString(),
+        })
+        .eq('twitter_id', twitterId);
+
+      if (error) {
+        console.error('Error updating AI category:', error);
+        return false;
+      }
+      return true;
+    },
+
+    // Update AI categorization with enhanced quality scores
+    async updateAICategoryEnhanced(twitterId: string, data: EnhancedAICategoryUpdate): Promise<boolean> {
+      const { error } = await supabase
+        .from('accounts')
+        .update({
+          ai_category: data.ai_category,
+          ai_reasoning: data.ai_reasoning,
+          ai_confidence: data.ai_confidence,
+          topic_consistency_score: data.topic_consistency_score,
+          content_depth_score: data.content_depth_score,
+          topic_focus_score: data.topic_focus_score,
+          red_flags: data.red_flags,
+          primary_topics: data.primary_topics,
+          needs_review: data.needs_review ?? false,
+          threshold_failures: data.threshold_failures ?? [],
+          ai_categorized_at: new Date().toISOString(),
+        })
+        .eq('twitter_id', twitterId);
+
+      if (error) {
+        console.error('Error updating enhanced AI category:', error);
+        return false;
+      }
+      return true;
+    },
+
+    // Get accounts needing AI categorization (not categorized yet)
+    async getUncategorizedAccounts(limit = 100): Promise<Account[]> {
+      const { data, error } = await supabase
+        .from('accounts')
+        .select('*')
+        .is('ai_category', null)
+        .is('deleted_at', null)
+        .limit(limit);
+
+      if (error) {
+        console.error('Error getting uncategorized accounts:', error);
+        return [];
+      }
+      return data || [];
+    },
+
+    // Bulk update AI categorization with enhanced quality scores
+    async bulkUpdateAICategoryEnhanced(
+      updates: Array<EnhancedAICategoryUpdate & { twitter_id: string }>
+    ): Promise<BulkUpdateResult> {
+      const now = new Date().toISOString();
+      const updated: string[] = [];
+      let failed = 0;
+
+      // Process in batches to avoid overwhelming the database
+      const batchSize = 50;
+      for (let i = 0; i < updates.length; i += batchSize) {
+        const batch = updates.slice(i, i + batchSize);
+
+        // Use Promise.all for parallel updates within each batch
+        const results = await Promise.all(
+          batch.map(async (update) => {
+            const { data, error } = await supabase
+              .from('accounts')
+              .update({
+                ai_category: update.ai_category,
+                ai_reasoning: update.ai_reasoning,
+                ai_confidence: update.ai_confidence,
+                topic_consistency_score: update.topic_consistency_score,
+                content_depth_score: update.content_depth_score,
+                topic_focus_score: update.topic_focus_score,
+                red_flags: update.red_flags,
+                primary_topics: update.primary_topics,
+                needs_review: update.needs_review ?? false,
+                threshold_failures: update.threshold_failures ?? [],
+                ai_categorized_at: now,
+              })
+              .eq('twitter_id', update.twitter_id)
+              .select('twitter_id');
+
+            // An update matching no account changed nothing
+            return error || !data?.length ? 'failed' : update.twitter_id;
+          })
+        );
+
+        updated.push(...results.filter((r) => r !== 'failed'));
+        failed += results.filter((r) => r === 'failed').length;
+      }
+
+      return { success: updated.length, failed, updated };
+    },
+
+    // Get accounts by usernames (case-insensitive)
+    async getByUsernames(usernames: string[]): Promise<Account[]> {
+      if (usernames.length === 0) return [];
+
+      const wanted = new Set(usernames.map((u) => u.toLowerCase()));
+      const accounts: Account[] = [];
+      for (const batch of chunk([...wanted], 100)) {
+        // ilike treats "_" as a wildcard, so near matches are dropped below
+        const { data, error } = await supabase
+          .from('accounts')
+          .select('*')
+          .or(batch.map((u) => `username.ilike.${u}`).join(','));
+
+        if (error) {
+          console.error('Error getting accounts by usernames:', error);
+          return [];
+        }
+        accounts.push(...(data || []).filter((a: Account) => wanted.has(a.username.toLowerCase())));
+      }
+      return accounts;
+    },
+
+    async getByTwitterIds(twitterIds: string[]): Promise<Account[]> {
+      const accounts: Account[] = [];
+      for (const batch of chunk([...new Set(twitterIds)], 100)) {
+        const { data, error } = await supabase.from('accounts').select('*').in('twitter_id', batch);
+
+        if (error) {
+          console.error('Error getting accounts by Twitter IDs:', error);
+          return [];
+        }
+        accounts.push(...(data || []));
+      }
+      return accounts;
+    },
+
+    // Bulk update AI categorization (for secondary categorization)
+    async bulkUpdateAICategorization(
+      updates: Array<AICategoryUpdate & { twitter_id: string }>
+    ): Promise<BulkUpdateResult> {
+      const now = new Date().toISOString();
+      const updated: string[] = [];
+      let failed = 0;
+
+      // Process in batches to avoid overwhelming the database
+      const batchSize = 50;
+      for (let i = 0; i < updates.length; i += batchSize) {
+        const batch = updates.slice(i, i + batchSize);
+
+        // Use Promise.all for parallel updates within each batch
+        const results = await Promise.all(
+          batch.map(async (update) => {
+            const { data, error } = await supabase
+              .from('accounts')
+              .update({
+                ai_category: update.ai_category,
+                ai_reasoning: update.ai_reasoning,
+                ai_confidence: update.ai_confidence,
+                needs_review: update.needs_review ?? false,
+                threshold_failures: update.threshold_failures ?? [],
+                ai_categorized_at: now,
+              })
+              .eq('twitter_id', update.twitter_id)
+              .select('twitter_id');
+
+            // An update matching no account changed nothing
+            return error || !data?.length ? 'failed' : update.twitter_id;
+          })
+        );
+
+        updated.push(...results.filter((r) => r !== 'failed'));
+        failed += results.filter((r) => r === 'failed').length;
+      }
+
+      return { success: updated.length, failed, updated };
+    },
+
+    // Save computed scores
+    async bulkUpdateScores(
+      updates: Array<AccountScoreUpdate & { twitter_id: string }>
+    ): Promise<{ success: number; failed: number }> {
+      const now = new Date().toISOString();
+      let success = 0;
+      let failed = 0;
+
+      const batchSize = 50;
+      for (let i = 0; i < updates.length; i += batchSize) {
+        const batch = updates.slice(i, i + batchSize);
+
+        const results = await Promise.all(
+          batch.map(async ({ twitter_id, ...scores }) => {
+            const { error } = await supabase
+              .from('accounts')
+              .update({ ...scores, scores_computed_at: now })
+              .eq('twitter_id', twitter_id);
+
+            if (error) {
+              console.error(`Error saving scores for ${twitter_id}:`, error);
+            }
+            return error ? 'failed' : 'success';
+          })
+        );
+
+        success += results.filter((r) => r === 'success').length;
+        failed += results.filter((r) => r === 'failed').length;
+      }
+
+      return { success, failed };
+    },
+  };
+
+  const tweets: TweetStore = {
+    // Bulk insert tweets
+    async bulkInsert(tweets: NewTweet[]): Promise<number> {
+      let saved = 0;
+
+      for (const rows of chunk(dedupeBy(tweets, (t) => t.twitter_id))) {
+        const { data, error } = await supabase
+          .from('tweets')
+          .upsert(rows, { onConflict: 'twitter_id' })
+          .select('id');
+
+        if (error) {
+          console.error('Error bulk inserting tweets:', error);
+          continue;
+        }
+        saved += data?.length || 0;
+      }
+      return saved;
+    },
+
+    // Get tweets for account, optionally by source
+    async getByAccountId(accountId: string, limit = 100, source?: TweetSource): Promise<Tweet[]> {
+      let query = supabase.from('tweets').select('*').eq('account_id', accountId);
+
+      if (source) {
+        query = query.contains('sources', [source]);
+      }
+
+      const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+
+      if (error) {
+        console.error('Error getting tweets:', error);
+        return [];
+      }
+      return data || [];
+    },
+
+    // Get recent tweets (last 30 days) for analysis
+    async getRecentByAccountId(accountId: string): Promise<Tweet[]> {
+      const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+
+      const { data, error } = await supabase
+        .from('tweets')
+        .select('*')
+        .eq('account_id', accountId)
+        .gte('created_at', thirtyDaysAgo)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error getting recent tweets:', error);
+        return [];
+      }
+      return data || [];
+    },
+
+    // Count x402 tweets in last 30 days
+    async countX402Tweets30d(accountId: string): Promise<number> {
+      const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+
+      const { count, error } = await supabase
+        .from('tweets')
+        .select('*', { count: 'exact', head: true })
+        .eq('account_id', accountId)
+        .gte('created_at', thirtyDaysAgo)
+        .not('x402_keywords_found', 'eq', '{}');
+
+      if (error) {
+        console.error('Error counting x402 tweets:', error);
+        return 0;
+      }
+      return count || 0;
+    },
+
+    // Full-text tweet search with highlighted snippets (search_tweets function, migration 006)
+    async search(query: string, page = 1, limit = 20): Promise<PaginatedResponse<TweetSearchResult>> {
+      const { data, error } = await supabase.rpc('search_tweets', {
+        search_query: query,
+        page_limit: limit,
+        page_offset: (page - 1) * limit,
+      });
+
+      if (error) {
+        console.error('Error searching tweets:', error);
+        return { data: [], pagination: { page, limit, total: 0, totalPages: 0 } };
+      }
+
+      const rows = (data || []) as Array<TweetSearchResult & { total_count: number }>;
+      const total = rows[0]?.total_count || 0;
+      return {
+        data: rows.map(({ total_count: _total, ...result }) => result),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    },
+
+    // Page through tweet text and tags by twitter_id
+    async listForTagging(
+      afterTwitterId: string | null,
+      limit: number
+    ): Promise<Array<TweetTags & Pick<Tweet, 'content' | 'entities' | 'media'>>> {
+      let query = supabase
+        .from('tweets')
+        .select('twitter_id, content, entities, media, x402_keywords_found, x402_keyword_score, has_code, code_evidence, code_languages, repo_links, has_github, links');
+
+      if (afterTwitterId !== null) {
+        query = query.gt('twitter_id', afterTwitterId);
+      }
+
+      const { data, error } = await query.order('twitter_id', { ascending: true }).limit(limit);
+
+      if (error) {
+        console.error('Error listing tweets for tagging:', error);
+        return [];
+      }
+      return data || [];
+    },
+
+    // Update derived tags (one request per row, in parallel batches)
+    async updateTags(updates: TweetTags[]): Promise<number> {
+      let updated = 0;
+
+      for (const batch of chunk(updates, 50)) {
+        const results = await Promise.all(
+          batch.map(async ({ twitter_id, ...tags }) => {
+            const { error } = await supabase.from('tweets').update(tags).eq('twitter_id', twitter_id);
+            if (error) {
+              console.error(`Error updating tags for tweet ${twitter_id}:`, error);
+            }
+            return !error;
+          })
+        );
+        updated += results.filter(Boolean).length;
+      }
+      return updated;
+    },
+
+    // Tweets that have links, paged through in chunks
+    async listLinks(filters: TweetLinkFilters = {}): Promise<Array<Pick<Tweet, 'twitter_id' | 'account_id' | 'created_at' | 'links'>>> {
+      const rows: Array<Pick<Tweet, 'twitter_id' | 'account_id' | 'created_at' | 'links'>> = [];
+
+      for (let offset = 0; ; offset += UPSERT_CHUNK_SIZE) {
+        let query = supabase.from('tweets').select('twitter_id, account_id, created_at, links').neq('links', '[]');
+        if (filters.accountId) {
+          query = query.eq('account_id', filters.accountId);
+        }
+        if (filters.since) {
+          query = query.gte('created_at', filters.since);
+        }
+        if (filters.x402Only) {
+          query = query.neq('x402_keywords_found', '{}');
+        }
+
+        const { data, error } = await query
+          .order('twitter_id', { ascending: true })
+          .range(offset, offset + UPSERT_CHUNK_SIZE - 1);
+
+        if (error) {
+          console.error('Error listing tweet links:', error);
+          break;
+        }
+        rows.push(...(data || []));
+        if (!data || data.length < UPSERT_CHUNK_SIZE) break;
+      }
+      return rows;
+    },
+  };
+
+  const searchQueries: SearchQueryStore = {
+    // Log a search query
+    async log(query: string, resultsCount: number): Promise<void> {
+      await supabase.from('search_queries').insert({
+        query,
+        results_count: resultsCount,
+        last_run_at: new Date().toISOString(),
+      });
+    },
+
+    // Get search history
+    async getHistory(limit = 50): Promise<SearchQueryRecord[]> {
+      const { data, error } = await supabase
+        .from('search_queries')
+        .select('query, results_count, last_run_at')
+        .order('last_run_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error getting search history:', error);
+        return [];
+      }
+      return data || [];
+    },
+
+    // Get a keyword's incremental search cursor
+    async getCursor(query: string): Promise<SearchCursor | null> {
+      const { data, error } = await supabase
+        .from('search_cursors')
+        .select('*')
+        .eq('query', query)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error getting search cursor:', error);
+        return null;
+      }
+      return data;
+    },
+
+    // Insert or replace a keyword's cursor
+    async saveCursor(cursor: SearchCursor): Promise<void> {
+      const { error } = await supabase
+        .from('search_cursors')
+        .upsert({ ...cursor, updated_at: new Date().toISOString() }, { onConflict: 'query' });
+
+      if (error) {
+        console.error('Error saving search cursor:', error);
+      }
+    },
+
+    // List all keyword cursors
+    async listCursors(): Promise<SearchCursor[]> {
+      const { data, error } = await supabase
+        .from('search_cursors')
+        .select('*')
+        .order('query', { ascending: true });
+
+      if (error) {
+        console.error('Error listing search cursors:', error);
+        return [];
+      }
+      return data || [];
+    },
+
+    // Forget cursors (all when no queries are given)
+    async resetCursors(queries?: string[]): Promise<number> {
+      let request = supabase.from('search_cursors').delete();
+      request = queries ? request.in('query', queries) : request.neq('query', '');
+      const { data, error } = await request.select('query');
+
+      if (error) {
+        console.error('Error resetting search cursors:', error);
+        return 0;
+      }
+      return data?.length || 0;
+    },
+  };
+
+  const categorizationHistory: CategorizationHistoryStore = {
+    // Append categorization verdicts (account_id resolved from twitter_id)
+    async record(entries): Promise<number> {
+      if (entries.length === 0) return 0;
+
+      const accountIds = await resolveAccountIds(entries.map((e) => e.twitter_id));
+
+      const { data, error } = await supabase
+        .from('categorization_history')
+        .insert(entries.map((entry) => ({ ...entry, account_id: accountIds.get(entry.twitter_id) ?? null })))
+        .select('id');
+
+      if (error) {
+        console.error('Error recording categorization history:', error);
+        return 0;
+      }
+      return data?.length || 0;
+    },
+
+    // Get categorization history for account (newest first)
+    async getByAccountId(accountId: string, limit = 100): Promise<CategorizationHistoryEntry[]> {
+      const { data, error } = await supabase
+        .from('categorization_history')
+        .select('*')
+        .eq('account_id', accountId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error getting categorization history:', error);
+        return [];
+      }
+      return data || [];
+    },
+  };
+
+  const metricSnapshots: MetricSnapshotStore = {
+    // Append metric snapshots (account_id resolved from twitter_id)
+    async record(snapshots): Promise<number> {
+      if (snapshots.length === 0) return 0;
+
+      const accountIds = await resolveAccountIds(snapshots.map((s) => s.twitter_id));
+
+      const { data, error } = await supabase
+        .from('account_metric_snapshots')
+        .insert(snapshots.map((snapshot) => ({ ...snapshot, account_id: accountIds.get(snapshot.twitter_id) ?? null })))
+        .select('id');
+
+      if (error) {
+        console.error('Error recording metric snapshots:', error);
+        return 0;
+      }
+      return data?.length || 0;
+    },
+
+    // Get metric snapshots for account (oldest first)
+    async getByAccountId(accountId: string, since?: string): Promise<AccountMetricSnapshot[]> {
+      let query = supabase
+        .from('account_metric_snapshots')
+        .select('*')
+        .eq('account_id', accountId);
+
+      if (since) {
+        query = query.gte('captured_at', since);
+      }
+
+      const { data, error } = await query.order('captured_at', { ascending: true });
+
+      if (error) {
+        console.error('Error getting metric snapshots:', error);
+        return [];
+      }
+      return data || [];
+    },
+  };
+
+  const crawlRuns: CrawlRunStore = {
+    // Start a crawl run record
+    async create(run): Promise<CrawlRun | null> {
+      const { data, error } = await supabase.from('crawl_runs').insert(run).select().single();
+
+      if (error) {
+        console.error('Error creating crawl run:', error);
+        return null;
+      }
+      return data;
+    },
+
+    // Update crawl run progress or result
+    async update(id: string, data): Promise<boolean> {
+      const { error } = await supabase.from('crawl_runs').update(data).eq('id', id);
+
+      if (error) {
+        console.error('Error updating crawl run:', error);
+        return false;
+      }
+      return true;
+    },
+
+    // Get crawl run by ID
+    async getById(id: string): Promise<CrawlRun | null> {
+      const { data, error } = await supabase.from('crawl_runs').select('*').eq('id', id).single();
+
+      if (error) {
+        console.error('Error getting crawl run:', error);
+        return null;
+      }
+      return data;
+    },
+
+    // List crawl runs (newest first)
+    async list(page = 1, limit = 20, type?): Promise<PaginatedResponse<CrawlRun>> {
+      let query = supabase.from('crawl_runs').select('*', { count: 'exact' });
+
+      if (type) {
+        query = query.eq('type', type);
+      }
+
+      const offset = (page - 1) * limit;
+      const { data, error, count } = await query
+        .order('started_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        console.error('Error listing crawl runs:', error);
+        return { data: [], pagination: { page, limit, total: 0, totalPages: 0 } };
+      }
+
+      const total = count || 0;
+      return {
+        data: data || [],
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    },
+  };
+
+  const blocklist: BlocklistStore = {
+    // Add or replace blocklist entry
+    async add(entry): Promise<BlocklistEntry | null> {
+      const { data, error } = await supabase
+        .from('account_blocklist')
+        .upsert({ ...entry, created_at: new Date().toISOString() }, { onConflict: 'twitter_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding blocklist entry:', error);
+        return null;
+      }
+      return data;
+    },
+
+    // Remove blocklist entry
+    async remove(twitterId: string): Promise<boolean> {
+      const { data, error } = await supabase
+        .from('account_blocklist')
+        .delete()
+        .eq('twitter_id', twitterId)
+        .select('twitter_id');
+
+      if (error) {
+        console.error('Error removing blocklist entry:', error);
+        return false;
+      }
+      return (data?.length || 0) > 0;
+    },
+
+    // Get blocklist entry by Twitter ID
+    async get(twitterId: string): Promise<BlocklistEntry | null> {
+      const { data, error } = await supabase
+        .from('account_blocklist')
+        .select('*')
+        .eq('twitter_id', twitterId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error getting blocklist entry:', error);
+        return null;
+      }
+      return data;
+    },
+
+    // List blocklist entries (newest first)
+    async list(page = 1, limit = 50): Promise<PaginatedResponse<BlocklistEntry>> {
+      const offset = (page - 1) * limit;
+      const { data, error, count } = await supabase
+        .from('account_blocklist')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        console.error('Error listing blocklist:', error);
+        return { data: [], pagination: { page, limit, total: 0, totalPages: 0 } };
+      }
+
+      const total = count || 0;
+      return {
+        data: data || [],
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    },
+
+    // Which of the given Twitter IDs are blocked
+    async findBlocked(twitterIds: string[]): Promise<Set<string>> {
+      const blocked = new Set<string>();
+
+      for (const ids of chunk([...new Set(twitterIds)])) {
+        const { data, error } = await supabase.from('account_blocklist').select('twitter_id').in('twitter_id', ids);
+
+        if (error) {
+          console.error('Error checking blocklist:', error);
+          continue;
+        }
+        for (const row of (data || []) as Array<{ twitter_id: string }>) {
+          blocked.add(row.twitter_id);
+        }
+      }
+      return blocked;
+    },
+  };
+
+  // Read every row of a table, a page at a time (PostgREST caps a single response)
+  async function selectAll<T>(table: string, orderColumn: string): Promise<T[]> {
+    const rows: T[] = [];
+    for (let offset = 0; ; offset += UPSERT_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .order(orderColumn, { ascending: true })
+        .range(offset, offset + UPSERT_CHUNK_SIZE - 1);
+
+      if (error) {
+        console.error(`Error reading ${table}:`, error);
+        break;
+      }
+      rows.push(...((data || []) as T[]));
+      if (!data || data.length < UPSERT_CHUNK_SIZE) break;
+    }
+    return rows;
+  }
+
+  const graph: GraphStore = {
+    // Insert edges, skipping ones already recorded
+    async addInteractions(edges: AccountInteraction[]): Promise<number> {
+      let added = 0;
+
+      const unique = dedupeBy(edges, (e) => `${e.tweet_id}:${e.target_username}:${e.type}`);
+      for (const rows of chunk(unique)) {
+        const { data, error } = await supabase
+          .from('account_interactions')
+          .upsert(rows, { onConflict: 'tweet_id,target_username,type', ignoreDuplicates: true })
+          .select('id');
+
+        if (error) {
+          console.error('Error adding interactions:', error);
+          continue;
+        }
+        added += data?.length || 0;
+      }
+      return added;
+    },
+
+    // Edges from or to a user
+    async getInteractions(username: string): Promise<AccountInteraction[]> {
+      const { data, error } = await supabase
+        .from('account_interactions')
+        .select('tweet_id, type, source_twitter_id, source_username, target_twitter_id, target_username, created_at')
+        .or(`source_username.eq.${username},target_username.eq.${username}`)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error getting interactions:', error);
+        return [];
+      }
+      return data || [];
+    },
+
+    // Every edge, for scoring
+    async listInteractions(): Promise<AccountInteraction[]> {
+      return selectAll<AccountInteraction>('account_interactions', 'id');
+    },
+
+    // Replace all influence scores
+    async replaceInfluence(scores: InfluenceScore[]): Promise<number> {
+      // One RPC, so the old scores stay in place if the new ones fail to save
+      const { data, error } = await supabase.rpc('replace_account_influence', { scores });
+      if (error) {
+        console.error('Error replacing influence scores:', error);
+        return 0;
+      }
+      return (data as number | null) || 0;
+    },
+
+    // Influence scores, highest pagerank first
+    async listInfluence(page = 1, limit = 50): Promise<PaginatedResponse<InfluenceScore>> {
+      const offset = (page - 1) * limit;
+      const { data, error, count } = await supabase
+        .from('account_influence')
+        .select('*', { count: 'exact' })
+        .order('pagerank', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        console.error('Error listing influence scores:', error);
+        return { data: [], pagination: { page, limit, total: 0, totalPages: 0 } };
+      }
+
+      const total = count || 0;
+      return {
+        data: data || [],
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    },
+
+    // Influence scores for the given users
+    async getInfluence(usernames: string[]): Promise<InfluenceScore[]> {
+      const scores: InfluenceScore[] = [];
+
+      for (const names of chunk([...new Set(usernames)])) {
+        const { data, error } = await supabase.from('account_influence').select('*').in('username', names);
+
+        if (error) {
+          console.error('Error getting influence scores:', error);
+          continue;
+        }
+        scores.push(...((data || []) as InfluenceScore[]));
+      }
+      return scores;
+    },
+  };
+
+  const githubProfiles: GithubProfileStore = {
+    // Insert or replace an account's GitHub profile
+    async upsert(profile: GithubProfile): Promise<GithubProfile | null> {
+      const { data, error } = await supabase
+        .from('github_profiles')
+        .upsert(profile, { onConflict: 'account_id' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error saving GitHub profile:', error);
+        return null;
+      }
+      return data;
+    },
+
+    // GitHub profile for an account
+    async getByAccountId(accountId: string): Promise<GithubProfile | null> {
+      const { data, error } = await supabase
+        .from('github_profiles')
+        .select('*')
+        .eq('account_id', accountId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error getting GitHub profile:', error);
+        return null;
+      }
+      return data;
+    },
+
+    // GitHub profiles for several accounts
+    async getByAccountIds(accountIds: string[]): Promise<GithubProfile[]> {
+      const profiles: GithubProfile[] = [];
+
+      for (const ids of chunk([...new Set(accountIds)])) {
+        const { data, error } = await supabase.from('github_profiles').select('*').in('account_id', ids);
+
+        if (error) {
+          console.error('Error getting GitHub profiles:', error);
+          continue;
+        }
+        profiles.push(...((data || []) as GithubProfile[]));
+      }
+      return profiles;
+    },
+  };
+
+  const settings: SettingsStore = {
+    // Stored value for a key, or null
+    async get(key: string): Promise<unknown | null> {
+      const { data, error } = await supabase.from('settings').select('value').eq('key', key).maybeSingle();
+
+      if (error) {
+        console.error('Error getting setting:', error);
+        return null;
+      }
+      return data ? data.value : null;
+    },
+
+    // Insert or replace the value for a key
+    async set(key: string, value: unknown): Promise<boolean> {
+      const { error } = await supabase
+        .from('settings')
+        .upsert({ key, value, updated_at: new Date().toISOString() }, { onConflict: 'key' });
+
+      if (error) {
+        console.error('Error saving setting:', error);
+        return false;
+      }
+      return true;
+    },
+
+    // Remove a key, falling back to the default value
+    async delete(key: string): Promise<boolean> {
+      const { data, error } = await supabase.from('settings').delete().eq('key', key).select('key');
+
+      if (error) {
+        console.error('Error deleting setting:', error);
+        return false;
+      }
+      return (data?.length || 0) > 0;
+    },
+  };
+
+  return {
+    name: 'supabase',
+    accounts,
+    tweets,
+    searchQueries,
+    categorizationHistory,
+    metricSnapshots,
+    crawlRuns,
+    blocklist,
+    graph,
+    githubProfiles,
+    settings,
+  };
+}
@@ -1,15 +1,23 @@
 import { Queue, Worker, Job, QueueOptions } from 'bullmq';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { runFullDiscovery } from '../collectors/searchCollector.js';
+import { runFullDiscovery, recordEnrichmentSnapshots, storeFetchedTweets } from '../collectors/searchCollector.js';
 import { searchUserX402Tweets } from '../collectors/rapidApiClient.js';
-import { categorizeUserWithAI } from '../services/openRouterClient.js';
-import { AccountModel } from '../db/account.model.js';
+import { discoverFromGraph } from '../collectors/graphDiscovery.js';
+import { categorizeUserWithAI, PROMPT_VERSIONS } from '../services/openRouterClient.js';
+import { AccountModel, BlocklistModel } from '../db/account.model.js';
+import { startCrawlRun } from '../services/crawlRunRecorder.js';
+import { trackCalls } from '../utils/callCounters.js';
+import { computeInfluence } from '../services/interactionGraph.js';
+import { scoreAccounts } from '../services/accountScores.js';
+import { applyKolThresholds } from '../services/kolPolicy.js';
 
 // Job types
 export interface SearchJobData {
   keywords?: string[];
   maxPages?: number;
+  // Ignore the stored keyword cursors and search everything again
+  fullRefresh?: boolean;
 }
 
 export interface AnalyzeJobData {
@@ -61,7 +69,8 @@ export function getAnalyzeQueue(): Queue {
 export function startSearchWorker(): Worker {
   const worker = new Worker(
     SEARCH_QUEUE,
-    async (job: Job<SearchJobData>) => {
+    // Each job counts its own API calls, apart from concurrent analyze jobs
+    (job: Job<SearchJobData>) => trackCalls(async () => {
       logger.info(`Processing search job ${job.id}`);
 
       const keywords = job.data.keywords || [
@@ -70,21 +79,45 @@ export function startSearchWorker(): Worker {
       ];
       const maxPages = job.data.maxPages || config.search.maxPages;
 
-      // Run full discovery pipeline (search, save users, save tweets)
-      const result = await runFullDiscovery(keywords, maxPages);
-
-      // Queue analysis jobs for uncategorized accounts only
-      const analyzeQ = getAnalyzeQueue();
-      const uncategorized = await AccountModel.getUncategorizedAccounts(1000);
+      const run = await startCrawlRun('search_worker', { keywords, jobId: job.id });
+
+      let result: Awaited<ReturnType<typeof runFullDiscovery>>;
+      try {
+        // Run full discovery pipeline (search, save users, save tweets)
+        result = await runFullDiscovery(keywords, maxPages, { fullRefresh: job.data.fullRefresh });
+        await run.stage('discovery', {
+          usersCreated: result.usersCreated,
+          usersUpdated: result.usersUpdated,
+          usersBlocked: result.usersBlocked,
+          tweetsSaved: result.tweetsSaved,
+          incrementalKeywords: result.incrementalKeywords,
+        });
+        await run.stage('graph', await computeInfluence());
+        if (config.graphDiscovery.enabled) {
+          await run.stage('graph_discovery', { ...(await discoverFromGraph()) });
+        }
 
-      for (const account of uncategorized) {
-        if (account.id) {
-          await analyzeQ.add(
-            'analyze',
-            { accountId: account.id },
-            { delay: 100 }
-          );
+        // Queue analysis jobs for uncategorized accounts only
+        const analyzeQ = getAnalyzeQueue();
+        const uncategorized = await AccountModel.getUncategorizedAccounts(1000);
+
+        let queued = 0;
+        for (const account of uncategorized) {
+          if (account.id) {
+            await analyzeQ.add(
+              'analyze',
+              { accountId: account.id },
+              { delay: 100 }
+            );
+            queued++;
+          }
         }
+        await run.stage('queue', { analyzeJobsQueued: queued });
+        await run.finish();
+      } catch (error) {
+        run.error('run', error);
+        await run.finish('failed');
+        throw error;
       }
 
       logger.info(
@@ -95,8 +128,9 @@ export function startSearchWorker(): Worker {
         tweetsFound: result.tweetsSaved,
         usersCreated: result.usersCreated,
         usersUpdated: result.usersUpdated,
+        usersBlocked: result.usersBlocked,
       };
-    },
+    }),
     { connection: connectionOptions }
   );
 
@@ -124,6 +158,12 @@ export function startAnalyzeWorker(): Worker {
         return { success: false, reason: 'Account not found' };
       }
 
+      // Skip archived and blocklisted accounts
+      if (account.deleted_at || (await BlocklistModel.get(account.twitter_id))) {
+        logger.info(`Skipping @${account.username} - archived or blocklisted`);
+        return { success: true, skipped: true };
+      }
+
       // Skip if already categorized
       if (account.ai_category && account.ai_categorized_at) {
         logger.info(`Skipping @${account.username} - already categorized`);
@@ -132,25 +172,38 @@ export function startAnalyzeWorker(): Worker {
 
       // Search for user's x402 tweets
       const userTweets = await searchUserX402Tweets(account.username, config.search.maxPagesPerUser);
+      const userData = [{ username: account.username, x402Tweets: userTweets, generalTweets: [] }];
+      await recordEnrichmentSnapshots(userData);
+      await storeFetchedTweets(userData, [account]);
+      await scoreAccounts([account]);
 
       // Categorize with AI
       const aiResult = await categorizeUserWithAI(account, userTweets);
 
-      // Update account with AI category
-      await AccountModel.updateAICategory(account.twitter_id, {
+      // KOL verdicts below the KOL thresholds are marked for review or downgraded
+      const { updates: [update] } = await applyKolThresholds([{
+        twitter_id: account.twitter_id,
         ai_category: aiResult.category,
         ai_reasoning: aiResult.reasoning,
         ai_confidence: aiResult.confidence,
+      }]);
+
+      // Update account with AI category
+      const { twitter_id, ...data } = update;
+      await AccountModel.updateAICategory(twitter_id, data, {
+        source: 'worker',
+        model: config.openRouter.model,
+        promptVersion: PROMPT_VERSIONS.basic,
       });
 
       logger.info(
-        `Analyze job for @${account.username} completed: category=${aiResult.category}, confidence=${aiResult.confidence}`
+        `Analyze job for @${account.username} completed: category=${update.ai_category}, confidence=${update.ai_confidence}`
       );
 
       return {
         success: true,
-        category: aiResult.category,
-        confidence: aiResult.confidence,
+        category: update.ai_category,
+        confidence: update.ai_confidence,
       };
     },
     { connection: connectionOptions, concurrency: 5 }
@@ -179,9 +232,13 @@ export function startAllWorkers(): {
 }
 
 // Add a search job
-export async function triggerSearch(keywords?: string[], maxPages?: number): Promise<string> {
+export async function triggerSearch(
+  keywords?: string[],
+  maxPages?: number,
+  fullRefresh?: boolean
+): Promise<string> {
   const queue = getSearchQueue();
-  const job = await queue.add('search', { keywords, maxPages });
+  const job = await queue.add('search', { keywords, maxPages, fullRefresh });
   logger.info(`Search job ${job.id} added to queue`);
   return job.id!;
 }
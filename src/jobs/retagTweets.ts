@@ -0,0 +1,118 @@
+/**
+ * Tweet re-tagging script
+ *
+ * Run with:
+ *   npm run retag-tweets              Re-tag every stored tweet
+ *   npm run retag-tweets -- --dry-run Report what would change without saving
+ *
+ * Recomputes the fields derived from tweet text: keyword tags (x402_keywords_found,
+ * x402_keyword_score) and code analysis (has_code, code_evidence, code_languages,
+ * repo_links, has_github) and the normalized links. Run it after changing the keyword definitions
+ * (KEYWORDS_FILE, SEARCH_KEYWORDS_PRIMARY, TAG_KEYWORDS) or the content analyzer,
+ * so older tweets match what new tweets are tagged with.
+ */
+
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { TweetModel } from '../db/account.model.js';
+import { getKeywordMatcher } from '../collectors/keywordMatcher.js';
+import { analyzeTweetContent } from '../collectors/tweetContentAnalyzer.js';
+import { extractTweetLinks } from '../collectors/tweetLinks.js';
+import type { TweetTags } from '../db/storage.js';
+
+const PAGE_SIZE = 500;
+
+// Compare as JSON after picking the tag fields in a fixed order
+function tagsKey(tags: TweetTags): string {
+  return JSON.stringify([
+    tags.x402_keywords_found,
+    tags.x402_keyword_score,
+    tags.has_code,
+    tags.code_evidence,
+    tags.code_languages,
+    tags.repo_links,
+    tags.has_github,
+    tags.links,
+  ]);
+}
+
+async function retagTweets(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+  const matcher = getKeywordMatcher();
+
+  logger.info(`Re-tagging tweets with ${config.keywords.length} keywords${dryRun ? ' (dry run)' : ''}`);
+
+  let scanned = 0;
+  let changed = 0;
+  let saved = 0;
+  let withCode = 0;
+  let withRepoLinks = 0;
+  let withLinks = 0;
+  const gained = new Map<string, number>();
+  const lost = new Map<string, number>();
+
+  try {
+    let after: string | null = null;
+    for (;;) {
+      const page = await TweetModel.listForTagging(after, PAGE_SIZE);
+      if (page.length === 0) break;
+      after = page[page.length - 1].twitter_id;
+      scanned += page.length;
+
+      const updates: TweetTags[] = [];
+      for (const tweet of page) {
+        const { keywords, score } = matcher.match(tweet.content, tweet.entities);
+        const analysis = analyzeTweetContent(tweet.content, tweet.entities, tweet.media);
+        const retagged: TweetTags = {
+          twitter_id: tweet.twitter_id,
+          x402_keywords_found: keywords,
+          x402_keyword_score: score,
+          has_code: analysis.has_code,
+          code_evidence: analysis.code_evidence,
+          code_languages: analysis.code_languages,
+          repo_links: analysis.repo_links,
+          has_github: analysis.has_github,
+          links: extractTweetLinks(tweet.content, tweet.entities),
+        };
+        if (analysis.has_code) withCode++;
+        if (analysis.repo_links.length > 0) withRepoLinks++;
+        if (retagged.links.length > 0) withLinks++;
+        if (tagsKey(tweet) === tagsKey(retagged)) continue;
+
+        updates.push(retagged);
+        for (const keyword of keywords.filter((k) => !tweet.x402_keywords_found.includes(k))) {
+          gained.set(keyword, (gained.get(keyword) || 0) + 1);
+        }
+        for (const keyword of tweet.x402_keywords_found.filter((k) => !keywords.includes(k))) {
+          lost.set(keyword, (lost.get(keyword) || 0) + 1);
+        }
+      }
+
+      changed += updates.length;
+      if (!dryRun && updates.length > 0) {
+        saved += await TweetModel.updateTags(updates);
+      }
+      logger.info(`Scanned ${scanned} tweets, ${changed} changed`);
+    }
+
+    for (const [keyword, count] of gained) {
+      logger.info(`  +${count} tagged "${keyword}"`);
+    }
+    for (const [keyword, count] of lost) {
+      logger.info(`  -${count} no longer tagged "${keyword}"`);
+    }
+    logger.info(`  ${withCode} tweets with code, ${withRepoLinks} with repository links, ${withLinks} with links`);
+    logger.info(
+      dryRun
+        ? `Dry run: ${changed} of ${scanned} tweets would be re-tagged`
+        : `Re-tagged ${saved} of ${scanned} tweets (${changed - saved} failed)`
+    );
+  } catch (error) {
+    logger.error('Re-tagging failed:', error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+retagTweets();
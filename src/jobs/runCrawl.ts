@@ -5,10 +5,11 @@
  *
  * This script performs a full discovery and AI analysis cycle:
  * 1. Search for x402 content on Twitter via RapidAPI
- * 2. Discover and save users
+ * 2. Discover and save users, plus users that known KOLs and developers mention
  * 3. For each user, search their specific x402 tweets (in parallel batches)
- * 4. Send tweets to AI (OpenRouter) for categorization (in batches)
- * 5. Store AI category and reasoning in database (in bulk)
+ * 4. Reject obvious non-KOLs with the rules-based pre-filter (no AI call)
+ * 5. Send the remaining tweets to AI (OpenRouter) for categorization (in batches)
+ * 6. Store AI category and reasoning in database (in bulk)
  *
  * Performance optimizations:
  * - Parallel data fetching with concurrency control
@@ -18,26 +19,45 @@
 
 import { config, validateConfig } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { runFullDiscovery } from '../collectors/searchCollector.js';
+import { runFullDiscovery, recordEnrichmentSnapshots, storeFetchedTweets } from '../collectors/searchCollector.js';
+import { discoverFromGraph } from '../collectors/graphDiscovery.js';
+import { computeInfluence } from '../services/interactionGraph.js';
 import {
   fetchUserDataBatched,
   searchUserX402Tweets,
   fetchUserTimeline,
+  averageTimelineDays,
   delay,
   type UserTweetData,
 } from '../collectors/rapidApiClient.js';
 import {
   categorizeUserEnhanced,
   categorizeUsersBatch,
+  PROMPT_VERSIONS,
   type BatchCategorizationInput,
 } from '../services/openRouterClient.js';
 import { AccountModel } from '../db/account.model.js';
+import { startCrawlRun, type CrawlRunRecorder } from '../services/crawlRunRecorder.js';
+import { trackCalls } from '../utils/callCounters.js';
+import { excludeBlockedAccounts } from '../services/blocklist.js';
+import {
+  applyPrefilter,
+  countRejections,
+  saveRejections,
+  type PrefilterRejection,
+} from '../services/prefilter.js';
+import { detectAccountBotSignals, detectBotSignalsForAccounts, mergeRedFlags } from '../services/botDetector.js';
+import { scoreAccounts } from '../services/accountScores.js';
+import { applyKolThresholds } from '../services/kolPolicy.js';
 import type { Account } from '../types/index.js';
 
 /**
  * Legacy sequential processing mode (for comparison/fallback)
  */
-async function runSequentialCategorization(accounts: Account[]): Promise<{
+async function runSequentialCategorization(
+  accounts: Account[],
+  run: CrawlRunRecorder
+): Promise<{
   analyzedCount: number;
   skippedCount: number;
   categoryStats: Record<string, number>;
@@ -48,6 +68,9 @@ async function runSequentialCategorization(accounts: Account[]): Promise<{
     KOL: 0,
     UNCATEGORIZED: 0,
   };
+  const rejections: PrefilterRejection[] = [];
+  const scoring: Record<string, number> = { accounts: 0, scored: 0, failed: 0 };
+  const thresholdCounts: Record<string, number> = { checked: 0, passed: 0, downgraded: 0, needs_review: 0 };
 
   for (const account of accounts) {
     try {
@@ -64,24 +87,49 @@ async function runSequentialCategorization(accounts: Account[]): Promise<{
 
       await delay(config.search.delayMs);
       const generalTimeline = await fetchUserTimeline(account.username, config.search.maxTimelineTweets);
+      const userData = [{ username: account.username, x402Tweets: userX402Tweets, generalTweets: generalTimeline }];
+      await recordEnrichmentSnapshots(userData);
+      await storeFetchedTweets(userData, [account]);
+      for (const [key, value] of Object.entries(await scoreAccounts([account]))) {
+        scoring[key] += value;
+      }
+
+      const { rejected } = applyPrefilter([{ account, generalTweets: generalTimeline }]);
+      if (rejected.length > 0) {
+        rejections.push(...rejected);
+        await saveRejections(rejected);
+        continue;
+      }
 
       const aiResult = await categorizeUserEnhanced(account, userX402Tweets, generalTimeline);
-      categoryStats[aiResult.category]++;
+      const botSignals = await detectAccountBotSignals(account);
 
-      await AccountModel.updateAICategoryEnhanced(account.twitter_id, {
+      const { updates: [update], counts } = await applyKolThresholds([{
+        twitter_id: account.twitter_id,
         ai_category: aiResult.category,
         ai_reasoning: aiResult.reasoning,
         ai_confidence: aiResult.confidence,
         topic_consistency_score: aiResult.topicConsistencyScore,
         content_depth_score: aiResult.contentDepthScore,
         topic_focus_score: aiResult.topicFocusScore,
-        red_flags: aiResult.redFlags,
+        red_flags: mergeRedFlags(aiResult.redFlags, botSignals.flags),
         primary_topics: aiResult.primaryTopics,
+      }]);
+      for (const [key, value] of Object.entries(counts)) {
+        thresholdCounts[key] = (thresholdCounts[key] || 0) + value;
+      }
+      categoryStats[update.ai_category]++;
+
+      const { twitter_id, ...data } = update;
+      await AccountModel.updateAICategoryEnhanced(twitter_id, data, {
+        source: 'crawl',
+        model: config.openRouter.model,
+        promptVersion: PROMPT_VERSIONS.enhanced,
       });
 
       analyzedCount++;
 
-      logger.info(`  Category: ${aiResult.category} (confidence: ${aiResult.confidence.toFixed(2)})`);
+      logger.info(`  Category: ${update.ai_category} (confidence: ${aiResult.confidence.toFixed(2)})`);
       logger.info(`  Scores: topic=${aiResult.topicConsistencyScore.toFixed(2)}, depth=${aiResult.contentDepthScore.toFixed(2)}, focus=${aiResult.topicFocusScore.toFixed(2)}`);
       if (aiResult.redFlags.length > 0) {
         logger.info(`  Red flags: ${aiResult.redFlags.map((f) => `${f.type}(${f.severity})`).join(', ')}`);
@@ -97,16 +145,24 @@ async function runSequentialCategorization(accounts: Account[]): Promise<{
       }
     } catch (error) {
       logger.error(`Error analyzing @${account.username}:`, error);
+      run.error('categorization', `@${account.username}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  await run.stage('scoring', scoring);
+  await run.stage('prefilter', { checked: analyzedCount + rejections.length, ...countRejections(rejections) });
+  await run.stage('kol_thresholds', thresholdCounts);
+
   return { analyzedCount, skippedCount, categoryStats };
 }
 
 /**
  * Optimized batch processing mode
  */
-async function runBatchCategorization(accounts: Account[]): Promise<{
+async function runBatchCategorization(
+  accounts: Account[],
+  run: CrawlRunRecorder
+): Promise<{
   analyzedCount: number;
   skippedCount: number;
   categoryStats: Record<string, number>;
@@ -152,6 +208,26 @@ async function runBatchCategorization(accounts: Account[]): Promise<{
     },
   });
 
+  const snapshotCount = await recordEnrichmentSnapshots(userDataResults);
+  logger.info(`Recorded ${snapshotCount} metric snapshots`);
+  const tweetsStored = await storeFetchedTweets(userDataResults, uncategorizedAccounts);
+  logger.info(`Stored ${tweetsStored} fetched tweets`);
+
+  const fetchFailures = userDataResults.filter((r) => r.error);
+  for (const failure of fetchFailures) {
+    run.error('fetch', `@${failure.username}: ${failure.error}`);
+  }
+  await run.stage('fetch', {
+    users: userDataResults.length,
+    failed: fetchFailures.length,
+    snapshots: snapshotCount,
+    tweetsStored,
+    avgTimelineDays: averageTimelineDays(userDataResults),
+  });
+
+  // Engagement, tech and x402-relevance scores from the tweets just stored
+  await run.stage('scoring', { ...(await scoreAccounts(uncategorizedAccounts)) });
+
   // Create a map of username -> user data for easy lookup
   const userDataMap = new Map<string, UserTweetData>();
   for (const userData of userDataResults) {
@@ -161,8 +237,25 @@ async function runBatchCategorization(accounts: Account[]): Promise<{
   // Step 2: AI categorization in batches
   logger.info('\n--- Step 2: AI Categorization ---');
 
+  // Accounts whose fetch failed (e.g. throttled) stay uncategorized for the next run
+  const failedUsernames = new Set(fetchFailures.map((f) => f.username.toLowerCase()));
+  const accountsToCategorize = uncategorizedAccounts.filter(
+    (account) => !failedUsernames.has(account.username.toLowerCase())
+  );
+
+  // Obvious non-KOLs are rejected by rule and never cost an AI call
+  const { passed, rejected } = applyPrefilter(
+    accountsToCategorize.map((account) => ({
+      account,
+      generalTweets: userDataMap.get(account.username.toLowerCase())?.generalTweets || [],
+    }))
+  );
+  await saveRejections(rejected);
+  await run.stage('prefilter', { checked: accountsToCategorize.length, ...countRejections(rejected) });
+  logger.info(`Pre-filter: ${rejected.length}/${accountsToCategorize.length} accounts rejected without an AI call`);
+
   // Prepare batch inputs
-  const batchInputs: BatchCategorizationInput[] = uncategorizedAccounts.map((account) => {
+  const batchInputs: BatchCategorizationInput[] = passed.map((account) => {
     const userData = userDataMap.get(account.username.toLowerCase());
     return {
       account,
@@ -177,10 +270,24 @@ async function runBatchCategorization(accounts: Account[]): Promise<{
     config.batch.aiCategorizationBatchSize
   );
 
+  // Heuristic bot/engagement-farming flags from the stored timelines, saved next to the AI ones
+  const botFlags = await detectBotSignalsForAccounts(categorizationResults.map((r) => r.account));
+  const signalCounts: Record<string, number> = {};
+  for (const flags of botFlags.values()) {
+    for (const flag of flags) {
+      signalCounts[flag.signal!] = (signalCounts[flag.signal!] || 0) + 1;
+    }
+  }
+  await run.stage('bot_detection', {
+    accounts: categorizationResults.length,
+    flagged: [...botFlags.values()].filter((flags) => flags.length > 0).length,
+    ...signalCounts,
+  });
+
   // Step 3: Bulk update database
   logger.info('\n--- Step 3: Saving results to database ---');
 
-  const dbUpdates = categorizationResults.map((result) => ({
+  const aiUpdates = categorizationResults.map((result) => ({
     twitter_id: result.account.twitter_id,
     ai_category: result.result.category,
     ai_reasoning: result.result.reasoning || '',
@@ -188,16 +295,26 @@ async function runBatchCategorization(accounts: Account[]): Promise<{
     topic_consistency_score: result.result.topicConsistencyScore || 0,
     content_depth_score: result.result.contentDepthScore || 0,
     topic_focus_score: result.result.topicFocusScore || 0,
-    red_flags: result.result.redFlags || [],
+    red_flags: mergeRedFlags(result.result.redFlags || [], botFlags.get(result.account.twitter_id) || []),
     primary_topics: result.result.primaryTopics || [],
   }));
 
-  const { success, failed } = await AccountModel.bulkUpdateAICategoryEnhanced(dbUpdates);
+  // KOL verdicts below the KOL thresholds are marked for review or downgraded
+  const { updates: dbUpdates, counts: thresholdCounts } = await applyKolThresholds(aiUpdates);
+  await run.stage('kol_thresholds', thresholdCounts);
+  logger.info(`KOL thresholds: ${thresholdCounts.checked - thresholdCounts.passed}/${thresholdCounts.checked} KOL verdicts below a threshold`);
+
+  const { success, failed } = await AccountModel.bulkUpdateAICategoryEnhanced(dbUpdates, {
+    source: 'crawl',
+    model: config.openRouter.model,
+    promptVersion: PROMPT_VERSIONS.batchEnhanced,
+  });
   logger.info(`Database updates: ${success} successful, ${failed} failed`);
+  await run.stage('save', { success, failed });
 
   // Calculate category stats
-  for (const result of categorizationResults) {
-    categoryStats[result.result.category]++;
+  for (const update of dbUpdates) {
+    categoryStats[update.ai_category]++;
   }
 
   // Log individual results
@@ -222,6 +339,8 @@ async function runCrawl(): Promise<void> {
   logger.info('Starting x402 KOL Discovery Crawl with AI Categorization');
   logger.info('='.repeat(50));
 
+  let run: CrawlRunRecorder | null = null;
+
   try {
     // Validate config
     validateConfig();
@@ -229,6 +348,7 @@ async function runCrawl(): Promise<void> {
     logger.info(`Max pages per keyword: ${config.search.maxPages}`);
     logger.info(`Max pages per user: ${config.search.maxPagesPerUser}`);
     logger.info(`Delay between requests: ${config.search.delayMs}ms`);
+    logger.info(`Incremental keyword search: ${config.search.incremental ? 'ENABLED' : 'DISABLED'}`);
     logger.info(`AI Model: ${config.openRouter.model}`);
     logger.info(`Parallel processing: ${config.batch.enableParallelProcessing ? 'ENABLED' : 'DISABLED'}`);
 
@@ -239,16 +359,33 @@ async function runCrawl(): Promise<void> {
     const keywords = [...config.searchKeywords.primary, ...config.searchKeywords.secondary];
     logger.info(`Keywords: ${keywords.join(', ')}`);
 
+    run = await startCrawlRun('crawl', { keywords });
+
     const discoveryResult = await runFullDiscovery(keywords, config.search.maxPages);
+    await run.stage('discovery', {
+      usersCreated: discoveryResult.usersCreated,
+      usersUpdated: discoveryResult.usersUpdated,
+      usersBlocked: discoveryResult.usersBlocked,
+      tweetsSaved: discoveryResult.tweetsSaved,
+      incrementalKeywords: discoveryResult.incrementalKeywords,
+    });
 
     logger.info(`Discovery complete: ${discoveryResult.usersCreated} new users, ${discoveryResult.usersUpdated} updated, ${discoveryResult.tweetsSaved} tweets saved`);
 
+    // Accounts that known KOLs and developers keep mentioning, even if they never said "x402"
+    if (config.graphDiscovery.enabled) {
+      const graphResult = await discoverFromGraph();
+      await run.stage('graph_discovery', { ...graphResult });
+      logger.info(`Graph discovery complete: ${graphResult.usersCreated} new users from ${graphResult.candidates} candidates`);
+    }
+
     // Step 2: Get all discovered accounts for AI analysis
     logger.info('\n' + '-'.repeat(50));
     logger.info('Step 2: AI Categorization - Analyzing each user...');
     logger.info('-'.repeat(50));
 
-    const { data: accounts } = await AccountModel.list({}, 1, 10000, 'created_at', 'desc');
+    const { data: listed } = await AccountModel.list({}, 1, 10000, 'created_at', 'desc');
+    const { accounts, excluded } = await excludeBlockedAccounts(listed);
 
     // Choose processing mode based on config
     let result: {
@@ -261,15 +398,28 @@ async function runCrawl(): Promise<void> {
 
     if (config.batch.enableParallelProcessing) {
       logger.info('Using OPTIMIZED batch processing mode');
-      result = await runBatchCategorization(accounts);
+      result = await runBatchCategorization(accounts, run);
     } else {
       logger.info('Using LEGACY sequential processing mode');
-      result = await runSequentialCategorization(accounts);
+      result = await runSequentialCategorization(accounts, run);
     }
 
     const elapsedTime = Date.now() - startTime;
     const elapsedMinutes = (elapsedTime / 60000).toFixed(2);
 
+    await run.stage('categorization', {
+      analyzed: result.analyzedCount,
+      skipped: result.skippedCount,
+      blocked: excluded,
+      durationMs: elapsedTime,
+      ...result.categoryStats,
+    });
+
+    // Step 3: Influence scores over every interaction collected so far
+    const graph = await computeInfluence();
+    await run.stage('graph', graph);
+    await run.finish();
+
     // Summary
     logger.info('\n' + '='.repeat(50));
     logger.info('CRAWL COMPLETED!');
@@ -308,6 +458,10 @@ async function runCrawl(): Promise<void> {
 
   } catch (error) {
     logger.error('Crawl failed:', error);
+    if (run) {
+      run.error('run', error);
+      await run.finish('failed');
+    }
     process.exit(1);
   }
 
@@ -315,5 +469,5 @@ async function runCrawl(): Promise<void> {
   process.exit(0);
 }
 
-// Run the crawl
-runCrawl();
+// Run the crawl, counting its API calls
+trackCalls(runCrawl);
@@ -0,0 +1,67 @@
+/**
+ * Database migration script
+ *
+ * Run with:
+ *   npm run migrate -- status          Show applied and pending migrations
+ *   npm run migrate -- up [version]    Apply pending migrations (optionally up to a version)
+ *   npm run migrate -- down [steps]    Roll back the last migration(s) (default: 1)
+ *
+ * Migrations live in src/db/migrations as numbered files and are tracked in the
+ * schema_migrations table. Requires DATABASE_URL (the Supabase Postgres connection string).
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { migrateUp, migrateDown, getMigrationStatus } from '../db/migrator.js';
+
+function parseNumberArg(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+async function runMigrations(): Promise<void> {
+  const [command = 'status', arg] = process.argv.slice(2);
+
+  if (config.storage.backend !== 'supabase') {
+    logger.warn(`Storage backend is "${config.storage.backend}"; migrations only apply to the Postgres database`);
+  }
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrateUp(parseNumberArg(arg, 'version'));
+        logger.info(`Applied ${applied.length} migration(s)`);
+        break;
+      }
+      case 'down': {
+        const reverted = await migrateDown(parseNumberArg(arg, 'steps') ?? 1);
+        logger.info(`Rolled back ${reverted.length} migration(s)`);
+        break;
+      }
+      case 'status': {
+        const status = await getMigrationStatus();
+        for (const m of status) {
+          const label = `${String(m.version).padStart(3, '0')}_${m.name}`;
+          const state = m.applied ? `applied ${m.appliedAt}` : 'pending';
+          logger.info(`  ${label}: ${state}${m.modified ? ' (MODIFIED since applied)' : ''}`);
+        }
+        const pending = status.filter((m) => !m.applied).length;
+        logger.info(`${status.length - pending} applied, ${pending} pending`);
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}" (expected up, down or status)`);
+    }
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+runMigrations();
@@ -5,9 +5,12 @@
  *
  * This script:
  * 1. Loads accounts with ai_category = UNCATEGORIZED that haven't been secondary-processed yet
- * 2. Fetches x402 tweets + general timeline per account (in parallel batches)
- * 3. Assigns DEVELOPER, ACTIVE_USER, or UNCATEGORIZED via AI (in batches)
- * 4. Saves AI category and reasoning in database (in bulk)
+ *    (pre-filter rejects are skipped too)
+ * 2. Fetches x402 tweets + general timeline per account (in parallel batches), or
+ *    loads the stored ones when REUSE_STORED_TWEETS=true
+ * 3. Looks up each account's GitHub profile, repos and activity (unless GITHUB_ENRICHMENT_ENABLED=false)
+ * 4. Assigns DEVELOPER, ACTIVE_USER, or UNCATEGORIZED via AI (in batches)
+ * 5. Saves AI category and reasoning in database (in bulk)
  *
  * Performance optimizations:
  * - Parallel data fetching with concurrency control
@@ -22,49 +25,60 @@ import {
   fetchUserDataBatched,
   searchUserX402Tweets,
   fetchUserTimeline,
+  averageTimelineDays,
   delay,
   type UserTweetData,
 } from '../collectors/rapidApiClient.js';
+import {
+  recordEnrichmentSnapshots,
+  storeFetchedTweets,
+  loadStoredUserData,
+} from '../collectors/searchCollector.js';
 import {
   categorizeUserForSecondaryCategories,
   categorizeUsersSecondaryBatch,
+  PROMPT_VERSIONS,
   type BatchCategorizationInput,
 } from '../services/openRouterClient.js';
+import { enrichGithubProfiles, type GithubEnrichmentResult } from '../collectors/githubEnrichment.js';
 import { AccountModel } from '../db/account.model.js';
-import type { Account } from '../types/index.js';
-
-// Marker to identify accounts that have been through secondary categorization
-const SECONDARY_PASS_MARKER = '[SECONDARY_PASS]';
-
-/**
- * Check if an account has already been through secondary categorization
- */
-function hasBeenSecondaryProcessed(account: Account): boolean {
-  // If category is DEVELOPER or ACTIVE_USER, it came from secondary pass
-  if (account.ai_category === 'DEVELOPER' || account.ai_category === 'ACTIVE_USER') {
-    return true;
-  }
-  // If reasoning contains our marker, it's been through secondary pass
-  if (account.ai_reasoning?.includes(SECONDARY_PASS_MARKER)) {
-    return true;
-  }
-  return false;
-}
+import { startCrawlRun, type CrawlRunRecorder } from '../services/crawlRunRecorder.js';
+import { trackCalls } from '../utils/callCounters.js';
+import { excludeBlockedAccounts } from '../services/blocklist.js';
+import { scoreAccounts } from '../services/accountScores.js';
+import {
+  addSecondaryMarker,
+  hasBeenSecondaryProcessed,
+  needsSecondaryPass,
+  SECONDARY_PASS_MARKER,
+} from '../services/secondaryPass.js';
+import type { Account, GithubProfile } from '../types/index.js';
 
 /**
- * Add the secondary pass marker to the reasoning
+ * GitHub profiles for the accounts' prompts, keyed by account id (empty when disabled)
  */
-function addSecondaryMarker(reasoning: string): string {
-  if (reasoning.includes(SECONDARY_PASS_MARKER)) {
-    return reasoning;
+async function enrichWithGithub(
+  accounts: Account[],
+  userDataMap: Map<string, UserTweetData>
+): Promise<{ profiles: Map<string, GithubProfile>; result: GithubEnrichmentResult | null }> {
+  if (!config.github.enabled) {
+    return { profiles: new Map(), result: null };
   }
-  return `${reasoning} ${SECONDARY_PASS_MARKER}`;
+  return enrichGithubProfiles(
+    accounts.map((account) => {
+      const userData = userDataMap.get(account.username.toLowerCase());
+      return { account, tweets: [...(userData?.x402Tweets || []), ...(userData?.generalTweets || [])] };
+    })
+  );
 }
 
 /**
  * Legacy sequential processing mode (for comparison/fallback)
  */
-async function runSequentialCategorization(accounts: Account[]): Promise<{
+async function runSequentialCategorization(
+  accounts: Account[],
+  run: CrawlRunRecorder
+): Promise<{
   analyzedCount: number;
   skippedCount: number;
   categoryStats: Record<string, number>;
@@ -76,6 +90,7 @@ async function runSequentialCategorization(accounts: Account[]): Promise<{
     ACTIVE_USER: 0,
     UNCATEGORIZED: 0,
   };
+  const githubTotals: Record<string, number> = {};
 
   for (const account of accounts) {
     try {
@@ -88,21 +103,42 @@ async function runSequentialCategorization(accounts: Account[]): Promise<{
 
       logger.info(`\nAnalyzing @${account.username}...`);
 
-      const userX402Tweets = await searchUserX402Tweets(
-        account.username,
-        config.search.maxPagesPerUser
-      );
+      const stored = config.search.reuseStoredTweets
+        ? (await loadStoredUserData([account])).loaded[0]
+        : undefined;
 
-      await delay(config.search.delayMs);
-      const generalTimeline = await fetchUserTimeline(
-        account.username,
-        config.search.maxTimelineTweets
+      let userX402Tweets = stored?.x402Tweets || [];
+      let generalTimeline = stored?.generalTweets || [];
+      if (!stored) {
+        userX402Tweets = await searchUserX402Tweets(
+          account.username,
+          config.search.maxPagesPerUser
+        );
+
+        await delay(config.search.delayMs);
+        generalTimeline = await fetchUserTimeline(
+          account.username,
+          config.search.maxTimelineTweets
+        );
+        const userData = [{ username: account.username, x402Tweets: userX402Tweets, generalTweets: generalTimeline }];
+        await recordEnrichmentSnapshots(userData);
+        await storeFetchedTweets(userData, [account]);
+        await scoreAccounts([account]);
+      }
+
+      const github = await enrichWithGithub(
+        [account],
+        new Map([[account.username.toLowerCase(), { username: account.username, x402Tweets: userX402Tweets, generalTweets: generalTimeline }]])
       );
+      for (const [key, value] of Object.entries(github.result || {})) {
+        githubTotals[key] = (githubTotals[key] || 0) + value;
+      }
 
       const aiResult = await categorizeUserForSecondaryCategories(
         account,
         userX402Tweets,
-        generalTimeline
+        generalTimeline,
+        github.profiles.get(account.id!) || null
       );
 
       // Normalize category - don't allow KOL in secondary categorization
@@ -119,7 +155,7 @@ async function runSequentialCategorization(accounts: Account[]): Promise<{
         ai_category: normalizedCategory,
         ai_reasoning: markedReasoning,
         ai_confidence: aiResult.confidence,
-      });
+      }, { source: 'secondary', model: config.openRouter.model, promptVersion: PROMPT_VERSIONS.secondary });
 
       analyzedCount++;
 
@@ -137,16 +173,24 @@ async function runSequentialCategorization(accounts: Account[]): Promise<{
       }
     } catch (error) {
       logger.error(`Error analyzing @${account.username}:`, error);
+      run.error('categorization', `@${account.username}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  if (config.github.enabled) {
+    await run.stage('github', githubTotals);
+  }
+
   return { analyzedCount, skippedCount, categoryStats };
 }
 
 /**
  * Optimized batch processing mode
  */
-async function runBatchCategorization(accounts: Account[]): Promise<{
+async function runBatchCategorization(
+  accounts: Account[],
+  run: CrawlRunRecorder
+): Promise<{
   analyzedCount: number;
   skippedCount: number;
   categoryStats: Record<string, number>;
@@ -181,9 +225,16 @@ async function runBatchCategorization(accounts: Account[]): Promise<{
 
   // Step 1: Fetch tweet data for all accounts in parallel batches
   logger.info('\n--- Step 1: Fetching tweet data ---');
-  const usernames = uncategorizedAccounts.map((a) => a.username);
 
-  const userDataResults = await fetchUserDataBatched(usernames, {
+  // Accounts with stored evidence skip RapidAPI when reuse is enabled
+  let storedData: UserTweetData[] = [];
+  let accountsToFetch = uncategorizedAccounts;
+  if (config.search.reuseStoredTweets) {
+    ({ loaded: storedData, missing: accountsToFetch } = await loadStoredUserData(uncategorizedAccounts));
+  }
+  const usernames = accountsToFetch.map((a) => a.username);
+
+  const fetchedData = await fetchUserDataBatched(usernames, {
     batchSize: config.batch.dataFetchBatchSize,
     maxConcurrentPerBatch: config.batch.dataFetchConcurrency,
     delayBetweenBatches: config.batch.dataFetchBatchDelay,
@@ -193,6 +244,29 @@ async function runBatchCategorization(accounts: Account[]): Promise<{
     },
   });
 
+  const snapshotCount = await recordEnrichmentSnapshots(fetchedData);
+  logger.info(`Recorded ${snapshotCount} metric snapshots`);
+  const tweetsStored = await storeFetchedTweets(fetchedData, accountsToFetch);
+  logger.info(`Stored ${tweetsStored} fetched tweets`);
+
+  const fetchFailures = fetchedData.filter((r) => r.error);
+  for (const failure of fetchFailures) {
+    run.error('fetch', `@${failure.username}: ${failure.error}`);
+  }
+  await run.stage('fetch', {
+    users: fetchedData.length,
+    reused: storedData.length,
+    failed: fetchFailures.length,
+    snapshots: snapshotCount,
+    tweetsStored,
+    avgTimelineDays: averageTimelineDays(fetchedData),
+  });
+
+  // Engagement, tech and x402-relevance scores from the tweets just stored
+  await run.stage('scoring', { ...(await scoreAccounts(accountsToFetch)) });
+
+  const userDataResults = [...storedData, ...fetchedData];
+
   // Create a map of username -> user data for easy lookup
   const userDataMap = new Map<string, UserTweetData>();
   for (const userData of userDataResults) {
@@ -202,13 +276,25 @@ async function runBatchCategorization(accounts: Account[]): Promise<{
   // Step 2: AI categorization in batches
   logger.info('\n--- Step 2: AI Secondary Categorization ---');
 
+  // Accounts whose fetch failed (e.g. throttled) stay uncategorized for the next run
+  const failedUsernames = new Set(fetchFailures.map((f) => f.username.toLowerCase()));
+  const accountsToCategorize = uncategorizedAccounts.filter(
+    (account) => !failedUsernames.has(account.username.toLowerCase())
+  );
+
+  const github = await enrichWithGithub(accountsToCategorize, userDataMap);
+  if (github.result) {
+    await run.stage('github', { ...github.result });
+  }
+
   // Prepare batch inputs
-  const batchInputs: BatchCategorizationInput[] = uncategorizedAccounts.map((account) => {
+  const batchInputs: BatchCategorizationInput[] = accountsToCategorize.map((account) => {
     const userData = userDataMap.get(account.username.toLowerCase());
     return {
       account,
       x402Tweets: userData?.x402Tweets || [],
       generalTweets: userData?.generalTweets || [],
+      github: github.profiles.get(account.id!) || null,
     };
   });
 
@@ -238,8 +324,13 @@ async function runBatchCategorization(accounts: Account[]): Promise<{
     };
   });
 
-  const { success, failed } = await AccountModel.bulkUpdateAICategorization(dbUpdates);
+  const { success, failed } = await AccountModel.bulkUpdateAICategorization(dbUpdates, {
+    source: 'secondary',
+    model: config.openRouter.model,
+    promptVersion: PROMPT_VERSIONS.batchSecondary,
+  });
   logger.info(`Database updates: ${success} successful, ${failed} failed`);
+  await run.stage('save', { success, failed });
 
   // Calculate category stats
   for (const result of categorizationResults) {
@@ -270,6 +361,8 @@ async function runSecondaryCategorization(): Promise<void> {
   logger.info('Starting secondary categorization for UNCATEGORIZED accounts');
   logger.info('='.repeat(50));
 
+  let run: CrawlRunRecorder | null = null;
+
   try {
     validateConfig();
     logger.info('Configuration validated');
@@ -279,34 +372,48 @@ async function runSecondaryCategorization(): Promise<void> {
     logger.info(`AI Model: ${config.openRouter.model}`);
     logger.info(`Parallel processing: ${config.batch.enableParallelProcessing ? 'ENABLED' : 'DISABLED'}`);
 
+    run = await startCrawlRun('secondary');
+
     logger.info('\n' + '-'.repeat(50));
     logger.info('Step 1: Load UNCATEGORIZED accounts...');
     logger.info('-'.repeat(50));
 
     // Get all UNCATEGORIZED accounts
-    const { data: accounts } = await AccountModel.list(
+    const { data: listed } = await AccountModel.list(
       { aiCategory: 'UNCATEGORIZED' },
       1,
       10000,
       'created_at',
       'desc'
     );
+    const { accounts, excluded } = await excludeBlockedAccounts(listed);
 
     if (!accounts || accounts.length === 0) {
       logger.info('No UNCATEGORIZED accounts found. Nothing to do.');
+      await run.finish();
       process.exit(0);
     }
 
-    // Filter to only accounts that haven't been through secondary pass
-    const needsProcessing = accounts.filter(a => !hasBeenSecondaryProcessed(a));
-    const alreadyProcessed = accounts.length - needsProcessing.length;
+    // Filter to only accounts that haven't been through secondary pass or rejected by the pre-filter
+    const needsProcessing = accounts.filter(needsSecondaryPass);
+    const alreadyProcessed = accounts.filter(hasBeenSecondaryProcessed).length;
+    const prefiltered = accounts.length - needsProcessing.length - alreadyProcessed;
 
     logger.info(`Found ${accounts.length} UNCATEGORIZED accounts`);
     logger.info(`  - ${alreadyProcessed} already secondary-processed (will be skipped)`);
+    logger.info(`  - ${prefiltered} rejected by the pre-filter (will be skipped)`);
     logger.info(`  - ${needsProcessing.length} need secondary categorization`);
+    await run.stage('load', {
+      uncategorized: accounts.length,
+      blocked: excluded,
+      alreadyProcessed,
+      prefiltered,
+      needsProcessing: needsProcessing.length,
+    });
 
     if (needsProcessing.length === 0) {
       logger.info('All UNCATEGORIZED accounts have been secondary-categorized. Nothing to do.');
+      await run.finish();
       process.exit(0);
     }
 
@@ -321,15 +428,23 @@ async function runSecondaryCategorization(): Promise<void> {
 
     if (config.batch.enableParallelProcessing) {
       logger.info('Using OPTIMIZED batch processing mode');
-      result = await runBatchCategorization(accounts);
+      result = await runBatchCategorization(accounts, run);
     } else {
       logger.info('Using LEGACY sequential processing mode');
-      result = await runSequentialCategorization(accounts);
+      result = await runSequentialCategorization(accounts, run);
     }
 
     const elapsedTime = Date.now() - startTime;
     const elapsedMinutes = (elapsedTime / 60000).toFixed(2);
 
+    await run.stage('categorization', {
+      analyzed: result.analyzedCount,
+      skipped: result.skippedCount,
+      durationMs: elapsedTime,
+      ...result.categoryStats,
+    });
+    await run.finish();
+
     logger.info('\n' + '='.repeat(50));
     logger.info('SECONDARY CATEGORIZATION COMPLETED!');
     logger.info('='.repeat(50));
@@ -381,6 +496,10 @@ async function runSecondaryCategorization(): Promise<void> {
 
   } catch (error) {
     logger.error('Secondary categorization failed:', error);
+    if (run) {
+      run.error('run', error);
+      await run.finish('failed');
+    }
     process.exit(1);
   }
 
@@ -388,4 +507,4 @@ async function runSecondaryCategorization(): Promise<void> {
   process.exit(0);
 }
 
-runSecondaryCategorization();
+trackCalls(runSecondaryCategorization);
@@ -0,0 +1,89 @@
+import { logger } from '../utils/logger.js';
+import { AccountModel, TweetModel } from '../db/account.model.js';
+import {
+  collectEngagementData,
+  collectTechnicalData,
+  collectX402EngagementData,
+} from '../collectors/engagementCollector.js';
+import type { AccountScoreUpdate } from '../db/storage.js';
+import type { Account, Tweet } from '../types/index.js';
+
+// Engagements per tweet per follower that scores 100 (2% is a very engaged audience)
+const ENGAGEMENT_RATE_FOR_MAX = 0.02;
+// Small accounts are measured against at least this many followers, so 3 likes from 10 followers is not a top score
+const MIN_FOLLOWERS_FOR_RATE = 100;
+// x402 tweets in 30 days that max out the volume half of x402_relevance
+const X402_TWEETS_FOR_MAX = 10;
+
+export interface ScoringResult {
+  accounts: number;
+  scored: number;
+  failed: number;
+}
+
+function clampScore(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)) * 10) / 10;
+}
+
+/**
+ * Scores (0-100) from an account's tweets of the last 30 days:
+ * - engagement_score: average engagement per tweet relative to followers
+ * - x402_relevance: share of tweets about x402 (60) and how many there are (40)
+ * - tech_score: code (35), repository links (25), code languages (10),
+ *   technical terms (20) and a GitHub link on the account (10)
+ */
+export async function computeAccountScores(account: Account, recentTweets: Tweet[]): Promise<AccountScoreUpdate> {
+  const accountId = account.id!;
+  const [engagement, x402, technical] = await Promise.all([
+    collectEngagementData(accountId, recentTweets),
+    collectX402EngagementData(accountId, recentTweets),
+    collectTechnicalData(accountId, recentTweets),
+  ]);
+
+  const engagementRate = engagement.avgEngagementPerTweet / Math.max(account.followers_count, MIN_FOLLOWERS_FOR_RATE);
+  const x402Share = engagement.totalTweets > 0 ? x402.x402TweetCount / engagement.totalTweets : 0;
+
+  const techScore =
+    35 * Math.min(1, technical.tweetsWithCode / 3) +
+    25 * Math.min(1, technical.repoLinks.length / 2) +
+    10 * Math.min(1, technical.codeLanguages.length / 2) +
+    20 * Math.min(1, technical.technicalTermsFound.length / 4) +
+    (account.has_github ? 10 : 0);
+
+  // Recent tweets are newest first; fall back to older stored tweets for inactive accounts
+  const lastActiveAt = recentTweets[0]?.created_at ??
+    (await TweetModel.getByAccountId(accountId, 1))[0]?.created_at ??
+    account.last_active_at ??
+    null;
+
+  return {
+    engagement_score: clampScore((engagementRate / ENGAGEMENT_RATE_FOR_MAX) * 100),
+    tech_score: clampScore(techScore),
+    x402_relevance: clampScore(60 * x402Share + 40 * Math.min(1, x402.x402TweetCount / X402_TWEETS_FOR_MAX)),
+    x402_tweet_count_30d: x402.x402TweetCount,
+    last_active_at: lastActiveAt,
+  };
+}
+
+/**
+ * Compute and save scores for accounts whose tweets were just collected
+ */
+export async function scoreAccounts(accounts: Account[]): Promise<ScoringResult> {
+  const updates: Array<AccountScoreUpdate & { twitter_id: string }> = [];
+  let failed = 0;
+
+  for (const account of accounts) {
+    if (!account.id) continue;
+    try {
+      const recentTweets = await TweetModel.getRecentByAccountId(account.id);
+      updates.push({ twitter_id: account.twitter_id, ...(await computeAccountScores(account, recentTweets)) });
+    } catch (error) {
+      logger.error(`Failed to score @${account.username}:`, error);
+      failed++;
+    }
+  }
+
+  const saved = await AccountModel.bulkUpdateScores(updates);
+  logger.info(`Scored ${saved.success}/${accounts.length} accounts`);
+  return { accounts: accounts.length, scored: saved.success, failed: failed + saved.failed };
+}
@@ -0,0 +1,40 @@
+import { logger } from '../utils/logger.js';
+import { AccountModel, BlocklistModel } from '../db/account.model.js';
+import type { Account, BlocklistEntry } from '../types/index.js';
+import type { NewBlocklistEntry } from '../db/storage.js';
+
+/**
+ * Add a twitter_id to the blocklist and archive its account, if we have one
+ * @returns The saved entry and whether an account was archived
+ */
+export async function blockAccount(
+  entry: NewBlocklistEntry
+): Promise<{ entry: BlocklistEntry | null; archived: boolean }> {
+  const saved = await BlocklistModel.add(entry);
+  if (!saved) {
+    return { entry: null, archived: false };
+  }
+
+  const account = await AccountModel.getByTwitterId(entry.twitter_id);
+  const archived = account?.id && !account.deleted_at ? await AccountModel.archive(account.id) : false;
+
+  logger.info(`Blocked ${entry.username ? `@${entry.username}` : entry.twitter_id} (added by ${entry.added_by})`);
+  return { entry: saved, archived };
+}
+
+/**
+ * Drop archived and blocklisted accounts before paying to fetch or categorize them
+ * @returns The remaining accounts and how many were dropped
+ */
+export async function excludeBlockedAccounts(
+  accounts: Account[]
+): Promise<{ accounts: Account[]; excluded: number }> {
+  const blocked = await BlocklistModel.findBlocked(accounts.map((a) => a.twitter_id));
+  const allowed = accounts.filter((a) => !a.deleted_at && !blocked.has(a.twitter_id));
+
+  const excluded = accounts.length - allowed.length;
+  if (excluded > 0) {
+    logger.info(`Excluded ${excluded} archived or blocklisted accounts`);
+  }
+  return { accounts: allowed, excluded };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { detectBotSignals, mergeRedFlags } from './botDetector.js';
+import type { RedFlag } from '../types/index.js';
+
+const account = { username: 'alice', followers_count: 800, following_count: 400 };
+
+const TOPICS = [
+  'shipped the x402 facilitator', 'reading the payment spec', 'coffee first', 'debugging a flaky test',
+  'great talk on agents', 'wrote up the settlement flow', 'trying a new editor', 'benchmarks look good',
+  'weekend hike', 'reviewing pull requests', 'gas fees are down', 'docs are live',
+];
+
+// Tweets in posting order; gaps in minutes default to an irregular pattern
+function timeline(texts: string[], gaps?: number[]) {
+  let time = Date.parse('2026-01-01T00:00:00.000Z');
+  return texts.map((content, i) => {
+    time += (gaps?.[i] ?? [7, 95, 30, 240, 12, 61, 400, 3, 55, 180, 20][i % 11]) * 60000;
+    return { twitter_id: `t${i}`, content, created_at: new Date(time).toISOString(), conversation_id: `t${i}` };
+  });
+}
+
+const signals = (flags: RedFlag[]) => flags.map((f) => f.signal);
+
+describe('detectBotSignals', () => {
+  it('raises nothing for an ordinary timeline', () => {
+    const { flags, metrics } = detectBotSignals(account, timeline(TOPICS));
+
+    expect(flags).toEqual([]);
+    expect(metrics).toMatchObject({ tweets: 12, templated_ratio: 0, reply_ratio: 0, giveaway_tweets: 0, follow_ratio: 2 });
+  });
+
+  it('leaves ratios unmeasured on short timelines', () => {
+    const { flags, metrics } = detectBotSignals(account, timeline(TOPICS.slice(0, 3)));
+
+    expect(flags).toEqual([]);
+    expect(metrics).toMatchObject({ interval_variation: null, templated_ratio: null, reply_ratio: null });
+  });
+
+  it('flags tweets posted at near-constant intervals', () => {
+    const { flags, metrics } = detectBotSignals(account, timeline(TOPICS, TOPICS.map(() => 60)));
+
+    expect(signals(flags)).toEqual(['posting_regularity']);
+    expect(metrics).toMatchObject({ interval_variation: 0, median_interval_minutes: 60 });
+  });
+
+  it('flags text that only differs in links, mentions and numbers', () => {
+    const texts = TOPICS.map((_, i) => `Claim ${i * 10} x402 tokens now @user${i} https://t.co/${i}`);
+    const { flags, metrics } = detectBotSignals(account, timeline(texts));
+
+    expect(flags).toEqual([expect.objectContaining({ signal: 'templated_text', severity: 'high' })]);
+    expect(flags[0].evidence_tweet_ids).toHaveLength(10);
+    expect(metrics.templated_ratio).toBe(1);
+  });
+
+  it('flags accounts that only reply to others', () => {
+    const tweets = timeline(TOPICS.map((text) => `@bob ${text}`)).map((t) => ({ ...t, conversation_id: 'c1' }));
+
+    expect(signals(detectBotSignals(account, tweets).flags)).toEqual(['reply_only']);
+  });
+
+  it('flags giveaway farming', () => {
+    const texts = [...TOPICS.slice(0, 9), 'Giveaway time', 'Like & RT to win a hoodie', 'Tag 3 friends for the drop'];
+    const { flags, metrics } = detectBotSignals(account, timeline(texts));
+
+    expect(flags).toEqual([expect.objectContaining({ signal: 'giveaway', severity: 'medium' })]);
+    expect(metrics.giveaway_tweets).toBe(3);
+  });
+
+  it('flags following far more accounts than follow back', () => {
+    const { flags } = detectBotSignals({ username: 'alice', followers_count: 90, following_count: 1000 }, []);
+
+    expect(flags).toEqual([expect.objectContaining({ signal: 'follow_ratio', severity: 'low', evidence_tweet_ids: [] })]);
+  });
+});
+
+describe('mergeRedFlags', () => {
+  it('replaces detector flags from an earlier run and keeps AI flags', () => {
+    const ai = { type: 'low_quality_content', description: 'Mostly memes', severity: 'low' } as RedFlag;
+    const old = { type: 'bot_like_behavior', description: 'old', severity: 'medium', signal: 'templated_text' } as RedFlag;
+    const fresh = { type: 'engagement_farming', description: 'new', severity: 'high', signal: 'giveaway' } as RedFlag;
+
+    expect(mergeRedFlags([ai, old], [fresh])).toEqual([ai, fresh]);
+  });
+});
@@ -0,0 +1,213 @@
+import { logger } from '../utils/logger.js';
+import { TweetModel } from '../db/account.model.js';
+import type { Account, BotSignal, BotSignalMetrics, RedFlag, Tweet } from '../types/index.js';
+
+type TimelineTweet = Pick<Tweet, 'twitter_id' | 'content' | 'created_at' | 'conversation_id'>;
+
+// Stored timeline tweets the detector looks at per account (newest first)
+const TIMELINE_LIMIT = 200;
+// Evidence tweet ids kept per flag
+const MAX_EVIDENCE = 10;
+
+// Gaps between tweets this regular (std dev / mean) look scheduled
+const MIN_INTERVALS = 8;
+const MAX_INTERVAL_VARIATION = 0.15;
+
+const MIN_TWEETS_FOR_RATIOS = 10;
+const TEMPLATED_RATIO = 0.5;
+const REPLY_ONLY_RATIO = 0.9;
+const GIVEAWAY_MIN_TWEETS = 3;
+const GIVEAWAY_RATIO = 0.2;
+// Following at least this many accounts with under a tenth as many followers
+const FOLLOW_RATIO_MIN_FOLLOWING = 1000;
+const FOLLOW_RATIO = 0.1;
+
+// "like & RT to win", "follow + retweet for a chance", "giveaway", "tag 3 friends"
+const GIVEAWAY_PATTERNS = [
+  /\b(like|rt|retweet|repost|follow)\b[^.\n]{0,60}\b(to win|to enter|for a chance|and win|winners?)\b/i,
+  /\bgiveaway\b/i,
+  /\btag \d+ (friends|frens|people)\b/i,
+  /\b(whitelist|wl|airdrop) spots?\b/i,
+];
+
+/**
+ * Text with links, mentions, numbers and punctuation removed, so tweets that
+ * only differ in those count as the same template
+ */
+function templateOf(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[@#$]\w+/g, ' ')
+    .replace(/\d+/g, '0')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * A reply to someone else: part of another conversation and addressed to another user
+ */
+function isReply(tweet: TimelineTweet, username: string): boolean {
+  if (!tweet.conversation_id || tweet.conversation_id === tweet.twitter_id) return false;
+  const to = /^@(\w{1,15})/.exec(tweet.content.trimStart())?.[1];
+  return Boolean(to) && to!.toLowerCase() !== username.toLowerCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function flag(
+  signal: BotSignal,
+  type: RedFlag['type'],
+  severity: RedFlag['severity'],
+  description: string,
+  evidence: string[]
+): RedFlag {
+  return { type, description, severity, signal, evidence_tweet_ids: evidence.slice(0, MAX_EVIDENCE) };
+}
+
+/**
+ * Check a timeline for scheduled posting, templated text, giveaway farming,
+ * reply-only activity and a lopsided follower/following ratio
+ */
+export function detectBotSignals(
+  account: Pick<Account, 'username' | 'followers_count' | 'following_count'>,
+  tweets: TimelineTweet[]
+): { flags: RedFlag[]; metrics: BotSignalMetrics } {
+  const flags: RedFlag[] = [];
+  const sorted = [...tweets].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const metrics: BotSignalMetrics = {
+    tweets: sorted.length,
+    interval_variation: null,
+    median_interval_minutes: null,
+    templated_ratio: null,
+    giveaway_tweets: 0,
+    follow_ratio: account.following_count > 0 ? round(account.followers_count / account.following_count) : null,
+    reply_ratio: null,
+  };
+
+  // Posting-interval regularity
+  const gaps = sorted
+    .slice(1)
+    .map((tweet, i) => (new Date(tweet.created_at).getTime() - new Date(sorted[i].created_at).getTime()) / 60000);
+  if (gaps.length >= MIN_INTERVALS) {
+    const mean = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+    const variance = gaps.reduce((sum, gap) => sum + (gap - mean) ** 2, 0) / gaps.length;
+    const median = [...gaps].sort((a, b) => a - b)[Math.floor(gaps.length / 2)];
+    metrics.interval_variation = mean > 0 ? round(Math.sqrt(variance) / mean) : 0;
+    metrics.median_interval_minutes = round(median);
+    if (metrics.interval_variation <= MAX_INTERVAL_VARIATION) {
+      flags.push(flag(
+        'posting_regularity',
+        'bot_like_behavior',
+        'medium',
+        `${sorted.length} tweets posted about every ${Math.round(median)} minutes with near-constant gaps`,
+        sorted.slice(-MAX_EVIDENCE).map((t) => t.twitter_id)
+      ));
+    }
+  }
+
+  if (sorted.length >= MIN_TWEETS_FOR_RATIOS) {
+    // Duplicate or templated text
+    const templates = new Map<string, string[]>();
+    for (const tweet of sorted) {
+      const template = templateOf(tweet.content);
+      if (!template) continue;
+      templates.set(template, [...(templates.get(template) || []), tweet.twitter_id]);
+    }
+    const repeated = [...templates.values()].filter((ids) => ids.length > 1).sort((a, b) => b.length - a.length);
+    const templated = repeated.reduce((sum, ids) => sum + ids.length, 0);
+    metrics.templated_ratio = round(templated / sorted.length);
+    if (metrics.templated_ratio >= TEMPLATED_RATIO) {
+      flags.push(flag(
+        'templated_text',
+        'bot_like_behavior',
+        metrics.templated_ratio >= 0.8 ? 'high' : 'medium',
+        `${templated} of ${sorted.length} tweets repeat the same text with different links, mentions or numbers`,
+        repeated.flat()
+      ));
+    }
+
+    // Reply-only activity
+    const replies = sorted.filter((tweet) => isReply(tweet, account.username));
+    metrics.reply_ratio = round(replies.length / sorted.length);
+    if (metrics.reply_ratio >= REPLY_ONLY_RATIO) {
+      flags.push(flag(
+        'reply_only',
+        'engagement_farming',
+        'medium',
+        `${replies.length} of ${sorted.length} tweets are replies to other accounts`,
+        replies.map((t) => t.twitter_id)
+      ));
+    }
+  }
+
+  // "Like/RT/follow to win"
+  const giveaways = sorted.filter((tweet) => GIVEAWAY_PATTERNS.some((pattern) => pattern.test(tweet.content)));
+  metrics.giveaway_tweets = giveaways.length;
+  if (giveaways.length >= GIVEAWAY_MIN_TWEETS && giveaways.length / sorted.length >= GIVEAWAY_RATIO) {
+    flags.push(flag(
+      'giveaway',
+      'engagement_farming',
+      giveaways.length / sorted.length >= 0.5 ? 'high' : 'medium',
+      `${giveaways.length} of ${sorted.length} tweets are giveaways or "like/RT/follow to win" posts`,
+      giveaways.map((t) => t.twitter_id)
+    ));
+  }
+
+  // Follower/following ratio
+  if (
+    account.following_count >= FOLLOW_RATIO_MIN_FOLLOWING &&
+    metrics.follow_ratio !== null &&
+    metrics.follow_ratio < FOLLOW_RATIO
+  ) {
+    flags.push(flag(
+      'follow_ratio',
+      'bot_like_behavior',
+      'low',
+      `Follows ${account.following_count.toLocaleString()} accounts but has ${account.followers_count.toLocaleString()} followers`,
+      []
+    ));
+  }
+
+  return { flags, metrics };
+}
+
+/**
+ * Run the detector over an account's stored timeline
+ */
+export async function detectAccountBotSignals(
+  account: Account
+): Promise<{ flags: RedFlag[]; metrics: BotSignalMetrics }> {
+  const tweets = account.id ? await TweetModel.getByAccountId(account.id, TIMELINE_LIMIT, 'timeline') : [];
+  return detectBotSignals(account, tweets);
+}
+
+/**
+ * AI red flags followed by the detector's flags (replacing detector flags from an earlier run)
+ */
+export function mergeRedFlags<T extends { signal?: string }>(aiFlags: T[], detected: RedFlag[]): Array<T | RedFlag> {
+  return [...aiFlags.filter((f) => !f.signal), ...detected];
+}
+
+/**
+ * Detector flags for several accounts, keyed by twitter_id. Accounts whose
+ * timeline cannot be read get none rather than failing the run.
+ */
+export async function detectBotSignalsForAccounts(accounts: Account[]): Promise<Map<string, RedFlag[]>> {
+  const byAccount = new Map<string, RedFlag[]>();
+  for (const account of accounts) {
+    try {
+      const { flags } = await detectAccountBotSignals(account);
+      byAccount.set(account.twitter_id, flags);
+      if (flags.length > 0) {
+        logger.info(`Bot detector flagged @${account.username}: ${flags.map((f) => f.signal).join(', ')}`);
+      }
+    } catch (error) {
+      logger.error(`Bot detection failed for @${account.username}:`, error);
+    }
+  }
+  return byAccount;
+}
@@ -0,0 +1,106 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { CrawlRunModel } from '../db/account.model.js';
+import { currentCallCounters, type CallCounters } from '../utils/callCounters.js';
+import { getKolThresholds } from './kolPolicy.js';
+import type { CrawlRun, CrawlRunStatus, CrawlRunType } from '../types/index.js';
+
+export interface CrawlRunRecorder {
+  // Null when the run record could not be created (the crawl still proceeds)
+  readonly id: string | null;
+  // Merge counts into a stage and save progress
+  stage(name: string, counts: Record<string, number>): Promise<void>;
+  // Collect an error; saved with the next stage() or finish()
+  error(stage: string, error: unknown): void;
+  finish(status?: Exclude<CrawlRunStatus, 'running'>): Promise<void>;
+}
+
+/**
+ * Config values worth keeping with a run (no credentials)
+ */
+async function configSnapshot(): Promise<Record<string, unknown>> {
+  return {
+    search: { ...config.search },
+    graphDiscovery: { ...config.graphDiscovery },
+    prefilter: { ...config.prefilter },
+    // Including changes saved through the settings API
+    kolThresholds: await getKolThresholds(),
+    batch: { ...config.batch },
+    model: config.openRouter.model,
+    storage: config.storage.backend,
+    twitterProvider: config.twitter.provider,
+    githubProvider: config.github.enabled ? config.github.provider : 'disabled',
+    rateLimit: { ...config.rapidApi.rateLimit },
+  };
+}
+
+/**
+ * Create a crawl_runs record and return a recorder for its stats.
+ * API calls, AI batches and RapidAPI throttling are read from the trackCalls()
+ * context the run is started in, so concurrent jobs keep separate counts.
+ */
+export async function startCrawlRun(
+  type: CrawlRunType,
+  options: { keywords?: string[]; jobId?: string } = {}
+): Promise<CrawlRunRecorder> {
+  const tracked = currentCallCounters();
+  if (!tracked) {
+    logger.warn('Crawl run started outside trackCalls(); API calls and AI batches will not be counted');
+  }
+  const counts: CallCounters = tracked ?? { apiCalls: 0, aiBatches: 0, throttled: 0, retries: 0, failures: 0 };
+  const stages: CrawlRun['stages'] = {};
+  const errors: CrawlRun['errors'] = [];
+
+  const run = await CrawlRunModel.create({
+    type,
+    status: 'running',
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    keywords: options.keywords || [],
+    config_snapshot: await configSnapshot(),
+    stages,
+    errors,
+    api_calls: 0,
+    ai_batches: 0,
+    job_id: options.jobId || null,
+  });
+
+  if (run?.id) {
+    logger.info(`Recording crawl run ${run.id}`);
+  } else {
+    logger.warn('Could not create crawl run record; run statistics will not be saved');
+  }
+
+  const save = async (extra: Partial<CrawlRun> = {}): Promise<void> => {
+    if (!run?.id) return;
+    await CrawlRunModel.update(run.id, {
+      stages,
+      errors,
+      api_calls: counts.apiCalls,
+      ai_batches: counts.aiBatches,
+      ...extra,
+    });
+  };
+
+  return {
+    id: run?.id || null,
+
+    async stage(name, counts) {
+      stages[name] = { ...stages[name], ...counts };
+      await save();
+    },
+
+    error(stage, error) {
+      errors.push({
+        stage,
+        message: error instanceof Error ? error.message : String(error),
+        at: new Date().toISOString(),
+      });
+    },
+
+    async finish(status = 'completed') {
+      stages.rate_limit = { throttled: counts.throttled, retries: counts.retries, failures: counts.failures };
+      await save({ status, finished_at: new Date().toISOString() });
+    },
+  };
+}
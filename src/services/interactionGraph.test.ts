@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { setStorage } from '../db/storage.js';
+import { createMemoryStorage } from '../db/memoryStorage.js';
+import { GraphModel } from '../db/account.model.js';
+import { computeInfluence } from './interactionGraph.js';
+import type { AccountInteraction } from '../types/index.js';
+
+function edge(source: string, target: string, tweetId: string): AccountInteraction {
+  return {
+    tweet_id: tweetId,
+    type: 'mention',
+    source_twitter_id: `id_${source}`,
+    source_username: source,
+    target_twitter_id: null,
+    target_username: target,
+    created_at: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+});
+
+describe('computeInfluence', () => {
+  it('ranks the most mentioned user highest', async () => {
+    await GraphModel.addInteractions([
+      edge('alice', 'hub', 't1'),
+      edge('bob', 'hub', 't2'),
+      edge('carol', 'hub', 't3'),
+      edge('hub', 'alice', 't4'),
+      edge('alice', 'hub', 't5'),
+    ]);
+
+    expect(await computeInfluence()).toEqual({ nodes: 4, edges: 5 });
+
+    const { data } = await GraphModel.listInfluence(1, 10);
+    expect(data.map((s) => s.username).slice(0, 2)).toEqual(['hub', 'alice']);
+    expect(data[0]).toMatchObject({ influence_score: 100, in_degree: 3, out_degree: 1, interactions_received: 4 });
+    expect(data.find((s) => s.username === 'bob')?.twitter_id).toBe('id_bob');
+    // PageRank is a probability distribution over the users
+    expect(data.reduce((sum, s) => sum + s.pagerank, 0)).toBeCloseTo(1, 6);
+  });
+
+  it('gives users with no incoming edges the same rank', async () => {
+    await GraphModel.addInteractions([edge('alice', 'hub', 't1'), edge('bob', 'hub', 't2')]);
+    await computeInfluence();
+
+    const scores = (await GraphModel.listInfluence(1, 10)).data;
+    const alice = scores.find((s) => s.username === 'alice')!;
+    const bob = scores.find((s) => s.username === 'bob')!;
+    expect(alice.pagerank).toBeCloseTo(bob.pagerank, 12);
+  });
+
+  it('clears old scores when the graph is empty', async () => {
+    await GraphModel.addInteractions([edge('alice', 'hub', 't1')]);
+    await computeInfluence();
+    setStorage(createMemoryStorage());
+
+    expect(await computeInfluence()).toEqual({ nodes: 0, edges: 0 });
+    expect((await GraphModel.listInfluence(1, 10)).data).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { logger } from '../utils/logger.js';
+import { AccountModel, GraphModel } from '../db/account.model.js';
+import type {
+  Account,
+  AccountInteraction,
+  GraphNeighbor,
+  InfluenceScore,
+  InteractionType,
+} from '../types/index.js';
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-9;
+
+/**
+ * Weighted PageRank over a directed graph (edge weight = number of interactions).
+ * Rank held by users with no outgoing edges is spread evenly over all users.
+ */
+function pagerank(nodes: string[], outgoing: Map<string, Map<string, number>>): Map<string, number> {
+  const count = nodes.length;
+  let ranks = new Map(nodes.map((node) => [node, 1 / count]));
+
+  const outWeight = new Map<string, number>();
+  for (const [node, targets] of outgoing) {
+    outWeight.set(node, [...targets.values()].reduce((sum, w) => sum + w, 0));
+  }
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let danglingRank = 0;
+    for (const node of nodes) {
+      if (!outWeight.get(node)) danglingRank += ranks.get(node)!;
+    }
+
+    const base = (1 - DAMPING) / count + (DAMPING * danglingRank) / count;
+    const next = new Map(nodes.map((node) => [node, base]));
+    for (const [node, targets] of outgoing) {
+      const share = (DAMPING * ranks.get(node)!) / outWeight.get(node)!;
+      for (const [target, weight] of targets) {
+        next.set(target, next.get(target)! + share * weight);
+      }
+    }
+
+    let delta = 0;
+    for (const node of nodes) {
+      delta += Math.abs(next.get(node)! - ranks.get(node)!);
+    }
+    ranks = next;
+    if (delta < TOLERANCE) break;
+  }
+
+  return ranks;
+}
+
+/**
+ * Recompute influence for every user in the interaction graph and replace the stored scores
+ */
+export async function computeInfluence(): Promise<{ nodes: number; edges: number }> {
+  const edges = await GraphModel.listInteractions();
+  if (edges.length === 0) {
+    await GraphModel.replaceInfluence([]);
+    return { nodes: 0, edges: 0 };
+  }
+
+  const twitterIds = new Map<string, string>();
+  const outgoing = new Map<string, Map<string, number>>();
+  const incomingUsers = new Map<string, Set<string>>();
+  const received = new Map<string, number>();
+
+  for (const edge of edges) {
+    twitterIds.set(edge.source_username, edge.source_twitter_id);
+    if (edge.target_twitter_id) twitterIds.set(edge.target_username, edge.target_twitter_id);
+
+    const targets = outgoing.get(edge.source_username) || new Map<string, number>();
+    targets.set(edge.target_username, (targets.get(edge.target_username) || 0) + 1);
+    outgoing.set(edge.source_username, targets);
+
+    const sources = incomingUsers.get(edge.target_username) || new Set<string>();
+    sources.add(edge.source_username);
+    incomingUsers.set(edge.target_username, sources);
+    received.set(edge.target_username, (received.get(edge.target_username) || 0) + 1);
+  }
+
+  const nodes = [...new Set([...outgoing.keys(), ...incomingUsers.keys()])];
+  const ranks = pagerank(nodes, outgoing);
+  const maxRank = Math.max(...ranks.values());
+  const computedAt = new Date().toISOString();
+
+  const scores: InfluenceScore[] = nodes.map((username) => ({
+    username,
+    twitter_id: twitterIds.get(username) || null,
+    pagerank: ranks.get(username)!,
+    influence_score: Math.round((ranks.get(username)! / maxRank) * 10000) / 100,
+    in_degree: incomingUsers.get(username)?.size || 0,
+    out_degree: outgoing.get(username)?.size || 0,
+    interactions_received: received.get(username) || 0,
+    computed_at: computedAt,
+  }));
+
+  await GraphModel.replaceInfluence(scores);
+  logger.info(`Computed influence for ${nodes.length} users from ${edges.length} interactions`);
+  return { nodes: nodes.length, edges: edges.length };
+}
+
+/**
+ * Users an account interacted with (outgoing) or who interacted with it (incoming),
+ * most interactions first
+ */
+export async function getNeighbors(
+  account: Account,
+  direction: 'outgoing' | 'incoming' | 'both' = 'both',
+  limit = 50
+): Promise<GraphNeighbor[]> {
+  const username = account.username.toLowerCase();
+  const edges = await GraphModel.getInteractions(username);
+
+  const neighbors = new Map<string, GraphNeighbor>();
+  const addEdge = (edge: AccountInteraction, neighborDirection: GraphNeighbor['direction']) => {
+    const other = neighborDirection === 'outgoing' ? edge.target_username : edge.source_username;
+    const otherId = neighborDirection === 'outgoing' ? edge.target_twitter_id : edge.source_twitter_id;
+    const key = `${neighborDirection}:${other}`;
+    const neighbor = neighbors.get(key) || {
+      username: other,
+      twitter_id: otherId,
+      account_id: null,
+      display_name: null,
+      direction: neighborDirection,
+      counts: { mention: 0, reply: 0, quote: 0 } as Record<InteractionType, number>,
+      total: 0,
+      influence_score: null,
+    };
+    neighbor.twitter_id = neighbor.twitter_id || otherId;
+    neighbor.counts[edge.type]++;
+    neighbor.total++;
+    neighbors.set(key, neighbor);
+  };
+
+  for (const edge of edges) {
+    if (edge.source_username === username && direction !== 'incoming') addEdge(edge, 'outgoing');
+    if (edge.target_username === username && direction !== 'outgoing') addEdge(edge, 'incoming');
+  }
+
+  const result = [...neighbors.values()].sort((a, b) => b.total - a.total).slice(0, limit);
+  const usernames = [...new Set(result.map((n) => n.username))];
+  const [accounts, scores] = await Promise.all([
+    AccountModel.getByUsernames(usernames),
+    GraphModel.getInfluence(usernames),
+  ]);
+  const accountsByUsername = new Map(accounts.map((a) => [a.username.toLowerCase(), a]));
+  const scoresByUsername = new Map(scores.map((s) => [s.username, s.influence_score]));
+
+  for (const neighbor of result) {
+    const neighborAccount = accountsByUsername.get(neighbor.username);
+    neighbor.account_id = neighborAccount?.id || null;
+    neighbor.display_name = neighborAccount?.display_name || null;
+    neighbor.twitter_id = neighbor.twitter_id || neighborAccount?.twitter_id || null;
+    neighbor.influence_score = scoresByUsername.get(neighbor.username) ?? null;
+  }
+  return result;
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../config/index.js';
+import { setStorage } from '../db/storage.js';
+import { createMemoryStorage } from '../db/memoryStorage.js';
+import { AccountModel } from '../db/account.model.js';
+import {
+  applyKolThresholds,
+  checkKolThresholds,
+  getKolThresholds,
+  resetKolThresholds,
+  updateKolThresholds,
+} from './kolPolicy.js';
+import { makeAccount } from '../test/fixtures.js';
+import type { Account, KolThresholds } from '../types/index.js';
+
+const defaults = { ...config.thresholds.kol };
+const thresholds: KolThresholds = {
+  minFollowers: 1000,
+  minEngagementScore: 50,
+  minX402Relevance: 30,
+  minX402Tweets30d: 3,
+  action: 'review',
+};
+
+const verdict = (twitterId: string, category = 'KOL') => ({
+  twitter_id: twitterId,
+  ai_category: category,
+  ai_reasoning: 'Explains x402 in depth',
+  ai_confidence: 0.9,
+});
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+  Object.assign(config.thresholds.kol, thresholds);
+});
+
+afterEach(() => {
+  Object.assign(config.thresholds.kol, defaults);
+});
+
+async function seed(): Promise<void> {
+  await AccountModel.bulkUpsert([
+    makeAccount({ twitter_id: 'strong', followers_count: 5000, engagement_score: 80, x402_relevance: 60, x402_tweet_count_30d: 10 }),
+    makeAccount({ twitter_id: 'small', followers_count: 200, engagement_score: 80, x402_relevance: 60, x402_tweet_count_30d: 10 }),
+  ]);
+}
+
+describe('checkKolThresholds', () => {
+  it('lists every threshold an account is below, treating unscored as 0', () => {
+    const account = makeAccount({ twitter_id: '1', followers_count: 200, engagement_score: 80 }) as Account;
+
+    expect(checkKolThresholds(account, thresholds)).toEqual([
+      { rule: 'min_followers', value: 200, threshold: 1000 },
+      { rule: 'min_x402_relevance', value: 0, threshold: 30 },
+      { rule: 'min_x402_tweets_30d', value: 0, threshold: 3 },
+    ]);
+  });
+
+  it('skips thresholds set to 0', () => {
+    const account = makeAccount({ twitter_id: '1', followers_count: 0 }) as Account;
+    const off = { ...thresholds, minFollowers: 0, minEngagementScore: 0, minX402Relevance: 0, minX402Tweets30d: 0 };
+
+    expect(checkKolThresholds(account, off)).toEqual([]);
+  });
+});
+
+describe('applyKolThresholds', () => {
+  it('marks KOL verdicts below a threshold for review', async () => {
+    await seed();
+
+    const { updates, counts } = await applyKolThresholds([verdict('strong'), verdict('small'), verdict('small', 'DEVELOPER')]);
+
+    expect(updates[0]).toEqual(verdict('strong'));
+    expect(updates[1]).toMatchObject({
+      ai_category: 'KOL',
+      needs_review: true,
+      threshold_failures: [{ rule: 'min_followers', value: 200, threshold: 1000 }],
+    });
+    expect(updates[2]).toEqual(verdict('small', 'DEVELOPER'));
+    expect(counts).toEqual({ checked: 2, passed: 1, downgraded: 0, needs_review: 1, min_followers: 1 });
+  });
+
+  it('passes KOL verdicts for unknown accounts through unchecked', async () => {
+    await seed();
+
+    const { updates, counts } = await applyKolThresholds([verdict('missing'), verdict('small')]);
+
+    expect(updates[0]).toEqual(verdict('missing'));
+    expect(updates[1]).toMatchObject({ needs_review: true });
+    expect(counts).toMatchObject({ checked: 1, needs_review: 1 });
+  });
+
+  it('downgrades them when the action is downgrade', async () => {
+    await seed();
+    await updateKolThresholds({ action: 'downgrade' });
+
+    const { updates: [update] } = await applyKolThresholds([verdict('small')]);
+
+    expect(update.ai_category).toBe('UNCATEGORIZED');
+    expect(update.ai_reasoning).toBe(
+      'KOL thresholds not met (min_followers: 200 < 1000). AI verdict was KOL: Explains x402 in depth'
+    );
+  });
+
+  it('saves the marks with the verdict and clears them with the next one', async () => {
+    await seed();
+    const meta = { source: 'worker' as const, model: null, promptVersion: null };
+
+    const { updates: [marked] } = await applyKolThresholds([verdict('small')]);
+    const { twitter_id, ...data } = marked;
+    await AccountModel.updateAICategory(twitter_id, data, meta);
+    expect(await AccountModel.getByTwitterId('small')).toMatchObject({ ai_category: 'KOL', needs_review: true });
+
+    const { twitter_id: _, ...next } = verdict('small', 'DEVELOPER');
+    await AccountModel.updateAICategory('small', next, meta);
+    expect(await AccountModel.getByTwitterId('small')).toMatchObject({ needs_review: false, threshold_failures: [] });
+  });
+});
+
+describe('KOL threshold settings', () => {
+  it('overrides the environment values until reset', async () => {
+    expect(await updateKolThresholds({ minFollowers: 50 })).toEqual({ ...thresholds, minFollowers: 50 });
+    expect(await updateKolThresholds({ action: 'downgrade' })).toEqual({ ...thresholds, minFollowers: 50, action: 'downgrade' });
+
+    expect(await resetKolThresholds()).toEqual(thresholds);
+    expect(await getKolThresholds()).toEqual(thresholds);
+  });
+});
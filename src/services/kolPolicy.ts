@@ -0,0 +1,117 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { AccountModel, SettingsModel } from '../db/account.model.js';
+import type { AICategoryUpdate } from '../db/storage.js';
+import type { Account, KolThresholdRule, KolThresholds, ThresholdFailure } from '../types/index.js';
+
+// Settings key of the thresholds saved through the settings API
+export const KOL_THRESHOLDS_SETTING = 'kol_thresholds';
+
+type ThresholdKey = Exclude<keyof KolThresholds, 'action'>;
+
+// Checked in this order; unscored accounts count as 0
+const RULES: Array<{ rule: KolThresholdRule; key: ThresholdKey; value: (account: Account) => number }> = [
+  { rule: 'min_followers', key: 'minFollowers', value: (a) => a.followers_count },
+  { rule: 'min_engagement_score', key: 'minEngagementScore', value: (a) => a.engagement_score ?? 0 },
+  { rule: 'min_x402_relevance', key: 'minX402Relevance', value: (a) => a.x402_relevance ?? 0 },
+  { rule: 'min_x402_tweets_30d', key: 'minX402Tweets30d', value: (a) => a.x402_tweet_count_30d ?? 0 },
+];
+
+async function getSavedThresholds(): Promise<Partial<KolThresholds>> {
+  return ((await SettingsModel.get(KOL_THRESHOLDS_SETTING)) as Partial<KolThresholds> | null) || {};
+}
+
+/**
+ * Thresholds in effect: the KOL_* environment values overridden by those saved through the settings API
+ */
+export async function getKolThresholds(): Promise<KolThresholds> {
+  return { ...config.thresholds.kol, ...(await getSavedThresholds()) };
+}
+
+/**
+ * Save threshold changes (values not given keep their current setting); null if they could not be saved
+ */
+export async function updateKolThresholds(changes: Partial<KolThresholds>): Promise<KolThresholds | null> {
+  const saved = await SettingsModel.set(KOL_THRESHOLDS_SETTING, { ...(await getSavedThresholds()), ...changes });
+  return saved ? getKolThresholds() : null;
+}
+
+/**
+ * Drop saved thresholds so the environment values apply again
+ */
+export async function resetKolThresholds(): Promise<KolThresholds> {
+  await SettingsModel.delete(KOL_THRESHOLDS_SETTING);
+  return getKolThresholds();
+}
+
+/**
+ * The thresholds an account is below (a threshold of 0 is off)
+ */
+export function checkKolThresholds(account: Account, thresholds: KolThresholds): ThresholdFailure[] {
+  const failures: ThresholdFailure[] = [];
+  for (const { rule, key, value } of RULES) {
+    const threshold = thresholds[key];
+    if (threshold > 0 && value(account) < threshold) {
+      failures.push({ rule, value: value(account), threshold });
+    }
+  }
+  return failures;
+}
+
+function describeFailures(failures: ThresholdFailure[]): string {
+  return failures.map((f) => `${f.rule}: ${f.value} < ${f.threshold}`).join('; ');
+}
+
+/**
+ * Hold KOL verdicts to the KOL thresholds before they are saved. A verdict
+ * below a threshold is marked for review, or saved as UNCATEGORIZED with the
+ * failed rules in the reasoning when the action is 'downgrade'. Accounts are
+ * read again, in one lookup, because their scores are computed after the
+ * crawl loads them.
+ */
+export async function applyKolThresholds<T extends AICategoryUpdate & { twitter_id: string }>(
+  updates: T[]
+): Promise<{ updates: T[]; counts: Record<string, number> }> {
+  const thresholds = await getKolThresholds();
+  const counts: Record<string, number> = { checked: 0, passed: 0, downgraded: 0, needs_review: 0 };
+
+  const kolIds = updates.filter((u) => u.ai_category === 'KOL').map((u) => u.twitter_id);
+  const accounts = new Map((await AccountModel.getByTwitterIds(kolIds)).map((a) => [a.twitter_id, a]));
+
+  const checked: T[] = [];
+  for (const update of updates) {
+    const account = update.ai_category === 'KOL' ? accounts.get(update.twitter_id) : undefined;
+    if (!account) {
+      checked.push(update);
+      continue;
+    }
+
+    counts.checked++;
+    const failures = checkKolThresholds(account, thresholds);
+    if (failures.length === 0) {
+      counts.passed++;
+      checked.push(update);
+      continue;
+    }
+
+    for (const failure of failures) {
+      counts[failure.rule] = (counts[failure.rule] || 0) + 1;
+    }
+    logger.info(`@${account.username} is below the KOL thresholds (${describeFailures(failures)})`);
+
+    if (thresholds.action === 'downgrade') {
+      counts.downgraded++;
+      checked.push({
+        ...update,
+        ai_category: 'UNCATEGORIZED',
+        ai_reasoning: `KOL thresholds not met (${describeFailures(failures)}). AI verdict was KOL: ${update.ai_reasoning}`,
+        threshold_failures: failures,
+      });
+    } else {
+      counts.needs_review++;
+      checked.push({ ...update, needs_review: true, threshold_failures: failures });
+    }
+  }
+
+  return { updates: checked, counts };
+}
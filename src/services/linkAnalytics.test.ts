@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { buildLinkProfile, ownDomains } from './linkAnalytics.js';
+import { normalizeLink } from '../collectors/tweetLinks.js';
+
+const link = (url: string) => normalizeLink(url)!;
+
+describe('ownDomains', () => {
+  it('takes the website and bio domains, but not code hosts or Twitter', () => {
+    expect(ownDomains({
+      website_url: 'https://www.alice.dev',
+      bio: 'Building pay.alice.dev | github.com/alice | x.com/alice',
+    })).toEqual(['alice.dev']);
+  });
+});
+
+describe('buildLinkProfile', () => {
+  it('flags accounts whose links mostly go to their own sites', () => {
+    const account = { website_url: 'https://alice.dev', bio: null };
+    const profile = buildLinkProfile(account, [
+      [link('https://alice.dev/launch')],
+      [link('https://blog.alice.dev/post'), link('https://github.com/alice/kit')],
+      [link('https://alice.dev/pricing'), link('https://x.com/bob/status/1')],
+      [],
+    ]);
+
+    expect(profile).toMatchObject({
+      tweets: 4,
+      tweets_with_links: 3,
+      links: 4,
+      own_links: 3,
+      own_share: 0.75,
+      self_promotion: true,
+    });
+    expect(profile.domains.map((d) => [d.domain, d.kind])).toEqual([
+      ['alice.dev', 'own'],
+      ['github.com', 'code'],
+      ['x.com', 'twitter'],
+    ]);
+  });
+
+  it('does not flag a few own links', () => {
+    const profile = buildLinkProfile({ website_url: 'https://alice.dev', bio: null }, [[link('https://alice.dev')]]);
+
+    expect(profile.self_promotion).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { TweetModel } from '../db/account.model.js';
+import { isTwitterDomain, normalizeLink } from '../collectors/tweetLinks.js';
+import type { TweetLinkFilters } from '../db/storage.js';
+import type { Account, AccountLinkProfile, LinkKind, TweetLink } from '../types/index.js';
+
+// Code hosts and package registries: linking there is sharing code, not promoting a site
+const CODE_DOMAINS = new Set(['github.com', 'gitlab.com', 'bitbucket.org', 'npmjs.com', 'pypi.org', 'crates.io']);
+
+// An account self-promotes when at least this many links, and this share of them, go to its own sites
+const SELF_PROMOTION_MIN_LINKS = 3;
+const SELF_PROMOTION_MIN_SHARE = 0.5;
+
+// Stored tweets an account's link profile is built from (newest first)
+const PROFILE_TWEET_LIMIT = 500;
+
+// "https://alice.dev", "www.alice.dev" or a bare "alice.dev" in a bio
+const BIO_DOMAIN = /\b(?:https?:\/\/)?(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}(?:\/[^\s]*)?/gi;
+
+export interface DomainStat {
+  domain: string;
+  links: number;
+  tweets: number;
+  accounts: number;
+}
+
+export interface LinkStat {
+  url: string;
+  domain: string;
+  tweets: number;
+  accounts: number;
+  first_shared_at: string;
+  last_shared_at: string;
+}
+
+/**
+ * Domains of an account's own sites: its website and links in its bio
+ */
+export function ownDomains(account: Pick<Account, 'bio' | 'website_url'>): string[] {
+  const candidates = [account.website_url || '', ...((account.bio || '').match(BIO_DOMAIN) || [])];
+  const domains = new Set<string>();
+  for (const candidate of candidates) {
+    const link = candidate && normalizeLink(candidate);
+    if (link && !isTwitterDomain(link.domain) && !CODE_DOMAINS.has(link.domain)) {
+      domains.add(link.domain);
+    }
+  }
+  return [...domains];
+}
+
+function linkKind(domain: string, own: Set<string>): LinkKind {
+  if (isTwitterDomain(domain)) return 'twitter';
+  if (own.has(domain)) return 'own';
+  if (CODE_DOMAINS.has(domain)) return 'code';
+  return 'third_party';
+}
+
+/**
+ * Group the links of an account's tweets by domain and measure how many go to its own sites
+ */
+export function buildLinkProfile(
+  account: Pick<Account, 'bio' | 'website_url'>,
+  tweetLinks: TweetLink[][]
+): AccountLinkProfile {
+  const own = ownDomains(account);
+  const ownSet = new Set(own);
+  const byDomain = new Map<string, number>();
+  for (const link of tweetLinks.flat()) {
+    byDomain.set(link.domain, (byDomain.get(link.domain) || 0) + 1);
+  }
+
+  const domains = [...byDomain.entries()]
+    .map(([domain, links]) => ({ domain, kind: linkKind(domain, ownSet), links }))
+    .sort((a, b) => b.links - a.links || a.domain.localeCompare(b.domain));
+  const shared = domains.filter((d) => d.kind !== 'twitter');
+  const links = shared.reduce((sum, d) => sum + d.links, 0);
+  const ownLinks = shared.filter((d) => d.kind === 'own').reduce((sum, d) => sum + d.links, 0);
+  const ownShare = links > 0 ? ownLinks / links : 0;
+
+  return {
+    tweets: tweetLinks.length,
+    tweets_with_links: tweetLinks.filter((l) => l.length > 0).length,
+    links,
+    own_links: ownLinks,
+    own_share: Math.round(ownShare * 1000) / 1000,
+    own_domains: own,
+    domains,
+    self_promotion: ownLinks >= SELF_PROMOTION_MIN_LINKS && ownShare >= SELF_PROMOTION_MIN_SHARE,
+  };
+}
+
+/**
+ * Link profile of an account from its most recent stored tweets
+ */
+export async function getAccountLinkProfile(account: Account): Promise<AccountLinkProfile> {
+  const tweets = await TweetModel.getByAccountId(account.id!, PROFILE_TWEET_LIMIT);
+  return buildLinkProfile(account, tweets.map((t) => t.links || []));
+}
+
+/**
+ * Most shared domains outside Twitter/X, by number of tweets linking them
+ */
+export async function topDomains(filters: TweetLinkFilters, limit: number): Promise<DomainStat[]> {
+  const stats = new Map<string, { links: number; tweets: Set<string>; accounts: Set<string> }>();
+  for (const tweet of await TweetModel.listLinks(filters)) {
+    for (const link of tweet.links) {
+      if (isTwitterDomain(link.domain)) continue;
+      const stat = stats.get(link.domain) || { links: 0, tweets: new Set<string>(), accounts: new Set<string>() };
+      stat.links++;
+      stat.tweets.add(tweet.twitter_id);
+      stat.accounts.add(tweet.account_id);
+      stats.set(link.domain, stat);
+    }
+  }
+
+  return [...stats.entries()]
+    .map(([domain, s]) => ({ domain, links: s.links, tweets: s.tweets.size, accounts: s.accounts.size }))
+    .sort((a, b) => b.tweets - a.tweets || b.accounts - a.accounts || a.domain.localeCompare(b.domain))
+    .slice(0, limit);
+}
+
+/**
+ * Most shared links outside Twitter/X, optionally within one domain
+ */
+export async function topLinks(filters: TweetLinkFilters, limit: number, domain?: string): Promise<LinkStat[]> {
+  const stats = new Map<string, { domain: string; tweets: Set<string>; accounts: Set<string>; first: string; last: string }>();
+  for (const tweet of await TweetModel.listLinks(filters)) {
+    for (const link of tweet.links) {
+      if (isTwitterDomain(link.domain) || (domain && link.domain !== domain)) continue;
+      const stat = stats.get(link.url) || {
+        domain: link.domain,
+        tweets: new Set<string>(),
+        accounts: new Set<string>(),
+        first: tweet.created_at,
+        last: tweet.created_at,
+      };
+      stat.tweets.add(tweet.twitter_id);
+      stat.accounts.add(tweet.account_id);
+      if (tweet.created_at < stat.first) stat.first = tweet.created_at;
+      if (tweet.created_at > stat.last) stat.last = tweet.created_at;
+      stats.set(link.url, stat);
+    }
+  }
+
+  return [...stats.entries()]
+    .map(([url, s]) => ({
+      url,
+      domain: s.domain,
+      tweets: s.tweets.size,
+      accounts: s.accounts.size,
+      first_shared_at: s.first,
+      last_shared_at: s.last,
+    }))
+    .sort((a, b) => b.tweets - a.tweets || b.accounts - a.accounts || b.last_shared_at.localeCompare(a.last_shared_at))
+    .slice(0, limit);
+}
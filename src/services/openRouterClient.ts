@@ -1,11 +1,31 @@
 import { OpenRouter } from '@openrouter/sdk';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import type { Account, AICategoryResult, EnhancedAICategoryResult, RedFlag } from '../types/index.js';
+import { countCall } from '../utils/callCounters.js';
+import type {
+  Account,
+  AccountLinkProfile,
+  AICategoryResult,
+  EnhancedAICategoryResult,
+  GithubProfile,
+  RedFlag,
+} from '../types/index.js';
 import type { RapidApiTweet } from '../collectors/rapidApiClient.js';
+import { analyzeTweetContent } from '../collectors/tweetContentAnalyzer.js';
+import { extractTweetLinks } from '../collectors/tweetLinks.js';
+import { buildLinkProfile } from './linkAnalytics.js';
 
 let openRouterClient: OpenRouter | null = null;
 
+// Bump a version whenever its prompt changes, so categorization history shows which prompt produced a verdict
+export const PROMPT_VERSIONS = {
+  basic: 'basic-v1',
+  enhanced: 'enhanced-v4',
+  secondary: 'secondary-v4',
+  batchEnhanced: 'batch-enhanced-v4',
+  batchSecondary: 'batch-secondary-v4',
+} as const;
+
 function getClient(): OpenRouter {
   if (!openRouterClient) {
     openRouterClient = new OpenRouter({
@@ -103,6 +123,7 @@ Is this person a focused EXPERT voice, not a generalist or promoter?
 - referral_affiliate: Referral codes, affiliate links, token-gated club (high severity if dominant/pinned)
 - engagement_farming: Giveaways, "like/RT/follow to win" (high severity if dominant/pinned)
 - shill_behavior: Paid promos, constant token pumping
+- self_promotion: Most shared links go to their own sites (see "Links shared")
 - only_retweets: No original content
 - low_quality_content: Emojis only, memes only, no reasoning
 
@@ -144,6 +165,8 @@ Personal account showing clear evidence of building or contributing to software.
 Strong signals include:
 - Code snippets, technical threads, build logs, or architecture discussions
 - GitHub links, repos, PRs, SDKs, APIs, open-source contributions
+- The "Code evidence" line: code and package/repo links detected in their tweets (a screenshot is weaker evidence than code in text)
+- The "GitHub" line: languages, recent pushes and repos using x402 packages (recent pushes to an x402 repo are strong evidence)
 - Role signals like "engineer", "developer", "builder", "infra", "backend"
 
 ### ACTIVE_USER
@@ -320,6 +343,7 @@ export async function categorizeUserWithAI(
   try {
     logger.info(`Categorizing @${account.username} with AI (${tweets.length} tweets)`);
 
+    countCall('aiBatches');
     // Use streaming to get the response
     const stream = await client.chat.send({
       model: config.openRouter.model,
@@ -377,6 +401,123 @@ function formatTweetsEnhanced(tweets: RapidApiTweet[] | null | undefined, maxCha
     .join('\n');
 }
 
+/**
+ * Describe how much history timeline tweets span, e.g. "48 tweets over 63 days"
+ */
+function describeTimelineSpan(tweets: RapidApiTweet[] | null | undefined): string {
+  if (!tweets || tweets.length === 0) {
+    return '0 tweets';
+  }
+  const times = tweets.map((t) => Date.parse(t.created_at)).filter((t) => !Number.isNaN(t));
+  if (times.length === 0) {
+    return `${tweets.length} recent tweets`;
+  }
+  const days = Math.max(1, Math.ceil((Date.now() - Math.min(...times)) / (24 * 60 * 60 * 1000)));
+  return `${tweets.length} tweets over the last ${days} day${days === 1 ? '' : 's'}`;
+}
+
+/**
+ * Summarize code detected in the tweets, e.g.
+ * "4 tweets with code (typescript, solidity; 1 screenshot); links: github.com/a/b, npm x402-fetch"
+ */
+function describeCodeEvidence(...tweetLists: Array<RapidApiTweet[] | null | undefined>): string {
+  const tweets = new Map(tweetLists.flatMap((list) => list || []).map((t) => [t.tweet_id, t]));
+  const languages = new Set<string>();
+  const links = new Set<string>();
+  let withCode = 0;
+  let screenshots = 0;
+
+  for (const tweet of tweets.values()) {
+    const analysis = analyzeTweetContent(tweet.text || '', tweet.entities, tweet.media);
+    if (analysis.has_code) withCode++;
+    if (analysis.code_evidence === 'screenshot') screenshots++;
+    analysis.code_languages.forEach((language) => languages.add(language));
+    analysis.repo_links.forEach((link) =>
+      links.add(link.type === 'github' ? `github.com/${link.name}` : `${link.type} ${link.name}`)
+    );
+  }
+
+  if (withCode === 0 && links.size === 0) {
+    return 'None detected';
+  }
+  const details = [...languages, ...(screenshots > 0 ? [`${screenshots} screenshot${screenshots === 1 ? '' : 's'}`] : [])];
+  const parts = [`${withCode} tweet${withCode === 1 ? '' : 's'} with code${details.length > 0 ? ` (${details.join(', ')})` : ''}`];
+  if (links.size > 0) {
+    parts.push(`links: ${[...links].slice(0, 10).join(', ')}`);
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Summarize an account's GitHub profile, e.g. "alice (from bio): 24 public repos,
+ * 80 followers; languages: TypeScript 9, Rust 2; 12 pushes in the last 30 days;
+ * x402 repos: alice/pay-api (package.json: x402-express)"
+ */
+function describeGithubProfile(github: GithubProfile | null | undefined): string {
+  if (!github) {
+    return 'None found';
+  }
+  const languages = Object.entries(github.languages)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([language, count]) => `${language} ${count}`);
+  const x402Repos = github.repos
+    .filter((repo) => repo.x402)
+    .map((repo) => `${repo.name} (${repo.x402_evidence.join(', ')})`);
+
+  const parts = [
+    `${github.github_username} (from ${github.source}): ${github.public_repos} public repos, ${github.followers} followers`,
+    languages.length > 0 ? `languages: ${languages.join(', ')}` : 'no owned repos with code',
+    `${github.recent_pushes} pushes in the last 30 days${github.last_push_at ? ` (last ${github.last_push_at.slice(0, 10)})` : ''}`,
+  ];
+  if (x402Repos.length > 0) {
+    parts.push(`x402 repos: ${x402Repos.join('; ')}`);
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Link profile of the tweets shown to the AI (a tweet in both lists counts once)
+ */
+function linkProfileOf(account: Account, ...tweetLists: Array<RapidApiTweet[] | null | undefined>): AccountLinkProfile {
+  const tweets = new Map(tweetLists.flatMap((list) => list || []).map((t) => [t.tweet_id, t]));
+  return buildLinkProfile(
+    account,
+    [...tweets.values()].map((t) => extractTweetLinks(t.text || '', t.entities))
+  );
+}
+
+/**
+ * Summarize where an account's links go, e.g.
+ * "12 links, 8 to own sites (acme.xyz); domains: acme.xyz 8 (own), coinbase.com 3, github.com 1"
+ */
+function describeLinkProfile(profile: AccountLinkProfile): string {
+  if (profile.links === 0) {
+    return 'None';
+  }
+  const domains = profile.domains
+    .filter((d) => d.kind !== 'twitter')
+    .slice(0, 5)
+    .map((d) => `${d.domain} ${d.links}${d.kind === 'own' ? ' (own)' : ''}`);
+  const own = profile.own_links > 0 ? `, ${profile.own_links} to own sites (${profile.own_domains.join(', ')})` : '';
+  return `${profile.links} link${profile.links === 1 ? '' : 's'}${own}; domains: ${domains.join(', ')}`;
+}
+
+/**
+ * Add a self_promotion red flag when most shared links go to the account's own
+ * sites and the AI did not flag it already
+ */
+function addSelfPromotionFlag(redFlags: RedFlag[], profile: AccountLinkProfile): void {
+  if (!profile.self_promotion || redFlags.some((flag) => flag.type === 'self_promotion')) {
+    return;
+  }
+  redFlags.push({
+    type: 'self_promotion',
+    description: `${profile.own_links} of ${profile.links} shared links go to their own sites (${profile.own_domains.join(', ')})`,
+    severity: 'medium',
+  });
+}
+
 /**
  * Build enhanced user prompt with both x402 and general timeline tweets
  */
@@ -393,13 +534,15 @@ function buildEnhancedUserPrompt(
 **Username:** @${account.username}
 **Display Name:** ${account.display_name}
 **Bio:** ${account.bio || 'No bio'}
+**Code evidence:** ${describeCodeEvidence(x402Tweets, generalTweets)}
+**Links shared:** ${describeLinkProfile(linkProfileOf(account, x402Tweets, generalTweets))}
 
 ---
 **x402-RELATED TWEETS (${x402Tweets.length} tweets):**
 ${x402Formatted || 'No x402 tweets found'}
 
 ---
-**GENERAL TIMELINE (${generalTweets.length} recent tweets):**
+**GENERAL TIMELINE (${describeTimelineSpan(generalTweets)}):**
 ${generalFormatted || 'No timeline tweets available'}
 
 ---
@@ -412,7 +555,8 @@ Based on the CONTENT QUALITY (not engagement metrics), evaluate this user's qual
 function buildSecondaryUserPrompt(
   account: Account,
   x402Tweets: RapidApiTweet[],
-  generalTweets: RapidApiTweet[]
+  generalTweets: RapidApiTweet[],
+  github: GithubProfile | null
 ): string {
   const x402Formatted = formatTweetsEnhanced(x402Tweets);
   const generalFormatted = formatTweetsEnhanced(generalTweets);
@@ -424,14 +568,16 @@ function buildSecondaryUserPrompt(
 **Bio:** ${account.bio || 'No bio'}
 **Followers:** ${account.followers_count.toLocaleString()}
 **Following:** ${account.following_count.toLocaleString()}
-**Has GitHub in bio:** ${account.has_github ? 'Yes' : 'No'}
+**Has GitHub (bio or linked repos):** ${account.has_github ? 'Yes' : 'No'}
+**Code evidence:** ${describeCodeEvidence(x402Tweets, generalTweets)}
+**GitHub:** ${describeGithubProfile(github)}
 
 ---
 **x402-RELATED TWEETS (${x402Tweets.length} tweets):**
 ${x402Formatted || 'No x402 tweets found'}
 
 ---
-**GENERAL TIMELINE (${generalTweets.length} recent tweets):**
+**GENERAL TIMELINE (${describeTimelineSpan(generalTweets)}):**
 ${generalFormatted || 'No timeline tweets available'}
 
 ---
@@ -604,6 +750,7 @@ export async function categorizeUserEnhanced(
       `Enhanced categorizing @${account.username} (${x402Tweets.length} x402 tweets, ${generalTweets.length} timeline tweets)`
     );
 
+    countCall('aiBatches');
     // Use streaming to get the response
     const stream = await client.chat.send({
       model: config.openRouter.model,
@@ -626,6 +773,7 @@ export async function categorizeUserEnhanced(
     }
 
     const result = parseEnhancedAIResponse(response);
+    addSelfPromotionFlag(result.redFlags, linkProfileOf(account, x402Tweets, generalTweets));
 
     logger.info(
       `Enhanced AI categorized @${account.username} as ${result.category} ` +
@@ -659,7 +807,8 @@ export async function categorizeUserEnhanced(
 export async function categorizeUserForSecondaryCategories(
   account: Account,
   x402Tweets: RapidApiTweet[],
-  generalTweets: RapidApiTweet[]
+  generalTweets: RapidApiTweet[],
+  github: GithubProfile | null = null
 ): Promise<AICategoryResult> {
   const client = getClient();
 
@@ -671,13 +820,14 @@ export async function categorizeUserForSecondaryCategories(
     };
   }
 
-  const userPrompt = buildSecondaryUserPrompt(account, x402Tweets, generalTweets);
+  const userPrompt = buildSecondaryUserPrompt(account, x402Tweets, generalTweets, github);
 
   try {
     logger.info(
       `Secondary categorizing @${account.username} (${x402Tweets.length} x402 tweets, ${generalTweets.length} timeline tweets)`
     );
 
+    countCall('aiBatches');
     const stream = await client.chat.send({
       model: config.openRouter.model,
       messages: [
@@ -722,6 +872,8 @@ export interface BatchCategorizationInput {
   account: Account;
   x402Tweets: RapidApiTweet[];
   generalTweets: RapidApiTweet[];
+  // From GitHub enrichment; only used by secondary categorization
+  github?: GithubProfile | null;
 }
 
 /**
@@ -756,6 +908,8 @@ Personal account showing clear evidence of building or contributing to software.
 Strong signals include:
 - Code snippets, technical threads, build logs, or architecture discussions
 - GitHub links, repos, PRs, SDKs, APIs, open-source contributions
+- The "Code evidence" line: code and package/repo links detected in their tweets (a screenshot is weaker evidence than code in text)
+- The "GitHub" line: languages, recent pushes and repos using x402 packages (recent pushes to an x402 repo are strong evidence)
 - Role signals like "engineer", "developer", "builder", "infra", "backend"
 
 ### ACTIVE_USER
@@ -795,7 +949,7 @@ Respond ONLY with a valid JSON array:
  */
 function buildBatchSecondaryUserPrompt(inputs: BatchCategorizationInput[]): string {
   const usersData = inputs.map((input, index) => {
-    const { account, x402Tweets, generalTweets } = input;
+    const { account, x402Tweets, generalTweets, github } = input;
     const x402Formatted = formatTweetsEnhanced(x402Tweets);
     const generalFormatted = formatTweetsEnhanced(generalTweets);
 
@@ -804,12 +958,14 @@ function buildBatchSecondaryUserPrompt(inputs: BatchCategorizationInput[]): stri
 **Display Name:** ${account.display_name}
 **Bio:** ${account.bio || 'No bio'}
 **Followers:** ${account.followers_count?.toLocaleString() || 0}
-**Has GitHub in bio:** ${account.has_github ? 'Yes' : 'No'}
+**Has GitHub (bio or linked repos):** ${account.has_github ? 'Yes' : 'No'}
+**Code evidence:** ${describeCodeEvidence(x402Tweets, generalTweets)}
+**GitHub:** ${describeGithubProfile(github)}
 
 **x402-RELATED TWEETS (${x402Tweets?.length || 0} tweets):**
 ${x402Formatted || 'No x402 tweets found'}
 
-**GENERAL TIMELINE (${generalTweets?.length || 0} recent tweets):**
+**GENERAL TIMELINE (${describeTimelineSpan(generalTweets)}):**
 ${generalFormatted || 'No timeline tweets available'}
 `;
   });
@@ -884,6 +1040,7 @@ async function processSecondaryBatchWithRetry(
 
       const userPrompt = buildBatchSecondaryUserPrompt(usersWithTweets);
 
+      countCall('aiBatches');
       const stream = await client.chat.send({
         model: config.openRouter.model,
         messages: [
@@ -1105,6 +1262,7 @@ Is this person a focused EXPERT voice, not a generalist or promoter?
 - referral_affiliate: Referral codes, affiliate links, token-gated club (high severity if dominant/pinned)
 - engagement_farming: Giveaways, "like/RT/follow to win" (high severity if dominant/pinned)
 - shill_behavior: Paid promos, constant token pumping
+- self_promotion: Most shared links go to their own sites (see "Links shared")
 - only_retweets: No original content
 - low_quality_content: Emojis only, memes only, no reasoning
 
@@ -1150,11 +1308,13 @@ function buildBatchUserPrompt(inputs: BatchCategorizationInput[]): string {
 === USER ${index + 1}: @${account.username} ===
 **Display Name:** ${account.display_name}
 **Bio:** ${account.bio || 'No bio'}
+**Code evidence:** ${describeCodeEvidence(x402Tweets, generalTweets)}
+**Links shared:** ${describeLinkProfile(linkProfileOf(account, x402Tweets, generalTweets))}
 
 **x402-RELATED TWEETS (${x402Tweets.length} tweets):**
 ${x402Formatted || 'No x402 tweets found'}
 
-**GENERAL TIMELINE (${generalTweets.length} recent tweets):**
+**GENERAL TIMELINE (${describeTimelineSpan(generalTweets)}):**
 ${generalFormatted || 'No timeline tweets available'}
 `;
   });
@@ -1171,6 +1331,7 @@ Based on the CONTENT QUALITY (not engagement metrics), evaluate each user's qual
  */
 function parseBatchAIResponse(content: string, inputs: BatchCategorizationInput[]): Map<string, EnhancedAICategoryResult> {
   const results = new Map<string, EnhancedAICategoryResult>();
+  const inputsByUsername = new Map(inputs.map((input) => [input.account.username.toLowerCase(), input]));
 
   try {
     // Try to extract JSON array from the response
@@ -1231,6 +1392,11 @@ function parseBatchAIResponse(content: string, inputs: BatchCategorizationInput[
         }
       }
 
+      const input = inputsByUsername.get(username);
+      if (input) {
+        addSelfPromotionFlag(redFlags, linkProfileOf(input.account, input.x402Tweets, input.generalTweets));
+      }
+
       // Validate primary topics
       const primaryTopics: string[] = [];
       if (Array.isArray(item.primaryTopics)) {
@@ -1285,6 +1451,7 @@ async function processBatchWithRetry(
 
       const userPrompt = buildBatchUserPrompt(usersWithTweets);
 
+      countCall('aiBatches');
       const stream = await client.chat.send({
         model: config.openRouter.model,
         messages: [
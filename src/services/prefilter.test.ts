@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../config/index.js';
+import { setStorage } from '../db/storage.js';
+import { createMemoryStorage } from '../db/memoryStorage.js';
+import { CrawlRunModel } from '../db/account.model.js';
+import { applyPrefilter, checkPrefilter, countRejections, getPrefilterHits } from './prefilter.js';
+import { makeAccount } from '../test/fixtures.js';
+import type { RapidApiTweet } from '../collectors/rapidApiClient.js';
+import type { Account } from '../types/index.js';
+
+const defaults = { ...config.prefilter };
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+function account(overrides: Partial<Account> = {}): Account {
+  return {
+    id: 'a1',
+    ...makeAccount({ twitter_id: '1', followers_count: 500, tweet_count: 1000, account_created_at: daysAgo(365) }),
+    ...overrides,
+  } as Account;
+}
+
+const timeline = (retweets: number, total: number) =>
+  Array.from({ length: total }, (_, i) => ({ text: i < retweets ? 'RT @bob: x402' : 'my own take' }) as RapidApiTweet);
+
+beforeEach(() => {
+  Object.assign(config.prefilter, {
+    enabled: true,
+    minFollowers: 10,
+    minAccountAgeDays: 30,
+    minTweetCount: 20,
+    bioPatterns: ['\\bceo\\b'],
+    maxRetweetRatio: 0.9,
+    minTimelineTweets: 10,
+  });
+});
+
+afterEach(() => {
+  Object.assign(config.prefilter, defaults);
+});
+
+describe('checkPrefilter', () => {
+  it('passes an established account', () => {
+    expect(checkPrefilter(account(), timeline(1, 10))).toBeNull();
+  });
+
+  it('reports the first rule an account breaks', () => {
+    expect(checkPrefilter(account({ followers_count: 3, bio: 'CEO' }))?.rule).toBe('min_followers');
+    expect(checkPrefilter(account({ account_created_at: daysAgo(5) }))?.rule).toBe('account_age');
+    expect(checkPrefilter(account({ tweet_count: 5 }))?.rule).toBe('tweet_count');
+    expect(checkPrefilter(account({ bio: 'CEO @acme' }))).toEqual({ rule: 'bio_pattern', reason: 'bio contains "CEO"' });
+    expect(checkPrefilter(account(), timeline(9, 10))?.rule).toBe('retweet_ratio');
+  });
+
+  it('skips checks it has no data for', () => {
+    // A tweet_count of 0 means the profile was never fetched
+    expect(checkPrefilter(account({ tweet_count: 0 }))).toBeNull();
+    expect(checkPrefilter(account({ account_created_at: null }))).toBeNull();
+    // Too few timeline tweets to judge the retweet ratio
+    expect(checkPrefilter(account(), timeline(9, 9))).toBeNull();
+  });
+});
+
+describe('applyPrefilter', () => {
+  it('splits accounts and counts rejections per rule', () => {
+    const { passed, rejected } = applyPrefilter([
+      { account: account(), generalTweets: [] },
+      { account: account({ twitter_id: '2', followers_count: 1 }), generalTweets: [] },
+      { account: account({ twitter_id: '3', bio: 'ceo' }), generalTweets: [] },
+    ]);
+
+    expect(passed.map((a) => a.twitter_id)).toEqual(['1']);
+    expect(countRejections(rejected)).toEqual({ rejected: 2, min_followers: 1, bio_pattern: 1 });
+  });
+
+  it('passes everything when disabled', () => {
+    config.prefilter.enabled = false;
+
+    expect(applyPrefilter([{ account: account({ followers_count: 1 }), generalTweets: [] }]).rejected).toEqual([]);
+  });
+});
+
+describe('getPrefilterHits', () => {
+  it('sums the latest runs only', async () => {
+    setStorage(createMemoryStorage());
+    for (const [day, rejected] of [[3, 5], [2, 2], [1, 1]]) {
+      await CrawlRunModel.create({
+        type: 'crawl',
+        status: 'completed',
+        started_at: daysAgo(day),
+        finished_at: null,
+        keywords: [],
+        config_snapshot: {},
+        stages: { prefilter: { rejected, min_followers: rejected } },
+        errors: [],
+        api_calls: 0,
+        ai_batches: 0,
+        job_id: null,
+      });
+    }
+
+    const hits = await getPrefilterHits(2);
+
+    expect(hits.runs).toBe(2);
+    expect(hits.total).toEqual({ rejected: 3, min_followers: 3 });
+    expect(hits.lastRun?.counts).toEqual({ rejected: 1, min_followers: 1 });
+  });
+});
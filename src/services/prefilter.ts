@@ -0,0 +1,243 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { AccountModel, CrawlRunModel } from '../db/account.model.js';
+import type { RapidApiTweet } from '../collectors/rapidApiClient.js';
+import type { Account } from '../types/index.js';
+
+// Saved as the prompt version of pre-filter verdicts; bump when the rules change
+export const PREFILTER_VERSION = 'prefilter-v1';
+
+export type PrefilterRuleName = 'min_followers' | 'account_age' | 'tweet_count' | 'bio_pattern' | 'retweet_ratio';
+
+export interface PrefilterRule {
+  name: PrefilterRuleName;
+  description: string;
+  // A threshold of 0 (or no bio patterns, or a ratio of 1) turns the rule off
+  enabled: boolean;
+  threshold: number | string[];
+}
+
+export interface PrefilterRejection {
+  account: Account;
+  rule: PrefilterRuleName;
+  reason: string;
+}
+
+// Start of the reasoning saved with pre-filter verdicts, e.g. "Pre-filter (bio_pattern): ..."
+const PREFILTER_REASONING_PREFIX = 'Pre-filter (';
+
+// Tweets from the user's timeline, where retweets show up as "RT @user: ..."
+const RETWEET = /^RT @\w+:/;
+
+let bioRegexes: { patterns: string[]; regexes: RegExp[] } | null = null;
+
+/**
+ * PREFILTER_BIO_PATTERNS compiled once; invalid patterns are skipped with a warning
+ */
+function getBioRegexes(): RegExp[] {
+  const patterns = config.prefilter.bioPatterns;
+  if (bioRegexes?.patterns !== patterns) {
+    const regexes: RegExp[] = [];
+    for (const pattern of patterns) {
+      try {
+        regexes.push(new RegExp(pattern, 'i'));
+      } catch (error) {
+        logger.warn(`Ignoring invalid pre-filter bio pattern ${pattern}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    bioRegexes = { patterns, regexes };
+  }
+  return bioRegexes.regexes;
+}
+
+/**
+ * The configured rules, in the order they are checked
+ */
+export function getPrefilterRules(): PrefilterRule[] {
+  const rules = config.prefilter;
+  return [
+    {
+      name: 'min_followers',
+      description: 'Fewer followers than the minimum',
+      enabled: rules.minFollowers > 0,
+      threshold: rules.minFollowers,
+    },
+    {
+      name: 'account_age',
+      description: 'Twitter account younger than the minimum age in days',
+      enabled: rules.minAccountAgeDays > 0,
+      threshold: rules.minAccountAgeDays,
+    },
+    {
+      name: 'tweet_count',
+      description: 'Fewer tweets than the minimum (only when the profile reports a count)',
+      enabled: rules.minTweetCount > 0,
+      threshold: rules.minTweetCount,
+    },
+    {
+      name: 'bio_pattern',
+      description: 'Bio matches a founder, executive or official-account pattern',
+      enabled: rules.bioPatterns.length > 0,
+      threshold: rules.bioPatterns,
+    },
+    {
+      name: 'retweet_ratio',
+      description: `Share of timeline tweets that are retweets (at least ${rules.minTimelineTweets} tweets sampled)`,
+      enabled: rules.maxRetweetRatio < 1,
+      threshold: rules.maxRetweetRatio,
+    },
+  ];
+}
+
+/**
+ * The first rule an account breaks, with a readable reason, or null if it passes
+ */
+export function checkPrefilter(
+  account: Account,
+  generalTweets: RapidApiTweet[] = []
+): { rule: PrefilterRuleName; reason: string } | null {
+  const rules = config.prefilter;
+
+  if (rules.minFollowers > 0 && account.followers_count < rules.minFollowers) {
+    return {
+      rule: 'min_followers',
+      reason: `${account.followers_count} followers, below the minimum of ${rules.minFollowers}`,
+    };
+  }
+
+  if (rules.minAccountAgeDays > 0 && account.account_created_at) {
+    const ageDays = Math.floor((Date.now() - new Date(account.account_created_at).getTime()) / (24 * 60 * 60 * 1000));
+    if (ageDays < rules.minAccountAgeDays) {
+      return {
+        rule: 'account_age',
+        reason: `account is ${ageDays} days old, below the minimum of ${rules.minAccountAgeDays}`,
+      };
+    }
+  }
+
+  // tweet_count is 0 when only search results have been seen, which means unknown
+  if (rules.minTweetCount > 0 && account.tweet_count > 0 && account.tweet_count < rules.minTweetCount) {
+    return {
+      rule: 'tweet_count',
+      reason: `${account.tweet_count} tweets, below the minimum of ${rules.minTweetCount}`,
+    };
+  }
+
+  const bio = account.bio || '';
+  for (const regex of getBioRegexes()) {
+    const match = bio.match(regex);
+    if (match) {
+      return { rule: 'bio_pattern', reason: `bio contains "${match[0]}"` };
+    }
+  }
+
+  if (rules.maxRetweetRatio < 1 && generalTweets.length >= rules.minTimelineTweets) {
+    const retweets = generalTweets.filter((tweet) => RETWEET.test(tweet.text || '')).length;
+    const ratio = retweets / generalTweets.length;
+    if (ratio >= rules.maxRetweetRatio) {
+      return {
+        rule: 'retweet_ratio',
+        reason: `${retweets} of ${generalTweets.length} timeline tweets are retweets`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split accounts into those worth an AI call and those the rules reject
+ */
+export function applyPrefilter(
+  inputs: Array<{ account: Account; generalTweets: RapidApiTweet[] }>
+): { passed: Account[]; rejected: PrefilterRejection[] } {
+  const passed: Account[] = [];
+  const rejected: PrefilterRejection[] = [];
+  if (!config.prefilter.enabled) {
+    return { passed: inputs.map((i) => i.account), rejected };
+  }
+
+  for (const { account, generalTweets } of inputs) {
+    const hit = checkPrefilter(account, generalTweets);
+    if (hit) {
+      logger.info(`Pre-filter rejected @${account.username} (${hit.rule}): ${hit.reason}`);
+      rejected.push({ account, ...hit });
+    } else {
+      passed.push(account);
+    }
+  }
+  return { passed, rejected };
+}
+
+/**
+ * Rejections per rule, e.g. { rejected: 3, min_followers: 2, bio_pattern: 1 }
+ */
+export function countRejections(rejections: PrefilterRejection[]): Record<string, number> {
+  const counts: Record<string, number> = { rejected: rejections.length };
+  for (const rejection of rejections) {
+    counts[rejection.rule] = (counts[rejection.rule] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Store rejected accounts as UNCATEGORIZED with the rule as the reasoning, so
+ * later runs skip them like any other categorized account
+ */
+export async function saveRejections(rejections: PrefilterRejection[]): Promise<void> {
+  if (rejections.length === 0) {
+    return;
+  }
+
+  const { failed } = await AccountModel.bulkUpdateAICategoryEnhanced(
+    rejections.map(({ account, rule, reason }) => ({
+      twitter_id: account.twitter_id,
+      ai_category: 'UNCATEGORIZED',
+      ai_reasoning: `${PREFILTER_REASONING_PREFIX}${rule}): ${reason}`,
+      ai_confidence: 1,
+      topic_consistency_score: 0,
+      content_depth_score: 0,
+      topic_focus_score: 0,
+      red_flags: [],
+      primary_topics: [],
+    })),
+    { source: 'crawl', model: null, promptVersion: PREFILTER_VERSION }
+  );
+  if (failed > 0) {
+    logger.warn(`Failed to save ${failed} pre-filter rejections`);
+  }
+}
+
+/**
+ * Whether an account's verdict came from the pre-filter rather than the AI
+ */
+export function isPrefilterVerdict(account: Pick<Account, 'ai_reasoning'>): boolean {
+  return Boolean(account.ai_reasoning?.startsWith(PREFILTER_REASONING_PREFIX));
+}
+
+/**
+ * Rejections per rule summed over the latest crawl runs, plus those of the latest run
+ */
+export async function getPrefilterHits(recentRuns: number): Promise<{
+  runs: number;
+  total: Record<string, number>;
+  lastRun: { id: string; started_at: string; counts: Record<string, number> } | null;
+}> {
+  const total: Record<string, number> = {};
+  let runs = 0;
+  let lastRun: { id: string; started_at: string; counts: Record<string, number> } | null = null;
+
+  // One page of the newest runs keeps this cheap however many runs are recorded
+  const { data } = await CrawlRunModel.list(1, recentRuns, 'crawl');
+  for (const run of data) {
+    const counts = run.stages.prefilter;
+    if (!counts) continue;
+    runs++;
+    lastRun = lastRun || { id: run.id!, started_at: run.started_at, counts };
+    for (const [key, value] of Object.entries(counts)) {
+      total[key] = (total[key] || 0) + value;
+    }
+  }
+
+  return { runs, total, lastRun };
+}
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { setStorage } from '../db/storage.js';
+import { createMemoryStorage } from '../db/memoryStorage.js';
+import { AccountModel } from '../db/account.model.js';
+import { saveRejections } from './prefilter.js';
+import { addSecondaryMarker, needsSecondaryPass } from './secondaryPass.js';
+import { makeAccount } from '../test/fixtures.js';
+import type { Account } from '../types/index.js';
+
+const meta = { source: 'crawl' as const, model: null, promptVersion: null };
+
+async function uncategorized(): Promise<Account[]> {
+  return (await AccountModel.list({ aiCategory: 'UNCATEGORIZED' })).data;
+}
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+});
+
+describe('needsSecondaryPass', () => {
+  it('picks up accounts the AI left UNCATEGORIZED', async () => {
+    await AccountModel.upsert(makeAccount({ twitter_id: '1' }));
+    await AccountModel.updateAICategory('1', { ai_category: 'UNCATEGORIZED', ai_reasoning: 'Unclear', ai_confidence: 0.4 }, meta);
+
+    expect((await uncategorized()).filter(needsSecondaryPass).map((a) => a.twitter_id)).toEqual(['1']);
+  });
+
+  it('skips accounts rejected by the pre-filter', async () => {
+    const account = await AccountModel.upsert(makeAccount({ twitter_id: '1', followers_count: 0 }));
+    await saveRejections([{ account: account!, rule: 'min_followers', reason: '0 followers, below the minimum of 10' }]);
+
+    const [saved] = await uncategorized();
+    expect(saved.ai_reasoning).toMatch(/^Pre-filter \(min_followers\)/);
+    expect(needsSecondaryPass(saved)).toBe(false);
+  });
+
+  it('skips accounts the secondary pass already saw', async () => {
+    await AccountModel.upsert(makeAccount({ twitter_id: '1' }));
+    await AccountModel.updateAICategory('1', {
+      ai_category: 'UNCATEGORIZED',
+      ai_reasoning: addSecondaryMarker('Still unclear'),
+      ai_confidence: 0.4,
+    }, meta);
+
+    expect((await uncategorized()).filter(needsSecondaryPass)).toEqual([]);
+  });
+});
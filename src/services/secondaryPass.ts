@@ -0,0 +1,38 @@
+import { isPrefilterVerdict } from './prefilter.js';
+import type { Account } from '../types/index.js';
+
+// Marker to identify accounts that have been through secondary categorization
+export const SECONDARY_PASS_MARKER = '[SECONDARY_PASS]';
+
+/**
+ * Check if an account has already been through secondary categorization
+ */
+export function hasBeenSecondaryProcessed(account: Account): boolean {
+  // If category is DEVELOPER or ACTIVE_USER, it came from secondary pass
+  if (account.ai_category === 'DEVELOPER' || account.ai_category === 'ACTIVE_USER') {
+    return true;
+  }
+  // If reasoning contains our marker, it's been through secondary pass
+  if (account.ai_reasoning?.includes(SECONDARY_PASS_MARKER)) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * UNCATEGORIZED accounts still worth an AI call in the secondary pass. Pre-filter
+ * rejects are left out: the rules already ruled them out without one.
+ */
+export function needsSecondaryPass(account: Account): boolean {
+  return !hasBeenSecondaryProcessed(account) && !isPrefilterVerdict(account);
+}
+
+/**
+ * Add the secondary pass marker to the reasoning
+ */
+export function addSecondaryMarker(reasoning: string): string {
+  if (reasoning.includes(SECONDARY_PASS_MARKER)) {
+    return reasoning;
+  }
+  return `${reasoning} ${SECONDARY_PASS_MARKER}`;
+}
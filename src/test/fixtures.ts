@@ -0,0 +1,55 @@
+import type { NewAccount, NewTweet } from '../db/storage.js';
+
+/**
+ * An account row with every required field filled in
+ */
+export function makeAccount(overrides: Partial<NewAccount> & { twitter_id: string }): NewAccount {
+  return {
+    username: `user_${overrides.twitter_id}`,
+    display_name: `User ${overrides.twitter_id}`,
+    bio: null,
+    followers_count: 100,
+    following_count: 100,
+    tweet_count: 0,
+    favourites_count: 0,
+    profile_image_url: null,
+    location: null,
+    website_url: null,
+    verified: false,
+    verified_type: null,
+    account_created_at: null,
+    cover_image_url: null,
+    has_github: false,
+    ...overrides,
+  };
+}
+
+/**
+ * A tweet row with no tags, engagement or links unless given
+ */
+export function makeTweet(overrides: Partial<NewTweet> & { twitter_id: string; account_id: string }): NewTweet {
+  return {
+    content: '',
+    likes: 0,
+    retweets: 0,
+    replies: 0,
+    quotes: 0,
+    bookmarks: 0,
+    views: null,
+    lang: null,
+    conversation_id: null,
+    entities: {},
+    media: {},
+    created_at: new Date().toISOString(),
+    has_code: false,
+    code_evidence: null,
+    code_languages: [],
+    repo_links: [],
+    has_github: false,
+    links: [],
+    x402_keywords_found: [],
+    x402_keyword_score: 0,
+    sources: ['keyword_search'],
+    ...overrides,
+  };
+}
@@ -10,23 +10,70 @@ export interface Account {
   bio: string | null;
   followers_count: number;
   following_count: number;
+  // Only known from profile lookups; search results do not include it (0 = unknown)
   tweet_count: number;
+  favourites_count: number;
   profile_image_url: string | null;
 
+  // Profile details
+  location: string | null;
+  website_url: string | null;
+  verified: boolean;
+  verified_type: string | null;
+  // When the Twitter account was created
+  account_created_at: string | null;
+  cover_image_url: string | null;
+
   // Metadata
   has_github: boolean;
 
+  // Computed scores (0-100) from stored tweets, refreshed after each tweet fetch
+  engagement_score?: number;
+  tech_score?: number;
+  x402_relevance?: number;
+  x402_tweet_count_30d?: number;
+  // Newest stored tweet
+  last_active_at?: string | null;
+  scores_computed_at?: string | null;
+
   // AI categorization
   ai_category?: string;
   ai_reasoning?: string;
   ai_confidence?: number;
   ai_categorized_at?: string;
 
+  // AI quality assessment (enhanced categorization)
+  topic_consistency_score?: number;
+  content_depth_score?: number;
+  topic_focus_score?: number;
+  // AI red flags plus those of the heuristic bot detector (which carry a signal and evidence)
+  red_flags?: Array<{ type: string; description: string; severity: string; signal?: string; evidence_tweet_ids?: string[] }>;
+  primary_topics?: string[];
+  // KOL verdicts that miss a KOL threshold: the rules missed, and whether the verdict awaits review
+  needs_review?: boolean;
+  threshold_failures?: ThresholdFailure[];
+
+  // Full-text search relevance (only set on results of a `query` search)
+  search_rank?: number;
+  matched_tweets?: number;
+
+  // Soft delete: archived accounts are hidden from listings and skipped by the pipelines
+  deleted_at?: string | null;
+
   // Timestamps
   created_at?: string;
   updated_at?: string;
 }
 
+// Twitter account excluded from discovery and categorization
+export interface BlocklistEntry {
+  twitter_id: string;
+  username: string | null;
+  reason: string | null;
+  added_by: string;
+  created_at?: string;
+}
+
 // AI categorization result
 export interface AICategoryResult {
   category: 'KOL' | 'DEVELOPER' | 'ACTIVE_USER' | 'UNCATEGORIZED';
@@ -34,6 +81,235 @@ export interface AICategoryResult {
   reasoning: string;
 }
 
+// Where a categorization verdict came from
+export type CategorizationSource = 'crawl' | 'secondary' | 'worker' | 'manual';
+
+// Immutable record of one categorization verdict for an account
+export interface CategorizationHistoryEntry {
+  id?: string;
+  account_id: string | null;
+  twitter_id: string;
+  category: string;
+  confidence: number;
+  reasoning: string | null;
+  topic_consistency_score: number | null;
+  content_depth_score: number | null;
+  topic_focus_score: number | null;
+  red_flags: Array<{ type: string; description: string; severity: string; signal?: string; evidence_tweet_ids?: string[] }>;
+  primary_topics: string[];
+  model: string | null;
+  prompt_version: string | null;
+  source: CategorizationSource;
+  created_at?: string;
+}
+
+// Where a metrics snapshot was captured
+export type MetricSnapshotSource = 'discovery' | 'enrichment';
+
+// Point-in-time follower and engagement metrics for an account
+export interface AccountMetricSnapshot {
+  id?: string;
+  account_id: string | null;
+  twitter_id: string;
+  followers_count: number;
+  following_count: number;
+  tweet_count: number;
+  favourites_count: number;
+  // Engagement averages over the tweets seen in the same sighting (null when none were seen)
+  sampled_tweets: number;
+  avg_likes: number | null;
+  avg_retweets: number | null;
+  avg_replies: number | null;
+  avg_views: number | null;
+  engagement_rate: number | null;
+  source: MetricSnapshotSource;
+  captured_at?: string;
+}
+
+// Pipelines that record crawl runs
+export type CrawlRunType = 'crawl' | 'secondary' | 'search_worker';
+export type CrawlRunStatus = 'running' | 'completed' | 'failed';
+
+// One execution of a crawl pipeline with its per-stage statistics
+export interface CrawlRun {
+  id?: string;
+  type: CrawlRunType;
+  status: CrawlRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  keywords: string[];
+  // Non-secret config values in effect for the run
+  config_snapshot: Record<string, unknown>;
+  // Counts per stage, e.g. { discovery: { usersCreated: 3 }, categorization: { KOL: 1 } }
+  stages: Record<string, Record<string, number>>;
+  errors: Array<{ stage: string; message: string; at: string }>;
+  // RapidAPI requests made during the run
+  api_calls: number;
+  // Requests sent to OpenRouter (one per batch, or per account in sequential mode; retries included)
+  ai_batches: number;
+  job_id: string | null;
+  created_at?: string;
+}
+
+// Incremental search state for one keyword: the newest tweet seen and, while a
+// backlog of new tweets is still being paged through, where to resume
+export interface SearchCursor {
+  query: string;
+  newest_tweet_id: string | null;
+  newest_tweet_at: string | null;
+  last_cursor: string | null;
+  // The since_id bound of the query last_cursor belongs to
+  cursor_since_id: string | null;
+  last_run_at: string | null;
+  updated_at?: string;
+}
+
+// How a tweet was collected: keyword discovery, a per-user x402 search, or the user's timeline
+export type TweetSource = 'keyword_search' | 'user_x402_search' | 'timeline';
+
+// Entities and media attached to a tweet, as returned by RapidAPI
+export interface TweetEntities {
+  hashtags?: Array<{ text: string }>;
+  symbols?: Array<{ text: string }>;
+  user_mentions?: Array<{ screen_name: string; name: string; id_str?: string }>;
+  urls?: Array<{ expanded_url: string }>;
+}
+
+export interface TweetMedia {
+  photo?: Array<{ media_url_https: string }>;
+  video?: Array<{ media_url_https: string }>;
+}
+
+// A link shared in a tweet, normalized (lowercase host, no tracking parameters or fragment)
+export interface TweetLink {
+  url: string;
+  host: string;
+  // Registrable domain ("docs.cdp.coinbase.com" -> "coinbase.com"; "alice.substack.com" stays)
+  domain: string;
+}
+
+// How a shared domain relates to the account that shared it
+export type LinkKind = 'own' | 'code' | 'twitter' | 'third_party';
+
+// Links one account shares, grouped by domain
+export interface AccountLinkProfile {
+  tweets: number;
+  tweets_with_links: number;
+  // Links outside Twitter/X (quote and self links are left out of the shares)
+  links: number;
+  own_links: number;
+  // own_links / links, 0 when there are no links
+  own_share: number;
+  // Domains from the account's website and bio
+  own_domains: string[];
+  domains: Array<{ domain: string; kind: LinkKind; links: number }>;
+  // Most shared links go to the account's own sites
+  self_promotion: boolean;
+}
+
+// Kind of code found in a tweet: fenced/multi-line code, an inline `code` span, or a photo of code
+export type CodeEvidence = 'code_block' | 'inline_code' | 'screenshot';
+
+// Repository or package linked from a tweet
+export interface RepoLink {
+  type: 'github' | 'npm' | 'pypi' | 'crates';
+  // owner/repo (GitHub) or package name
+  name: string;
+  url: string;
+}
+
+// How one account engaged another in a tweet
+export type InteractionType = 'mention' | 'reply' | 'quote';
+
+// Directed edge of the interaction graph; keyed by username so targets need not be discovered accounts
+export interface AccountInteraction {
+  tweet_id: string;
+  type: InteractionType;
+  source_twitter_id: string;
+  source_username: string;
+  target_twitter_id: string | null;
+  target_username: string;
+  created_at: string;
+}
+
+// PageRank-style influence of one user within the interaction graph
+export interface InfluenceScore {
+  username: string;
+  twitter_id: string | null;
+  pagerank: number;
+  // pagerank scaled so the most central user is 100
+  influence_score: number;
+  // Distinct users interacting with / interacted with by this user
+  in_degree: number;
+  out_degree: number;
+  interactions_received: number;
+  computed_at: string;
+}
+
+// A user connected to an account in the interaction graph, with edge counts by type
+export interface GraphNeighbor {
+  username: string;
+  twitter_id: string | null;
+  // Set when the user is a discovered account
+  account_id: string | null;
+  display_name: string | null;
+  // outgoing: the account engaged this user; incoming: this user engaged the account
+  direction: 'outgoing' | 'incoming';
+  counts: Record<InteractionType, number>;
+  total: number;
+  influence_score: number | null;
+}
+
+// Undiscovered user that trusted accounts (KOL or DEVELOPER) mention or reply to
+export interface GraphCandidate {
+  username: string;
+  twitter_id: string | null;
+  // Distinct trusted accounts pointing at the user
+  trusted_sources: number;
+  interactions: number;
+  // Usernames of those trusted accounts
+  sources: string[];
+}
+
+// Where an account's GitHub username was found
+export type GithubUsernameSource = 'bio' | 'website' | 'tweet';
+
+// One public repository of a GitHub user
+export interface GithubRepoSummary {
+  name: string;
+  description: string | null;
+  language: string | null;
+  stars: number;
+  fork: boolean;
+  pushed_at: string | null;
+  // Depends on or mentions an x402 package
+  x402: boolean;
+  // Why it was flagged (e.g. "package.json: x402-express", "topic: x402")
+  x402_evidence: string[];
+}
+
+// GitHub activity of an account, fetched by the GitHub enrichment stage
+export interface GithubProfile {
+  account_id: string;
+  github_username: string;
+  source: GithubUsernameSource;
+  name: string | null;
+  bio: string | null;
+  public_repos: number;
+  followers: number;
+  // When the GitHub account was created
+  github_created_at: string | null;
+  // Owned (non-fork) repositories per primary language
+  languages: Record<string, number>;
+  // Public push events in the last 30 days, and the newest one
+  recent_pushes: number;
+  last_push_at: string | null;
+  // Most recently pushed repositories, x402 ones first
+  repos: GithubRepoSummary[];
+  x402_repo_count: number;
+  fetched_at: string;
+}
+
 // Tweet data for analysis
 export interface Tweet {
   id: string;
@@ -44,10 +320,27 @@ export interface Tweet {
   retweets: number;
   replies: number;
   quotes: number;
+  bookmarks: number;
+  // Null when the API did not report a view count
+  views: number | null;
+  lang: string | null;
+  conversation_id: string | null;
+  entities: TweetEntities;
+  media: TweetMedia;
   created_at: string;
   has_code: boolean;
+  code_evidence: CodeEvidence | null;
+  code_languages: string[];
+  // GitHub, npm, PyPI and crates.io links; has_github is set when one is on GitHub
+  repo_links: RepoLink[];
   has_github: boolean;
+  // Every expanded URL, normalized
+  links: TweetLink[];
   x402_keywords_found: string[];
+  // Sum of the weights of x402_keywords_found
+  x402_keyword_score: number;
+  // Every fetch path that returned this tweet
+  sources: TweetSource[];
 }
 
 // Twitter API user response
@@ -109,6 +402,24 @@ export interface AccountFilters {
   aiCategory?: Category;
   minAiConfidence?: number;
   hasGithub?: boolean;
+  minEngagementScore?: number;
+  minTechScore?: number;
+  minX402Relevance?: number;
+  // Only KOL verdicts waiting for review (or only those that are not)
+  needsReview?: boolean;
+  // Full-text query over profile, AI reasoning and stored tweets; results are ranked by relevance
+  query?: string;
+  // List archived (soft-deleted) accounts instead of active ones
+  archived?: boolean;
+}
+
+// Tweet matching a full-text search, with <mark>-highlighted snippet
+export interface TweetSearchResult {
+  tweet: Tweet;
+  rank: number;
+  snippet: string;
+  username: string | null;
+  display_name: string | null;
 }
 
 // Red flag types for KOL quality assessment
@@ -124,10 +435,51 @@ export type RedFlagType =
 
 export type RedFlagSeverity = 'low' | 'medium' | 'high';
 
+// Timeline patterns the heuristic bot detector checks
+export type BotSignal = 'posting_regularity' | 'templated_text' | 'giveaway' | 'follow_ratio' | 'reply_only';
+
 export interface RedFlag {
   type: RedFlagType;
   description: string;
   severity: RedFlagSeverity;
+  // Only on flags from the heuristic detector; AI flags have neither
+  signal?: BotSignal;
+  // Tweets showing the pattern (empty for profile-only signals)
+  evidence_tweet_ids?: string[];
+}
+
+// Measurements behind the heuristic bot flags (null when too few tweets to judge)
+export interface BotSignalMetrics {
+  tweets: number;
+  // Standard deviation / mean of the gaps between consecutive tweets
+  interval_variation: number | null;
+  median_interval_minutes: number | null;
+  // Share of tweets whose text, minus links, mentions and numbers, repeats another tweet
+  templated_ratio: number | null;
+  giveaway_tweets: number;
+  // followers / following (null when following nobody)
+  follow_ratio: number | null;
+  reply_ratio: number | null;
+}
+
+// Thresholds a KOL verdict must meet
+export type KolThresholdRule = 'min_followers' | 'min_engagement_score' | 'min_x402_relevance' | 'min_x402_tweets_30d';
+
+// What happens to a KOL verdict below a threshold: saved as UNCATEGORIZED, or kept as KOL and marked for review
+export type KolThresholdAction = 'downgrade' | 'review';
+
+export interface KolThresholds {
+  minFollowers: number;
+  minEngagementScore: number;
+  minX402Relevance: number;
+  minX402Tweets30d: number;
+  action: KolThresholdAction;
+}
+
+export interface ThresholdFailure {
+  rule: KolThresholdRule;
+  value: number;
+  threshold: number;
 }
 
 // Enhanced AI categorization result with quality scores
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { countCall, currentCallCounters, trackCalls } from './callCounters.js';
+
+describe('trackCalls', () => {
+  it('keeps the counts of concurrent runs apart', async () => {
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+    const run = (calls: number) =>
+      trackCalls(async () => {
+        for (let i = 0; i < calls; i++) {
+          await tick();
+          countCall('apiCalls');
+        }
+        return currentCallCounters()?.apiCalls;
+      });
+
+    expect(await Promise.all([run(2), run(5)])).toEqual([2, 5]);
+  });
+
+  it('ignores calls made outside a run', () => {
+    countCall('aiBatches');
+    expect(currentCallCounters()).toBeUndefined();
+  });
+});
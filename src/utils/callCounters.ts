@@ -0,0 +1,37 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// External calls made by one crawl run (and everything it awaits)
+export interface CallCounters {
+  apiCalls: number;
+  aiBatches: number;
+  throttled: number;
+  retries: number;
+  failures: number;
+}
+
+const counters = new AsyncLocalStorage<CallCounters>();
+
+/**
+ * Run `fn` with its own counters, so concurrent jobs in one process do not
+ * count each other's calls
+ */
+export function trackCalls<T>(fn: () => Promise<T>): Promise<T> {
+  return counters.run({ apiCalls: 0, aiBatches: 0, throttled: 0, retries: 0, failures: 0 }, fn);
+}
+
+/**
+ * Counters of the trackCalls() context the caller runs in, if any
+ */
+export function currentCallCounters(): CallCounters | undefined {
+  return counters.getStore();
+}
+
+/**
+ * Add to the current context's counters; calls outside trackCalls() are not counted
+ */
+export function countCall(key: keyof CallCounters): void {
+  const current = counters.getStore();
+  if (current) {
+    current[key]++;
+  }
+}
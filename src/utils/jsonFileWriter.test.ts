@@ -0,0 +1,44 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJsonFileWriter } from './jsonFileWriter.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-writer-'));
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('createJsonFileWriter', () => {
+  it('coalesces writes into one after the delay', () => {
+    const filePath = path.join(dir, 'nested', 'state.json');
+    const state = { count: 0 };
+    const writer = createJsonFileWriter(filePath, () => state);
+
+    state.count = 1;
+    writer.persist();
+    state.count = 2;
+    writer.persist();
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    vi.advanceTimersByTime(500);
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toEqual({ count: 2 });
+  });
+
+  it('writes immediately on flush', () => {
+    const filePath = path.join(dir, 'state.json');
+    const writer = createJsonFileWriter(filePath, () => ({ saved: true }), { indent: 2 });
+
+    writer.persist();
+    writer.flush();
+
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('{\n  "saved": true\n}');
+  });
+});
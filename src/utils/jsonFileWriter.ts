@@ -0,0 +1,42 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+export interface JsonFileWriter {
+  // Schedule a write; calls within the delay share one write
+  persist(): void;
+  // Write now, dropping any scheduled write
+  flush(): void;
+}
+
+/**
+ * Keep a JSON file in step with in-memory state. Writes are coalesced, and an
+ * exit hook writes anything still pending when the process ends.
+ */
+export function createJsonFileWriter(
+  filePath: string,
+  snapshot: () => unknown,
+  options: { indent?: number; delayMs?: number } = {}
+): JsonFileWriter {
+  const { indent, delayMs = 500 } = options;
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  const flush = (): void => {
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(snapshot(), null, indent));
+  };
+
+  const persist = (): void => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(flush, delayMs);
+    saveTimer.unref();
+  };
+
+  process.on('exit', () => {
+    if (saveTimer) flush();
+  });
+  return { persist, flush };
+}